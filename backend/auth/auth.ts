@@ -4,13 +4,23 @@
  * This file re-exports all authentication endpoints from their respective modules:
  * - Core auth: signup, signin, logout, refresh, me
  * - Password management: forgot, reset, change password
+ * - Email verification: verify, resend verification
  * - Maintenance: token cleanup cron job
+ * - Directory: internal email lookup for other services
+ * - Lockout: admin unlock for throttled accounts
+ * - Two-factor: TOTP enrollment, sign-in verification, recovery codes
+ * - Sessions: list and sign out the user's active refresh tokens
  */
 
 // Re-export all authentication endpoints
 export * from "./endpoints/auth";
 export * from "./endpoints/password"; 
+export * from "./endpoints/verification";
 export * from "./endpoints/maintenance";
+export * from "./endpoints/directory";
+export * from "./endpoints/lockout";
+export * from "./endpoints/mfa";
+export * from "./endpoints/sessions";
 
 // Re-export types for external use
 export * from "./types"; 
\ No newline at end of file
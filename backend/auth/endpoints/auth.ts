@@ -4,15 +4,23 @@ import {
   generateTokenPair,
   generateLoginResponse,
   validateRefreshToken,
-  extractUserFromToken,
+  generateMfaPendingToken,
+  extractAccessToken,
 } from "../jwt";
 import { User, RegisterRequest, LoginRequest } from "../types";
-import { hashPassword, verifyPassword, generateVerificationToken } from "../utils/password";
+import { userRegistered, refreshTokenReused } from "../events";
+import { hashPassword, verifyPassword } from "../utils/password";
+import { accountKey } from "../utils/throttle";
+import { sendVerificationEmail } from "./verification";
 import { 
   storeRefreshToken,
-  isRefreshTokenValid,
-  revokeRefreshToken 
+  revokeRefreshToken,
+  rotateRefreshToken,
+  revokeReplayedFamily,
+  requestClient,
+  authenticateAccessToken
 } from "../services/token-service";
+import { assertAllowed, recordFailedSignin, resetAttempts, requestIpKey } from "../services/throttle-service";
 
 // Additional interfaces for responses
 export interface AuthenticatedUser {
@@ -32,10 +40,13 @@ export interface SignupResponse {
 
 export interface SigninResponse {
   user: AuthenticatedUser;
-  access_token: string;
+  // With two-factor authentication on, no session is issued until /auth/mfa/verify
+  mfa_required?: boolean;
+  mfa_token?: string;
+  access_token?: string;
   // Set cookies in response
-  accessToken: Cookie<string, "access_token">;
-  refreshToken: Cookie<string, "refresh_token">;
+  accessToken?: Cookie<string, "access_token">;
+  refreshToken?: Cookie<string, "refresh_token">;
 }
 
 export interface RefreshResponse {
@@ -89,13 +100,12 @@ export const signup = api(
       throw APIError.alreadyExists("User with this email already exists");
     }
 
-    // Hash password and create user with verification token
+    // Hash password and create the user; the verification link goes out right after
     const passwordHash = await hashPassword(body.password);
-    const verificationToken = generateVerificationToken();
     
     const user = await db.queryRow<User>`
-      INSERT INTO users (email, password_hash, verification_token)
-      VALUES (${body.email}, ${passwordHash}, ${verificationToken})
+      INSERT INTO users (email, password_hash)
+      VALUES (${body.email}, ${passwordHash})
       RETURNING id, email, password_hash, is_verified, verification_token, reset_token, reset_token_expires, created_at, updated_at
     `;
 
@@ -103,6 +113,9 @@ export const signup = api(
       throw APIError.internal("Failed to create user");
     }
 
+    await userRegistered.publish({ user_id: user.id, email: user.email, registered_at: new Date() });
+    await sendVerificationEmail(user.id, user.email);
+
     // Generate JWT token pair using the full User object
     const { accessToken, refreshToken, jti } = generateTokenPair(user);
     
@@ -146,34 +159,45 @@ export const signin = api(
       throw APIError.invalidArgument("Email and password are required");
     }
 
+    // Locked accounts and noisy clients are turned away before the password is checked
+    const account = accountKey(body.email);
+    const ip = requestIpKey();
+    await assertAllowed('signin', ip ? [account, ip] : [account]);
+
     // Find user with all required fields
     const user = await db.queryRow<User>`
-      SELECT id, email, password_hash, is_verified, verification_token, reset_token, reset_token_expires, created_at, updated_at 
+      SELECT id, email, password_hash, is_verified, verification_token, reset_token, reset_token_expires, totp_enabled, created_at, updated_at 
       FROM users 
       WHERE email = ${body.email}
     `;
 
-    if (!user) {
+    // Verify password
+    const isValidPassword = user ? await verifyPassword(body.password, user.password_hash) : false;
+    if (!user || !isValidPassword) {
+      await recordFailedSignin(account, ip, user);
       throw APIError.unauthenticated("Invalid email or password");
     }
 
-    // Verify password
-    const isValidPassword = await verifyPassword(body.password, user.password_hash);
-    if (!isValidPassword) {
-      throw APIError.unauthenticated("Invalid email or password");
+    // The attempt counter is only cleared once the second factor checks out too
+    if (user.totp_enabled) {
+      return {
+        user: {
+          id: user.id,
+          email: user.email,
+          is_verified: user.is_verified,
+        },
+        mfa_required: true,
+        mfa_token: generateMfaPendingToken(user.id),
+      };
     }
 
+    await resetAttempts('signin', account);
+
     // Generate JWT token pair using the full User object
-    console.log('Generating tokens for user:', user.id, user.email);
     const { accessToken, refreshToken, jti } = generateTokenPair(user);
-    console.log('Tokens generated successfully, jti:', jti);
-    
+
     // Store refresh token for revocation tracking
-    console.log('Storing refresh token in database...');
     await storeRefreshToken(user.id, jti);
-    console.log('Refresh token stored successfully');
-
-    console.log('Setting cookies for signin user:', user.email);
 
     // Return response with native cookies
     const isProduction = process.env.NODE_ENV === 'production';
@@ -215,12 +239,6 @@ export const refresh = api(
 
     // Validate refresh token
     const payload = validateRefreshToken(refreshToken);
-    
-    // Check if refresh token is still valid (not revoked)
-    const isValid = await isRefreshTokenValid(payload.jti);
-    if (!isValid) {
-      throw APIError.unauthenticated("Refresh token revoked or expired");
-    }
 
     // Get user info with all required fields
     const user = await db.queryRow<User>`
@@ -236,11 +254,24 @@ export const refresh = api(
     // Generate new token pair using the full User object
     const { accessToken, refreshToken: newRefreshToken, jti: newJti } = generateTokenPair(user);
     
-    // Revoke old refresh token
-    await revokeRefreshToken(payload.jti);
-    
-    // Store new refresh token
-    await storeRefreshToken(user.id, newJti);
+    // Revoke old refresh token and store the new one in the same family; fails if it was already revoked
+    const rotated = await rotateRefreshToken(user.id, payload.jti, newJti);
+    if (!rotated) {
+      // A token that was already rotated is being used again: whoever holds the family can't be trusted
+      const replayed = await revokeReplayedFamily(payload.jti);
+      if (replayed) {
+        const { userAgent, ipAddress } = requestClient();
+        await refreshTokenReused.publish({
+          user_id: replayed.user_id,
+          family_id: replayed.family_id,
+          ip_address: ipAddress ?? undefined,
+          user_agent: userAgent ?? undefined,
+          detected_at: new Date(),
+        });
+        throw APIError.unauthenticated("Refresh token was already used; please sign in again");
+      }
+      throw APIError.unauthenticated("Refresh token revoked or expired");
+    }
 
     // Return response with new cookies
     const isProduction = process.env.NODE_ENV === 'production';
@@ -309,31 +340,14 @@ export const logout = api(
 export const me = api(
   { method: "GET", path: "/auth/me", expose: true },
   async (req: MeRequest): Promise<AuthenticatedUser> => {
-    let accessToken: string | null = null;
-
-    // First try to get token from Authorization header
-    const authHeader = req.authorization;
-    console.log('Authorization header:', authHeader ? 'present' : 'missing');
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      accessToken = authHeader.substring(7); // Remove 'Bearer ' prefix
-      console.log('Extracted token from Authorization header');
-    }
-
-    // If not found in header, try cookies as fallback
-    if (!accessToken) {
-      accessToken = req.accessToken?.value || null;
-      if (accessToken) {
-        console.log('Extracted token from cookies');
-      }
-    }
+    const accessToken = extractAccessToken(req.authorization, req.accessToken?.value);
 
     if (!accessToken) {
-      console.log('No access token found in Authorization header or cookies');
       throw APIError.unauthenticated("No access token provided");
     }
 
     // Extract user info from access token (now includes is_verified)
-    const { userId, email, is_verified } = extractUserFromToken(accessToken);
+    const { userId, email, is_verified } = await authenticateAccessToken(accessToken);
 
     // Verify user still exists and get full user data
     const user = await db.queryRow<User>`
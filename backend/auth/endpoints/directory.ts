@@ -0,0 +1,20 @@
+import { api } from "encore.dev/api";
+import { db } from "../db";
+import { UserEmail, GetUserEmailsResponse } from "../types";
+
+// Internal lookup of email addresses for services that only know users by id
+export const getUserEmails = api(
+  { method: "GET", path: "/internal/user-emails" },
+  async ({ user_ids }: { user_ids: string[] }): Promise<GetUserEmailsResponse> => {
+    const rows = db.query<UserEmail>`
+      SELECT id, email FROM users WHERE id = ANY(${user_ids}::uuid[])
+    `;
+
+    const users: UserEmail[] = [];
+    for await (const row of rows) {
+      users.push(row);
+    }
+
+    return { users };
+  }
+);
@@ -0,0 +1,36 @@
+import { api, APIError } from "encore.dev/api";
+import { db } from "../db";
+import { requirePermission } from "../permissions";
+import { accountKey } from "../utils/throttle";
+
+// Response interfaces
+export interface UnlockAccountResponse {
+  success: boolean;
+  // False when the account had no failed attempts on record
+  unlocked: boolean;
+}
+
+// Clear every attempt counter for an account, lifting a lockout early (admin only)
+export const unlockAccount = api(
+  { method: "POST", path: "/auth/accounts/:userId/unlock", auth: true, expose: true },
+  async ({ userId }: { userId: string }): Promise<UnlockAccountResponse> => {
+    requirePermission("users.manage");
+
+    const user = await db.queryRow<{ email: string }>`
+      SELECT email FROM users WHERE id = ${userId}
+    `;
+
+    if (!user) {
+      throw APIError.notFound("User not found");
+    }
+
+    const cleared = await db.queryRow<{ count: number }>`
+      WITH deleted AS (
+        DELETE FROM auth_throttles WHERE key = ${accountKey(user.email)} RETURNING 1
+      )
+      SELECT COUNT(*)::int AS count FROM deleted
+    `;
+
+    return { success: true, unlocked: (cleared?.count ?? 0) > 0 };
+  }
+);
@@ -2,7 +2,8 @@ import { api, APIError } from "encore.dev/api";
 import { CronJob } from "encore.dev/cron";
 import { db } from "../db";
 
-// Cleanup expired and revoked refresh tokens (Cron Job)
+// Cleanup expired refresh tokens (Cron Job). Revoked ones are kept until they
+// expire, so a replayed token can still be recognised as belonging to a family.
 export const cleanupExpiredTokens = api(
   { method: "POST", path: "/auth/cleanup-tokens" },
   async (): Promise<{ success: boolean; message: string }> => {
@@ -12,31 +13,31 @@ export const cleanupExpiredTokens = api(
       // First, count tokens that will be deleted
       const countResult = await db.queryRow`
         SELECT COUNT(*) as count FROM refresh_tokens 
-        WHERE expires_at < NOW() OR revoked = TRUE
+        WHERE expires_at < NOW()
       `;
       
       const tokensToDelete = countResult?.count || 0;
       
       // Early return if no tokens to delete - skip unnecessary DELETE operation
       if (tokensToDelete === 0) {
-        console.log('No expired or revoked tokens found - cleanup skipped');
+        console.log('No expired tokens found - cleanup skipped');
         return {
           success: true,
-          message: 'No expired or revoked refresh tokens found - database is clean'
+          message: 'No expired refresh tokens found - database is clean'
         };
       }
       
       // Only run DELETE if there are actually tokens to remove
       await db.exec`
         DELETE FROM refresh_tokens 
-        WHERE expires_at < NOW() OR revoked = TRUE
+        WHERE expires_at < NOW()
       `;
       
       console.log(`Cleanup completed: ${tokensToDelete} tokens deleted`);
       
       return {
         success: true,
-        message: `Successfully cleaned up ${tokensToDelete} expired/revoked refresh tokens`
+        message: `Successfully cleaned up ${tokensToDelete} expired refresh tokens`
       };
       
     } catch (error) {
@@ -51,4 +52,31 @@ const _ = new CronJob("refresh-token-cleanup", {
   title: "Clean up expired refresh tokens",
   every: "6h",
   endpoint: cleanupExpiredTokens,
-}); 
\ No newline at end of file
+});
+
+// Drop attempt counters that are no longer blocking and have gone quiet (Cron Job)
+export const cleanupThrottles = api(
+  { method: "POST", path: "/auth/cleanup-throttles" },
+  async (): Promise<{ success: boolean; message: string }> => {
+    const deleted = await db.queryRow<{ count: number }>`
+      WITH deleted AS (
+        DELETE FROM auth_throttles
+        WHERE last_attempt_at < NOW() - INTERVAL '1 day'
+          AND (blocked_until IS NULL OR blocked_until < NOW())
+        RETURNING 1
+      )
+      SELECT COUNT(*)::int AS count FROM deleted
+    `;
+
+    return {
+      success: true,
+      message: `Cleaned up ${deleted?.count ?? 0} stale attempt counters`
+    };
+  }
+);
+
+const _throttles = new CronJob("auth-throttle-cleanup", {
+  title: "Clean up stale sign-in attempt counters",
+  every: "6h",
+  endpoint: cleanupThrottles,
+});
@@ -0,0 +1,332 @@
+import { api, APIError, Cookie, Header } from "encore.dev/api";
+import { db } from "../db";
+import { User } from "../types";
+import {
+  generateTokenPair,
+  extractAccessToken,
+  validateMfaPendingToken
+} from "../jwt";
+import {
+  generateTotpSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTotpCode,
+  otpauthUrl,
+  verifyTotp
+} from "../utils/totp";
+import { accountKey } from "../utils/throttle";
+import { authenticateAccessToken, storeRefreshToken } from "../services/token-service";
+import { assertAllowed, recordFailedSignin, resetAttempts, requestIpKey } from "../services/throttle-service";
+import type { SigninResponse } from "./auth";
+
+// Shown as the account's name in authenticator apps
+const MFA_ISSUER = process.env.MFA_ISSUER ?? "CMS";
+
+// Request interfaces
+export interface MfaSessionRequest {
+  authorization?: Header<"Authorization">;
+  accessToken?: Cookie<string, "access_token">;
+}
+
+export interface MfaCodeRequest {
+  // An authenticator code, or a recovery code where noted
+  code: string;
+  authorization?: Header<"Authorization">;
+  accessToken?: Cookie<string, "access_token">;
+}
+
+export interface VerifyMfaRequest {
+  // From the signin response
+  mfa_token: string;
+  // An authenticator code or an unused recovery code
+  code: string;
+}
+
+// Response interfaces
+export interface MfaStatusResponse {
+  enabled: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface MfaEnrollResponse {
+  // Base32, for typing into an authenticator app by hand
+  secret: string;
+  // otpauth:// URI, usually shown as a QR code
+  otpauth_url: string;
+}
+
+export interface MfaRecoveryCodesResponse {
+  success: boolean;
+  // Shown once; only their hashes are kept
+  recovery_codes: string[];
+}
+
+export interface MfaResponse {
+  success: boolean;
+  message: string;
+}
+
+export const getMfaStatus = api(
+  { method: "GET", path: "/auth/mfa", expose: true },
+  async (req: MfaSessionRequest): Promise<MfaStatusResponse> => {
+    const user = await sessionUser(req);
+
+    const remaining = await db.queryRow<{ count: number }>`
+      SELECT COUNT(*)::int AS count FROM mfa_recovery_codes
+      WHERE user_id = ${user.id} AND used_at IS NULL
+    `;
+
+    return {
+      enabled: !!user.totp_enabled,
+      recovery_codes_remaining: user.totp_enabled ? remaining?.count ?? 0 : 0,
+    };
+  }
+);
+
+// Start enrollment with a new secret; two-factor stays off until confirmMfa
+export const enrollMfa = api(
+  { method: "POST", path: "/auth/mfa/enroll", expose: true },
+  async (req: MfaSessionRequest): Promise<MfaEnrollResponse> => {
+    const user = await sessionUser(req);
+
+    if (user.totp_enabled) {
+      throw APIError.failedPrecondition("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+    await db.exec`
+      UPDATE users
+      SET totp_secret = ${secret}, totp_last_counter = NULL, updated_at = NOW()
+      WHERE id = ${user.id}
+    `;
+
+    return { secret, otpauth_url: otpauthUrl(secret, user.email, MFA_ISSUER) };
+  }
+);
+
+// Turn two-factor on with a code from the enrolled secret and hand out recovery codes
+export const confirmMfa = api(
+  { method: "POST", path: "/auth/mfa/confirm", expose: true },
+  async (req: MfaCodeRequest): Promise<MfaRecoveryCodesResponse> => {
+    const user = await sessionUser(req);
+
+    if (user.totp_enabled) {
+      throw APIError.failedPrecondition("Two-factor authentication is already enabled");
+    }
+    if (!user.totp_secret) {
+      throw APIError.failedPrecondition("Start two-factor enrollment first");
+    }
+    if (!req.code || !isTotpCode(req.code) || !(await acceptTotp(user, req.code))) {
+      throw APIError.invalidArgument("Invalid authentication code");
+    }
+
+    await db.exec`
+      UPDATE users SET totp_enabled = TRUE, updated_at = NOW() WHERE id = ${user.id}
+    `;
+
+    return { success: true, recovery_codes: await replaceRecoveryCodes(user.id) };
+  }
+);
+
+// Second sign-in step: exchange the mfa_token and a code for the usual session
+export const verifyMfa = api(
+  { method: "POST", path: "/auth/mfa/verify", expose: true },
+  async (req: VerifyMfaRequest): Promise<SigninResponse> => {
+    if (!req.mfa_token || !req.code) {
+      throw APIError.invalidArgument("Sign-in token and code are required");
+    }
+
+    const { sub } = validateMfaPendingToken(req.mfa_token);
+    const user = await findUser(sub);
+
+    if (!user || !user.totp_enabled) {
+      throw APIError.unauthenticated("Two-factor authentication is not enabled, please sign in again");
+    }
+
+    // Wrong codes count as failed sign-ins, so guessing runs into the same lockout
+    const account = accountKey(user.email);
+    const ip = requestIpKey();
+    await assertAllowed('signin', ip ? [account, ip] : [account]);
+
+    if (!(await checkSecondFactor(user, req.code))) {
+      await recordFailedSignin(account, ip, user);
+      throw APIError.unauthenticated("Invalid authentication code");
+    }
+
+    await resetAttempts('signin', account);
+
+    const { accessToken, refreshToken, jti } = generateTokenPair(user);
+    await storeRefreshToken(user.id, jti);
+
+    const isProduction = process.env.NODE_ENV === 'production';
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        is_verified: user.is_verified,
+      },
+      access_token: accessToken,
+      accessToken: {
+        value: accessToken,
+        httpOnly: true,
+        secure: isProduction,
+        sameSite: isProduction ? "Strict" : "Lax",
+        maxAge: 30 * 60, // 30 minutes
+        path: "/",
+      },
+      refreshToken: {
+        value: refreshToken,
+        httpOnly: true,
+        secure: isProduction,
+        sameSite: isProduction ? "Strict" : "Lax",
+        maxAge: 7 * 24 * 60 * 60, // 7 days
+        path: "/",
+      },
+    };
+  }
+);
+
+// Turn two-factor off; takes an authenticator or recovery code
+export const disableMfa = api(
+  { method: "POST", path: "/auth/mfa/disable", expose: true },
+  async (req: MfaCodeRequest): Promise<MfaResponse> => {
+    const user = await enabledSessionUser(req);
+
+    const tx = await db.begin();
+    try {
+      await tx.exec`
+        UPDATE users
+        SET totp_enabled = FALSE, totp_secret = NULL, totp_last_counter = NULL, updated_at = NOW()
+        WHERE id = ${user.id}
+      `;
+      await tx.exec`
+        DELETE FROM mfa_recovery_codes WHERE user_id = ${user.id}
+      `;
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+
+    return {
+      success: true,
+      message: "Two-factor authentication has been turned off"
+    };
+  }
+);
+
+// Replace all recovery codes, e.g. after running low; takes an authenticator or recovery code
+export const regenerateRecoveryCodes = api(
+  { method: "POST", path: "/auth/mfa/recovery-codes", expose: true },
+  async (req: MfaCodeRequest): Promise<MfaRecoveryCodesResponse> => {
+    const user = await enabledSessionUser(req);
+
+    return { success: true, recovery_codes: await replaceRecoveryCodes(user.id) };
+  }
+);
+
+const findUser = async (userId: string): Promise<User | null> => {
+  return await db.queryRow<User>`
+    SELECT id, email, password_hash, is_verified, totp_secret, totp_enabled, totp_last_counter, created_at, updated_at
+    FROM users
+    WHERE id = ${userId}
+  `;
+};
+
+// The user behind the request's access token (Authorization header first, then cookie)
+const sessionUser = async (req: MfaSessionRequest): Promise<User> => {
+  const accessToken = extractAccessToken(req.authorization, req.accessToken?.value);
+
+  if (!accessToken) {
+    throw APIError.unauthenticated("No access token provided");
+  }
+
+  const { userId } = await authenticateAccessToken(accessToken);
+  const user = await findUser(userId);
+
+  if (!user) {
+    throw APIError.unauthenticated("User not found");
+  }
+
+  return user;
+};
+
+// Changes to an enabled second factor need a current code. Wrong codes count
+// as failed sign-ins, as in verifyMfa, so a stolen access token can't be used
+// to guess one.
+const enabledSessionUser = async (req: MfaCodeRequest): Promise<User> => {
+  const user = await sessionUser(req);
+
+  if (!user.totp_enabled) {
+    throw APIError.failedPrecondition("Two-factor authentication is not enabled");
+  }
+  if (!req.code) {
+    throw APIError.invalidArgument("Invalid authentication code");
+  }
+
+  const account = accountKey(user.email);
+  const ip = requestIpKey();
+  await assertAllowed('signin', ip ? [account, ip] : [account]);
+
+  if (!(await checkSecondFactor(user, req.code))) {
+    await recordFailedSignin(account, ip, user);
+    throw APIError.invalidArgument("Invalid authentication code");
+  }
+
+  await resetAttempts('signin', account);
+
+  return user;
+};
+
+// Six digits are checked against the authenticator secret, anything else as a recovery code
+const checkSecondFactor = async (user: User, code: string): Promise<boolean> => {
+  if (isTotpCode(code)) {
+    return await acceptTotp(user, code);
+  }
+
+  // Marking the code used in the same statement makes it single use
+  const used = await db.queryRow`
+    UPDATE mfa_recovery_codes
+    SET used_at = NOW()
+    WHERE user_id = ${user.id} AND code_hash = ${hashRecoveryCode(code)} AND used_at IS NULL
+    RETURNING id
+  `;
+  return !!used;
+};
+
+// A code is accepted once: its time step has to be later than the last one used
+const acceptTotp = async (user: User, code: string): Promise<boolean> => {
+  const counter = user.totp_secret ? verifyTotp(user.totp_secret, code) : null;
+  if (counter === null) {
+    return false;
+  }
+
+  const accepted = await db.queryRow`
+    UPDATE users
+    SET totp_last_counter = ${counter}
+    WHERE id = ${user.id} AND (totp_last_counter IS NULL OR totp_last_counter < ${counter})
+    RETURNING id
+  `;
+  return !!accepted;
+};
+
+const replaceRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+
+  const tx = await db.begin();
+  try {
+    await tx.exec`DELETE FROM mfa_recovery_codes WHERE user_id = ${userId}`;
+    for (const code of codes) {
+      await tx.exec`
+        INSERT INTO mfa_recovery_codes (user_id, code_hash)
+        VALUES (${userId}, ${hashRecoveryCode(code)})
+      `;
+    }
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+
+  return codes;
+};
@@ -6,8 +6,15 @@ import {
   verifyPassword, 
   generateResetToken 
 } from "../utils/password";
-import { extractUserFromToken } from "../jwt";
-import { revokeAllUserTokens } from "../services/token-service";
+import { extractAccessToken } from "../jwt";
+import { authenticateAccessToken, revokeAllUserTokens, revokeOtherUserTokens } from "../services/token-service";
+import { throttle } from "../services/throttle-service";
+import { accountKey } from "../utils/throttle";
+import { passwordChanged } from "../events";
+import { mailer } from "~encore/clients";
+
+// Reset links stop working after this long
+const RESET_TOKEN_TTL_MINUTES = 60;
 
 // Request interfaces
 export interface ForgotPasswordRequest {
@@ -40,6 +47,9 @@ export const forgotPassword = api(
       throw APIError.invalidArgument("Email is required");
     }
 
+    // Counted whether or not the account exists, so the limit gives nothing away either
+    await throttle('forgot_password', accountKey(req.email));
+
     // Find user
     const user = await db.queryRow<User>`
       SELECT id, email, password_hash, is_verified, verification_token, reset_token, reset_token_expires, created_at, updated_at 
@@ -57,7 +67,7 @@ export const forgotPassword = api(
 
     // Generate reset token and set expiration
     const resetToken = generateResetToken();
-    const resetTokenExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour from now
+    const resetTokenExpires = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
     
     // Store reset token in user record
     await db.exec`
@@ -66,10 +76,10 @@ export const forgotPassword = api(
       WHERE id = ${user.id}
     `;
 
-    // In a real application, you would send an email here
-    // For demo purposes, we'll log the token (remove this in production!)
-    console.log(`Password reset token for ${user.email}: ${resetToken}`);
-    console.log(`Reset URL: http://localhost:5173/reset-password?token=${resetToken}`);
+    await mailer.sendEmail({
+      to: user.email,
+      message: { template: 'password_reset', token: resetToken, expires_in_minutes: RESET_TOKEN_TTL_MINUTES },
+    });
 
     return {
       success: true,
@@ -117,6 +127,8 @@ export const resetPassword = api(
     // Revoke all existing refresh tokens for this user (force re-login)
     await revokeAllUserTokens(user.id);
 
+    await passwordChanged.publish({ user_id: user.id, method: 'reset', changed_at: new Date() });
+
     return {
       success: true,
       message: "Password has been reset successfully. Please sign in with your new password."
@@ -127,18 +139,8 @@ export const resetPassword = api(
 export const changePassword = api(
   { method: "POST", path: "/auth/change-password", expose: true },
   async (req: ChangePasswordRequest): Promise<PasswordResponse> => {
-    let accessToken: string | null = null;
-
-    // First try to get token from Authorization header
-    const authHeader = req.authorization;
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      accessToken = authHeader.substring(7); // Remove 'Bearer ' prefix
-    }
-
-    // If not found in header, try cookies as fallback
-    if (!accessToken) {
-      accessToken = req.accessToken?.value || null;
-    }
+    // Authorization header first, then cookie as fallback
+    const accessToken = extractAccessToken(req.authorization, req.accessToken?.value);
 
     if (!accessToken) {
       throw APIError.unauthenticated("No access token provided");
@@ -153,7 +155,7 @@ export const changePassword = api(
     }
 
     // Extract user info from access token
-    const { userId } = extractUserFromToken(accessToken);
+    const { userId, sessionId } = await authenticateAccessToken(accessToken);
 
     // Get user with current password hash
     const user = await db.queryRow`
@@ -180,8 +182,15 @@ export const changePassword = api(
       WHERE id = ${user.id}
     `;
 
-    // Revoke all other refresh tokens for this user (keep current session)
-    await revokeAllUserTokens(user.id);
+    // Revoke all other refresh tokens for this user (keep current session, whose
+    // access token would otherwise stop working too)
+    if (sessionId) {
+      await revokeOtherUserTokens(user.id, sessionId);
+    } else {
+      await revokeAllUserTokens(user.id);
+    }
+
+    await passwordChanged.publish({ user_id: user.id, method: 'change', changed_at: new Date() });
 
     return {
       success: true,
@@ -0,0 +1,109 @@
+import { api, APIError, Cookie, Header } from "encore.dev/api";
+import { db } from "../db";
+import { extractAccessToken } from "../jwt";
+import { authenticateAccessToken, revokeOtherUserTokens } from "../services/token-service";
+
+// Request interfaces
+export interface SessionsRequest {
+  authorization?: Header<"Authorization">;
+  accessToken?: Cookie<string, "access_token">;
+}
+
+export interface RevokeSessionRequest {
+  id: string;
+  authorization?: Header<"Authorization">;
+  accessToken?: Cookie<string, "access_token">;
+}
+
+// Response interfaces
+export interface Session {
+  // The refresh token family, which stays the same across rotations
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  signed_in_at: Date;
+  // The session's last request, to within a minute; refreshes count too
+  last_used_at: Date;
+  expires_at: Date;
+  // The session the request was made from
+  current: boolean;
+}
+
+export interface ListSessionsResponse {
+  sessions: Session[];
+}
+
+export interface RevokeSessionsResponse {
+  success: boolean;
+  revoked: number;
+}
+
+// Every signed-in device or browser, most recently used first
+export const listSessions = api(
+  { method: "GET", path: "/auth/sessions", expose: true },
+  async (req: SessionsRequest): Promise<ListSessionsResponse> => {
+    const { userId, sessionId } = await requestSession(req);
+
+    const rows = db.query<Session>`
+      SELECT family_id AS id, user_agent, ip_address, signed_in_at, last_used_at, expires_at,
+        -- The access token may name an earlier token of the same family
+        COALESCE(family_id = (SELECT family_id FROM refresh_tokens WHERE jti = ${sessionId ?? null}), FALSE) AS current
+      FROM refresh_tokens
+      WHERE user_id = ${userId} AND revoked = FALSE AND expires_at > NOW()
+      ORDER BY last_used_at DESC
+    `;
+
+    const sessions: Session[] = [];
+    for await (const session of rows) {
+      sessions.push(session);
+    }
+
+    return { sessions };
+  }
+);
+
+// Sign one session out; its access token stops working along with its refresh token
+export const revokeSession = api(
+  { method: "DELETE", path: "/auth/sessions/:id", expose: true },
+  async (req: RevokeSessionRequest): Promise<RevokeSessionsResponse> => {
+    const { userId } = await requestSession(req);
+
+    const revoked = await db.queryRow`
+      UPDATE refresh_tokens
+      SET revoked = TRUE, revoked_at = NOW()
+      WHERE family_id = ${req.id} AND user_id = ${userId} AND revoked = FALSE AND expires_at > NOW()
+      RETURNING id
+    `;
+
+    if (!revoked) {
+      throw APIError.notFound("Session not found");
+    }
+
+    return { success: true, revoked: 1 };
+  }
+);
+
+// Sign out everywhere except the session the request was made from
+export const revokeOtherSessions = api(
+  { method: "POST", path: "/auth/sessions/revoke-others", expose: true },
+  async (req: SessionsRequest): Promise<RevokeSessionsResponse> => {
+    const { userId, sessionId } = await requestSession(req);
+
+    // Tokens issued before sessions were tracked can't tell which one is theirs
+    if (!sessionId) {
+      throw APIError.failedPrecondition("Sign in again to manage your other sessions");
+    }
+
+    return { success: true, revoked: await revokeOtherUserTokens(userId, sessionId) };
+  }
+);
+
+const requestSession = async (req: SessionsRequest): Promise<{ userId: string; sessionId?: string }> => {
+  const accessToken = extractAccessToken(req.authorization, req.accessToken?.value);
+
+  if (!accessToken) {
+    throw APIError.unauthenticated("No access token provided");
+  }
+
+  return await authenticateAccessToken(accessToken);
+};
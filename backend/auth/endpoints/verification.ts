@@ -0,0 +1,171 @@
+import { api, APIError, Cookie, Header } from "encore.dev/api";
+import { mailer } from "~encore/clients";
+import { db } from "../db";
+import { User } from "../types";
+import { generateAccessToken, extractAccessToken } from "../jwt";
+import { generateVerificationToken } from "../utils/password";
+import { accountKey } from "../utils/throttle";
+import { throttle } from "../services/throttle-service";
+import { authenticateAccessToken } from "../services/token-service";
+import type { AuthenticatedUser } from "./auth";
+
+// Verification links stop working after this long
+export const VERIFICATION_TOKEN_TTL_HOURS = 24;
+
+// Minimum wait between two verification emails to the same user
+export const RESEND_COOLDOWN_SECONDS = 120;
+
+// Request interfaces
+export interface VerifyEmailRequest {
+  token: string;
+  // The signed-in session, if any, gets an access token with the updated claim
+  authorization?: Header<"Authorization">;
+  accessToken?: Cookie<string, "access_token">;
+}
+
+export interface ResendVerificationRequest {
+  authorization?: Header<"Authorization">;
+  accessToken?: Cookie<string, "access_token">;
+}
+
+// Response interfaces
+export interface VerifyEmailResponse {
+  success: boolean;
+  message: string;
+  user: AuthenticatedUser;
+  // Only when the request came from the verified user's own session
+  access_token?: string;
+  accessToken?: Cookie<string, "access_token">;
+}
+
+export interface ResendVerificationResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Give the user a fresh verification token and email them the link.
+ * Any earlier link stops working.
+ */
+export const sendVerificationEmail = async (userId: string, email: string): Promise<void> => {
+  const token = generateVerificationToken();
+  const expires = new Date(Date.now() + VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000);
+
+  await db.exec`
+    UPDATE users
+    SET verification_token = ${token},
+        verification_token_expires = ${expires},
+        verification_sent_at = NOW(),
+        updated_at = NOW()
+    WHERE id = ${userId}
+  `;
+
+  await mailer.sendEmail({ to: email, message: { template: 'email_verification', token } });
+};
+
+export const verifyEmail = api(
+  { method: "POST", path: "/auth/verify-email", expose: true },
+  async (req: VerifyEmailRequest): Promise<VerifyEmailResponse> => {
+    if (!req.token) {
+      throw APIError.invalidArgument("Verification token is required");
+    }
+
+    // Clearing the token in the same statement makes each link single use
+    const user = await db.queryRow<User>`
+      UPDATE users
+      SET is_verified = TRUE,
+          verification_token = NULL,
+          verification_token_expires = NULL,
+          updated_at = NOW()
+      WHERE verification_token = ${req.token}
+        AND verification_token_expires > NOW()
+      RETURNING id, email, password_hash, is_verified, verification_token, reset_token, reset_token_expires, created_at, updated_at
+    `;
+
+    if (!user) {
+      throw APIError.invalidArgument("Invalid or expired verification token");
+    }
+
+    const response: VerifyEmailResponse = {
+      success: true,
+      message: "Your email address has been verified.",
+      user: {
+        id: user.id,
+        email: user.email,
+        is_verified: user.is_verified,
+      },
+    };
+
+    // Access tokens carry is_verified, so the current session needs a new one to see the change
+    const sessionToken = extractAccessToken(req.authorization, req.accessToken?.value);
+    const session = sessionToken ? await sessionOf(sessionToken) : undefined;
+    if (session && session.userId === user.id) {
+      const accessToken = generateAccessToken(user, session.sessionId);
+      const isProduction = process.env.NODE_ENV === 'production';
+      response.access_token = accessToken;
+      response.accessToken = {
+        value: accessToken,
+        httpOnly: true,
+        secure: isProduction,
+        sameSite: isProduction ? "Strict" : "Lax",
+        maxAge: 30 * 60, // 30 minutes
+        path: "/",
+      };
+    }
+
+    return response;
+  }
+);
+
+export const resendVerification = api(
+  { method: "POST", path: "/auth/resend-verification", expose: true },
+  async (req: ResendVerificationRequest): Promise<ResendVerificationResponse> => {
+    const accessToken = extractAccessToken(req.authorization, req.accessToken?.value);
+
+    if (!accessToken) {
+      throw APIError.unauthenticated("No access token provided");
+    }
+
+    const { userId } = await authenticateAccessToken(accessToken);
+
+    const user = await db.queryRow<User>`
+      SELECT id, email, password_hash, is_verified, verification_token, verification_sent_at, reset_token, reset_token_expires, created_at, updated_at
+      FROM users
+      WHERE id = ${userId}
+    `;
+
+    if (!user) {
+      throw APIError.unauthenticated("User not found");
+    }
+
+    if (user.is_verified) {
+      throw APIError.failedPrecondition("Email address is already verified");
+    }
+
+    if (user.verification_sent_at) {
+      const waitSeconds = Math.ceil(
+        (user.verification_sent_at.getTime() + RESEND_COOLDOWN_SECONDS * 1000 - Date.now()) / 1000
+      );
+      if (waitSeconds > 0) {
+        throw APIError.resourceExhausted(`Please wait ${waitSeconds} seconds before requesting another verification email`);
+      }
+    }
+
+    await throttle('resend_verification', accountKey(user.email));
+    await sendVerificationEmail(user.id, user.email);
+
+    return {
+      success: true,
+      message: "A new verification link has been sent to your email address."
+    };
+  }
+);
+
+// An expired, signed-out or foreign token just means the session is left as it is
+const sessionOf = async (token: string): Promise<{ userId: string; sessionId?: string } | undefined> => {
+  try {
+    return await authenticateAccessToken(token);
+  } catch {
+    return undefined;
+  }
+};
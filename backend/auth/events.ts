@@ -0,0 +1,52 @@
+import { Topic } from "encore.dev/pubsub";
+
+export interface UserRegisteredEvent {
+  user_id: string;
+  email: string;
+  registered_at: Date;
+}
+
+// 'change' is the signed-in user changing it, 'reset' came through a reset link
+export type PasswordChangeMethod = 'change' | 'reset';
+
+export interface PasswordChangedEvent {
+  user_id: string;
+  method: PasswordChangeMethod;
+  changed_at: Date;
+}
+
+export interface AccountLockedEvent {
+  user_id: string;
+  email: string;
+  failed_attempts: number;
+  locked_until: Date;
+}
+
+export interface RefreshTokenReusedEvent {
+  user_id: string;
+  family_id: string;
+  // Where the replayed token came from
+  ip_address?: string;
+  user_agent?: string;
+  detected_at: Date;
+}
+
+// Published once a new account has been created
+export const userRegistered = new Topic<UserRegisteredEvent>("user-registered", {
+  deliveryGuarantee: "at-least-once",
+});
+
+// Published after a password has been replaced, so the owner can be warned
+export const passwordChanged = new Topic<PasswordChangedEvent>("password-changed", {
+  deliveryGuarantee: "at-least-once",
+});
+
+// Published each time repeated failed sign-ins lock an account
+export const accountLocked = new Topic<AccountLockedEvent>("account-locked", {
+  deliveryGuarantee: "at-least-once",
+});
+
+// Published when an already rotated refresh token is presented again and its family is revoked
+export const refreshTokenReused = new Topic<RefreshTokenReusedEvent>("refresh-token-reused", {
+  deliveryGuarantee: "at-least-once",
+});
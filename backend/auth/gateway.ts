@@ -0,0 +1,44 @@
+import { APIError, Cookie, Gateway, Header } from "encore.dev/api";
+import { authHandler } from "encore.dev/auth";
+import { users } from "~encore/clients";
+import { extractAccessToken } from "./jwt";
+import { authenticateAccessToken } from "./services/token-service";
+
+// Credentials accepted by the gateway: Bearer header first, cookie as fallback
+interface AuthParams {
+  authorization?: Header<"Authorization">;
+  accessToken?: Cookie<string, "access_token">;
+}
+
+// Data available to every `auth: true` endpoint via getAuthData()
+export interface AuthData {
+  userID: string;
+  email: string;
+  is_verified: boolean;
+  roles: string[];
+}
+
+export const auth = authHandler<AuthParams, AuthData>(
+  async (params) => {
+    const accessToken = extractAccessToken(params.authorization, params.accessToken?.value);
+
+    if (!accessToken) {
+      throw APIError.unauthenticated("No access token provided");
+    }
+
+    // Signed-out sessions are rejected here rather than when their token expires
+    const { userId, email, is_verified } = await authenticateAccessToken(accessToken);
+
+    // Roles are looked up once per request so revocations apply immediately
+    const { roles } = await users.getRoleNames({ userId });
+
+    return {
+      userID: userId,
+      email,
+      is_verified,
+      roles,
+    };
+  }
+);
+
+export const gateway = new Gateway({ authHandler: auth });
@@ -11,6 +11,7 @@ import {
   validateAccessToken,
   validateRefreshToken,
   extractUserFromToken,
+  extractAccessToken,
   generateLoginResponse
 } from './jwt';
 
@@ -110,6 +111,13 @@ describe('JWT Utilities', () => {
       expect(extractedUser.userId).toBe(mockUser.id);
       expect(extractedUser.email).toBe(mockUser.email);
       expect(extractedUser.is_verified).toBe(mockUser.is_verified);
+      expect(extractedUser.sessionId).toBeUndefined();
+    });
+
+    it('should tie access tokens from a pair to their refresh token', () => {
+      const { accessToken, jti } = generateTokenPair(mockUser);
+
+      expect(extractUserFromToken(accessToken).sessionId).toBe(jti);
     });
 
     it('should return null for invalid tokens', () => {
@@ -123,6 +131,16 @@ describe('JWT Utilities', () => {
         expect(error).toBeTruthy();
       }
     });
+
+    it('should prefer the Bearer header over the cookie', () => {
+      expect(extractAccessToken('Bearer header-token', 'cookie-token')).toBe('header-token');
+    });
+
+    it('should fall back to the cookie when no Bearer header is sent', () => {
+      expect(extractAccessToken(undefined, 'cookie-token')).toBe('cookie-token');
+      expect(extractAccessToken('Basic abc', 'cookie-token')).toBe('cookie-token');
+      expect(extractAccessToken(undefined, undefined)).toBeNull();
+    });
   });
 
   describe('Login Response Generation', () => {
@@ -11,6 +11,7 @@ const JWT_REFRESH_SECRET = secret("JWT_REFRESH_SECRET");
 // Token expiration times
 const ACCESS_TOKEN_EXPIRY = '30m';  // 30 minutes
 const REFRESH_TOKEN_EXPIRY = '7d';  // 7 days
+const MFA_PENDING_TOKEN_EXPIRY = '5m';  // 5 minutes to enter the second factor
 
 // Cookie configuration
 export const ACCESS_TOKEN_COOKIE_OPTIONS = {
@@ -34,6 +35,7 @@ export interface AccessTokenPayload {
   sub: string;           // User ID
   email: string;         // User email
   is_verified: boolean;  // User verification status
+  sid?: string;          // jti of the refresh token issued alongside, identifying the session
   iat: number;           // Issued at
   exp: number;           // Expires at
   type: 'access';        // Token type
@@ -47,17 +49,26 @@ export interface RefreshTokenPayload {
   jti: string;           // JWT ID for revocation tracking
 }
 
+// Proves the password was right; only exchangeable for a session together with a second factor
+export interface MfaPendingTokenPayload {
+  sub: string;           // User ID
+  iat: number;           // Issued at
+  exp: number;           // Expires at
+  type: 'mfa_pending';   // Token type
+}
+
 // Generate a unique JWT ID for refresh tokens
 export const generateJTI = (): string => {
   return crypto.randomBytes(16).toString('hex');
 };
 
 // Generate access token from User object
-export const generateAccessToken = (user: User): string => {
+export const generateAccessToken = (user: User, sessionId?: string): string => {
   const payload: Omit<AccessTokenPayload, 'iat' | 'exp'> = {
     sub: user.id,
     email: user.email,
     is_verified: user.is_verified,
+    sid: sessionId,
     type: 'access'
   };
 
@@ -89,12 +100,26 @@ export const generateRefreshToken = (userId: string): { token: string; jti: stri
 
 // Generate token pair (access + refresh) from User object
 export const generateTokenPair = (user: User): { accessToken: string; refreshToken: string; jti: string } => {
-  const accessToken = generateAccessToken(user);
   const { token: refreshToken, jti } = generateRefreshToken(user.id);
+  const accessToken = generateAccessToken(user, jti);
   
   return { accessToken, refreshToken, jti };
 };
 
+// Generate the token handed out between password and second factor
+export const generateMfaPendingToken = (userId: string): string => {
+  const payload: Omit<MfaPendingTokenPayload, 'iat' | 'exp'> = {
+    sub: userId,
+    type: 'mfa_pending'
+  };
+
+  return jwt.sign(payload, JWT_ACCESS_SECRET(), {
+    expiresIn: MFA_PENDING_TOKEN_EXPIRY,
+    issuer: 'cms-react-encore',
+    audience: 'cms-users'
+  });
+};
+
 // Generate LoginResponse from User object and token
 export const generateLoginResponse = (user: User, token: string): LoginResponse => {
   return {
@@ -155,16 +180,50 @@ export const validateRefreshToken = (token: string): RefreshTokenPayload => {
   }
 };
 
+// Validate MFA pending token
+export const validateMfaPendingToken = (token: string): MfaPendingTokenPayload => {
+  try {
+    const payload = jwt.verify(token, JWT_ACCESS_SECRET(), {
+      issuer: 'cms-react-encore',
+      audience: 'cms-users'
+    }) as MfaPendingTokenPayload;
+
+    if (payload.type !== 'mfa_pending') {
+      throw new APIError(ErrCode.Unauthenticated, 'Invalid token type');
+    }
+
+    return payload;
+  } catch (error) {
+    // TokenExpiredError is a JsonWebTokenError, so it has to be checked first
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new APIError(ErrCode.Unauthenticated, 'Sign-in token expired, please sign in again');
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new APIError(ErrCode.Unauthenticated, 'Invalid sign-in token');
+    }
+    throw error;
+  }
+};
+
 // Extract user info from access token (for middleware)
-export const extractUserFromToken = (token: string): { userId: string; email: string; is_verified: boolean } => {
+export const extractUserFromToken = (token: string): { userId: string; email: string; is_verified: boolean; sessionId?: string } => {
   const payload = validateAccessToken(token);
   return {
     userId: payload.sub,
     email: payload.email,
-    is_verified: payload.is_verified
+    is_verified: payload.is_verified,
+    sessionId: payload.sid
   };
 };
 
+// Pick the access token from an Authorization header, falling back to the cookie value
+export const extractAccessToken = (authorization?: string, cookieValue?: string): string | null => {
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.substring(7); // Remove 'Bearer ' prefix
+  }
+  return cookieValue || null;
+};
+
 // Decode token without verification (for debugging/logging)
 export const decodeToken = (token: string): any => {
   return jwt.decode(token);
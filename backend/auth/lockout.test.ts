@@ -0,0 +1,88 @@
+import { describe, expect, test } from "vitest";
+import { auth } from "~encore/clients";
+import { signup, signin } from "./endpoints/auth";
+import { forgotPassword } from "./endpoints/password";
+import { THROTTLE_POLICIES, accountKey } from "./utils/throttle";
+import { db } from "./db";
+
+// unlockAccount checks the caller's permission, so it is invoked through the service client
+const authAs = (userID: string, roles: string[] = ["admin"]) => ({
+  authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
+
+const newUser = async () => {
+  const email = `lockout-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+  const response = await signup({ email, password: "password123" });
+  return { email, userId: response.user.id };
+};
+
+const throttleRow = async (scope: string, email: string) => {
+  return await db.queryRow<{ attempts: number; blocked_until: Date | null }>`
+    SELECT attempts, blocked_until FROM auth_throttles WHERE scope = ${scope} AND key = ${accountKey(email)}
+  `;
+};
+
+// Skips the backoff between attempts so the test doesn't have to wait it out
+const unblock = (email: string) => db.exec`
+  UPDATE auth_throttles SET blocked_until = NULL WHERE key = ${accountKey(email)}
+`;
+
+describe("Account Lockout", () => {
+  test("should back off after repeated failures and clear on success", async () => {
+    const { email } = await newUser();
+    const { freeAttempts } = THROTTLE_POLICIES.signin.account;
+
+    for (let attempt = 1; attempt <= freeAttempts; attempt++) {
+      await expect(signin({ email, password: "wrong" })).rejects.toThrow("Invalid email or password");
+    }
+
+    await expect(signin({ email, password: "password123" })).rejects.toThrow(/Too many attempts/);
+
+    await unblock(email);
+    const response = await signin({ email, password: "password123" });
+
+    expect(response.user.email).toBe(email);
+    expect(await throttleRow("signin", email)).toBeNull();
+  });
+
+  test("should lock the account after too many failures until an admin unlocks it", async () => {
+    const { email, userId } = await newUser();
+    const { lockoutAfter } = THROTTLE_POLICIES.signin.account;
+
+    for (let attempt = 1; attempt <= lockoutAfter!; attempt++) {
+      await expect(signin({ email, password: "wrong" })).rejects.toThrow("Invalid email or password");
+      if (attempt < lockoutAfter!) {
+        await unblock(email);
+      }
+    }
+
+    const locked = await throttleRow("signin", email);
+    expect(locked?.attempts).toBe(lockoutAfter);
+    expect(locked!.blocked_until!.getTime() - Date.now()).toBeGreaterThan(10 * 60 * 1000);
+
+    await expect(auth.unlockAccount({ userId }, authAs(userId, ["editor"])))
+      .rejects.toThrow("Missing permission: users.manage");
+
+    expect(await auth.unlockAccount({ userId }, authAs(userId))).toEqual({ success: true, unlocked: true });
+    expect((await signin({ email, password: "password123" })).user.email).toBe(email);
+  });
+
+  test("should count unknown emails the same way", async () => {
+    const email = `nobody-${Date.now()}@example.com`;
+
+    await expect(signin({ email, password: "wrong" })).rejects.toThrow("Invalid email or password");
+
+    expect((await throttleRow("signin", email))?.attempts).toBe(1);
+  });
+
+  test("should limit password reset requests per account", async () => {
+    const { email } = await newUser();
+    const { freeAttempts } = THROTTLE_POLICIES.forgot_password.account;
+
+    for (let attempt = 1; attempt <= freeAttempts; attempt++) {
+      expect((await forgotPassword({ email })).success).toBe(true);
+    }
+
+    await expect(forgotPassword({ email })).rejects.toThrow(/Too many attempts/);
+  });
+});
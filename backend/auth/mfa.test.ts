@@ -0,0 +1,101 @@
+import { describe, expect, test } from "vitest";
+import { signup, signin } from "./endpoints/auth";
+import { enrollMfa, confirmMfa, verifyMfa, disableMfa, getMfaStatus, regenerateRecoveryCodes } from "./endpoints/mfa";
+import { totpCode, totpCounter } from "./utils/totp";
+import { db } from "./db";
+
+const newUser = async () => {
+  const email = `mfa-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+  const response = await signup({ email, password: "password123" });
+  return { email, authorization: `Bearer ${response.access_token}` };
+};
+
+// Each code is accepted once, so tests that need another one move the last used step back
+const forgetLastCode = (email: string) => db.exec`
+  UPDATE users SET totp_last_counter = NULL WHERE email = ${email}
+`;
+
+const enrolled = async () => {
+  const user = await newUser();
+  const { secret } = await enrollMfa({ authorization: user.authorization });
+  const { recovery_codes } = await confirmMfa({ authorization: user.authorization, code: totpCode(secret, totpCounter()) });
+  await forgetLastCode(user.email);
+  return { ...user, secret, recoveryCodes: recovery_codes };
+};
+
+describe("Two-Factor Authentication", () => {
+  test("should only enable two-factor after a valid code", async () => {
+    const { authorization } = await newUser();
+
+    await expect(confirmMfa({ authorization, code: "123456" })).rejects.toThrow("Start two-factor enrollment first");
+
+    const { secret, otpauth_url } = await enrollMfa({ authorization });
+    expect(otpauth_url).toContain(`secret=${secret}`);
+    await expect(confirmMfa({ authorization, code: "000000" })).rejects.toThrow("Invalid authentication code");
+    expect((await getMfaStatus({ authorization })).enabled).toBe(false);
+
+    const response = await confirmMfa({ authorization, code: totpCode(secret, totpCounter()) });
+
+    expect(response.recovery_codes).toHaveLength(10);
+    expect(await getMfaStatus({ authorization })).toEqual({ enabled: true, recovery_codes_remaining: 10 });
+    await expect(enrollMfa({ authorization })).rejects.toThrow("Two-factor authentication is already enabled");
+  });
+
+  test("should hold back the session until the code is verified", async () => {
+    const { email, secret } = await enrolled();
+
+    const challenge = await signin({ email, password: "password123" });
+
+    expect(challenge.mfa_required).toBe(true);
+    expect(challenge.access_token).toBeUndefined();
+    expect(challenge.accessToken).toBeUndefined();
+
+    const code = totpCode(secret, totpCounter());
+    const response = await verifyMfa({ mfa_token: challenge.mfa_token!, code });
+
+    expect(response.user.email).toBe(email);
+    expect(response.accessToken?.value).toBe(response.access_token);
+    await expect(verifyMfa({ mfa_token: challenge.mfa_token!, code })).rejects.toThrow("Invalid authentication code");
+  });
+
+  test("should accept each recovery code once", async () => {
+    const { email, authorization, recoveryCodes } = await enrolled();
+    const { mfa_token } = await signin({ email, password: "password123" });
+
+    const response = await verifyMfa({ mfa_token: mfa_token!, code: recoveryCodes[0].toUpperCase() });
+
+    expect(response.access_token).toBeDefined();
+    await expect(verifyMfa({ mfa_token: mfa_token!, code: recoveryCodes[0] })).rejects.toThrow("Invalid authentication code");
+    expect((await getMfaStatus({ authorization })).recovery_codes_remaining).toBe(9);
+  });
+
+  test("should not accept access tokens as sign-in tokens", async () => {
+    const { authorization } = await enrolled();
+
+    await expect(verifyMfa({ mfa_token: authorization.slice(7), code: "123456" })).rejects.toThrow("Invalid token type");
+  });
+
+  test("should replace recovery codes and turn off with a current code", async () => {
+    const { email, authorization, secret, recoveryCodes } = await enrolled();
+
+    const { recovery_codes } = await regenerateRecoveryCodes({ authorization, code: recoveryCodes[0] });
+    expect(recovery_codes).not.toContain(recoveryCodes[1]);
+    await expect(disableMfa({ authorization, code: recoveryCodes[1] })).rejects.toThrow("Invalid authentication code");
+
+    await disableMfa({ authorization, code: totpCode(secret, totpCounter()) });
+
+    expect(await getMfaStatus({ authorization })).toEqual({ enabled: false, recovery_codes_remaining: 0 });
+    expect((await signin({ email, password: "password123" })).mfa_required).toBeUndefined();
+  });
+
+  test("should count wrong codes against sign-in when changing two-factor", async () => {
+    const { authorization, secret } = await enrolled();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await expect(disableMfa({ authorization, code: "000000" })).rejects.toThrow("Invalid authentication code");
+    }
+
+    await expect(disableMfa({ authorization, code: totpCode(secret, totpCounter()) })).rejects.toThrow("Too many attempts");
+    expect((await getMfaStatus({ authorization })).enabled).toBe(true);
+  });
+});
@@ -0,0 +1,8 @@
+-- Verification links expire, and the last send time throttles resends
+ALTER TABLE users ADD COLUMN verification_token_expires TIMESTAMP;
+ALTER TABLE users ADD COLUMN verification_sent_at TIMESTAMP;
+
+-- Links already handed out get a fresh day to be used
+UPDATE users
+SET verification_token_expires = NOW() + INTERVAL '24 hours'
+WHERE verification_token IS NOT NULL AND NOT is_verified;
@@ -0,0 +1,12 @@
+-- Attempt counters for sign-in, password reset and verification requests,
+-- one row per scope and account or client IP
+CREATE TABLE auth_throttles (
+    scope TEXT NOT NULL,
+    key TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    blocked_until TIMESTAMP WITH TIME ZONE NULL,
+    PRIMARY KEY (scope, key)
+);
+
+CREATE INDEX idx_auth_throttles_last_attempt_at ON auth_throttles(last_attempt_at);
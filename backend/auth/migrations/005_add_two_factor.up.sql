@@ -0,0 +1,17 @@
+-- Optional TOTP second factor. The secret is stored on enrollment and only
+-- takes effect once a code from it has been confirmed.
+ALTER TABLE users ADD COLUMN totp_secret TEXT;
+ALTER TABLE users ADD COLUMN totp_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+-- Last time step accepted, so a code can't be replayed within its window
+ALTER TABLE users ADD COLUMN totp_last_counter BIGINT;
+
+-- Single-use recovery codes, stored hashed
+CREATE TABLE mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
@@ -0,0 +1,8 @@
+-- Each active refresh token is a session the user can see and sign out
+ALTER TABLE refresh_tokens ADD COLUMN user_agent TEXT;
+ALTER TABLE refresh_tokens ADD COLUMN ip_address TEXT;
+-- Carried over when a token is rotated, so it stays the original sign-in time
+ALTER TABLE refresh_tokens ADD COLUMN signed_in_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE refresh_tokens ADD COLUMN last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+UPDATE refresh_tokens SET signed_in_at = created_at, last_used_at = created_at;
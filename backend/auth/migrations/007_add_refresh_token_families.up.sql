@@ -0,0 +1,8 @@
+-- Every refresh token descends from one sign-in. Rotation keeps the family and
+-- records the token it replaced, so a replayed ancestor can be recognised.
+-- Existing tokens each start a family of their own.
+ALTER TABLE refresh_tokens ADD COLUMN family_id UUID NOT NULL DEFAULT gen_random_uuid();
+ALTER TABLE refresh_tokens ADD COLUMN parent_jti TEXT;
+
+CREATE INDEX idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+CREATE INDEX idx_refresh_tokens_parent_jti ON refresh_tokens(parent_jti);
@@ -50,13 +50,13 @@ describe("Native Cookie Authentication", () => {
 
     // Check that response includes cookie configuration
     expect(response.accessToken).toBeDefined();
-    expect(response.accessToken.value).toBe(response.access_token);
-    expect(response.accessToken.httpOnly).toBe(true);
-    expect(response.accessToken.maxAge).toBe(30 * 60); // 30 minutes
+    expect(response.accessToken!.value).toBe(response.access_token);
+    expect(response.accessToken!.httpOnly).toBe(true);
+    expect(response.accessToken!.maxAge).toBe(30 * 60); // 30 minutes
 
     expect(response.refreshToken).toBeDefined();
-    expect(response.refreshToken.httpOnly).toBe(true);
-    expect(response.refreshToken.maxAge).toBe(7 * 24 * 60 * 60); // 7 days
+    expect(response.refreshToken!.httpOnly).toBe(true);
+    expect(response.refreshToken!.maxAge).toBe(7 * 24 * 60 * 60); // 7 days
   });
 
   test("should read access token from Authorization header", async () => {
@@ -86,7 +86,7 @@ describe("Native Cookie Authentication", () => {
     // Test /me endpoint with cookie (simulating cookie-based auth)
     const meResponse = await me({
       accessToken: {
-        value: signinResponse.access_token,
+        value: signinResponse.access_token!,
         httpOnly: true,
         secure: false,
         sameSite: "Lax",
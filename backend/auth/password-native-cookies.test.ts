@@ -118,7 +118,7 @@ describe("Password Management with Native Cookies", () => {
       currentPassword: password,
       newPassword,
       accessToken: {
-        value: signinResponse.access_token,
+        value: signinResponse.access_token!,
         httpOnly: true,
         secure: false,
         sameSite: "Lax",
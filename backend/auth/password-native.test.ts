@@ -35,7 +35,7 @@ describe("Password Native Cookie Support", () => {
       currentPassword: password,
       newPassword,
       accessToken: {
-        value: signinResponse.access_token,
+        value: signinResponse.access_token!,
         httpOnly: true,
         secure: false,
         sameSite: "Lax",
@@ -0,0 +1,65 @@
+/**
+ * Encore-native tests for role-based permissions
+ * Run with: encore test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hasPermission, permissionsForRoles, requiresVerifiedEmail, ROLE_PERMISSIONS } from './permissions';
+
+describe('Role Permissions', () => {
+  describe('Role Mapping', () => {
+    it('should let contributors create drafts but not publish', () => {
+      expect(hasPermission(['contributor'], 'content.create')).toBe(true);
+      expect(hasPermission(['contributor'], 'content.publish')).toBe(false);
+      expect(hasPermission(['contributor'], 'media.delete')).toBe(false);
+    });
+
+    it('should keep viewers read-only', () => {
+      expect(hasPermission(['viewer'], 'content.read')).toBe(true);
+      expect(hasPermission(['viewer'], 'media.read')).toBe(true);
+      expect(hasPermission(['viewer'], 'content.create')).toBe(false);
+      expect(hasPermission(['viewer'], 'media.upload')).toBe(false);
+    });
+
+    it('should let editors publish but not manage users', () => {
+      expect(hasPermission(['editor'], 'content.publish')).toBe(true);
+      expect(hasPermission(['editor'], 'media.delete')).toBe(true);
+      expect(hasPermission(['editor'], 'taxonomy.manage')).toBe(true);
+      expect(hasPermission(['editor'], 'users.manage')).toBe(false);
+    });
+
+    it('should reserve users.manage for admins', () => {
+      const holders = Object.entries(ROLE_PERMISSIONS)
+        .filter(([, permissions]) => permissions.includes('users.manage'))
+        .map(([role]) => role);
+
+      expect(holders).toEqual(['admin']);
+    });
+  });
+
+  describe('Permission Resolution', () => {
+    it('should merge permissions across roles', () => {
+      const permissions = permissionsForRoles(['viewer', 'contributor']);
+
+      expect(permissions.has('content.read')).toBe(true);
+      expect(permissions.has('content.create')).toBe(true);
+      expect(permissions.has('content.publish')).toBe(false);
+    });
+
+    it('should treat users without roles as viewers', () => {
+      expect(permissionsForRoles([])).toEqual(permissionsForRoles(['viewer']));
+    });
+
+    it('should ignore unknown roles', () => {
+      expect(permissionsForRoles(['superuser']).size).toBe(0);
+    });
+  });
+
+  describe('Email Verification', () => {
+    it('should only hold back publishing until the email is verified', () => {
+      expect(requiresVerifiedEmail('content.publish')).toBe(true);
+      expect(requiresVerifiedEmail('content.create')).toBe(false);
+      expect(requiresVerifiedEmail('media.upload')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+
+/**
+ * Role-based access control shared by every service.
+ *
+ * Role names match the rows seeded in users/migrations/002_create_user_roles.up.sql.
+ * The caller's roles are resolved once per request by the gateway auth handler,
+ * so checking a permission never costs an extra lookup.
+ */
+
+export type RoleName = 'admin' | 'editor' | 'contributor' | 'viewer';
+
+export type Permission =
+  | 'content.read'
+  | 'content.create'
+  | 'content.update'
+  | 'content.publish'
+  | 'content.delete'
+  | 'taxonomy.manage'
+  | 'media.read'
+  | 'media.upload'
+  | 'media.update'
+  | 'media.delete'
+  | 'users.read'
+  | 'users.manage'
+  | 'notifications.send';
+
+const VIEWER_PERMISSIONS: Permission[] = ['content.read', 'media.read'];
+
+const CONTRIBUTOR_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  'content.create',
+  'content.update',
+  'media.upload',
+];
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  ...CONTRIBUTOR_PERMISSIONS,
+  'content.publish',
+  'content.delete',
+  'taxonomy.manage',
+  'media.update',
+  'media.delete',
+  'users.read',
+  'notifications.send',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...EDITOR_PERMISSIONS,
+  'users.manage',
+];
+
+export const ROLE_PERMISSIONS: Record<RoleName, readonly Permission[]> = {
+  admin: ADMIN_PERMISSIONS,
+  editor: EDITOR_PERMISSIONS,
+  contributor: CONTRIBUTOR_PERMISSIONS,
+  viewer: VIEWER_PERMISSIONS,
+};
+
+// Granted by a role but only usable once the caller has verified their email address
+const VERIFIED_ONLY_PERMISSIONS: readonly Permission[] = ['content.publish'];
+
+export const requiresVerifiedEmail = (permission: Permission): boolean => {
+  return VERIFIED_ONLY_PERMISSIONS.includes(permission);
+};
+
+// Users without any assigned role are treated as viewers (read-only)
+const DEFAULT_ROLE: RoleName = 'viewer';
+
+/**
+ * Resolve the union of permissions granted by a set of role names.
+ * Unknown role names grant nothing.
+ */
+export const permissionsForRoles = (roles: string[]): Set<Permission> => {
+  const effectiveRoles = roles.length > 0 ? roles : [DEFAULT_ROLE];
+  const permissions = new Set<Permission>();
+
+  for (const role of effectiveRoles) {
+    const granted = ROLE_PERMISSIONS[role as RoleName];
+    if (granted) {
+      granted.forEach((permission) => permissions.add(permission));
+    }
+  }
+
+  return permissions;
+};
+
+/**
+ * Check whether a set of role names grants a permission
+ */
+export const hasPermission = (roles: string[], permission: Permission): boolean => {
+  return permissionsForRoles(roles).has(permission);
+};
+
+/**
+ * Guard for `auth: true` endpoints: returns the caller's auth data or throws
+ * PermissionDenied when none of their roles grant the permission, or when the
+ * permission needs a verified email address and the caller has none.
+ */
+export const requirePermission = (permission: Permission) => {
+  const auth = getAuthData();
+  if (!auth) {
+    throw APIError.unauthenticated("Authentication required");
+  }
+
+  if (!hasPermission(auth.roles, permission)) {
+    throw APIError.permissionDenied(`Missing permission: ${permission}`);
+  }
+
+  if (!auth.is_verified && requiresVerifiedEmail(permission)) {
+    throw APIError.permissionDenied("Verify your email address first");
+  }
+
+  return auth;
+};
+
+/**
+ * Guard for per-user resources: the caller may act on their own record,
+ * anyone else needs the given permission.
+ */
+export const requireSelfOrPermission = (userId: string, permission: Permission) => {
+  const auth = getAuthData();
+  if (!auth) {
+    throw APIError.unauthenticated("Authentication required");
+  }
+
+  if (auth.userID !== userId && !hasPermission(auth.roles, permission)) {
+    throw APIError.permissionDenied(`Missing permission: ${permission}`);
+  }
+
+  return auth;
+};
@@ -0,0 +1,115 @@
+import { APIError } from "encore.dev/api";
+import { currentRequest } from "encore.dev";
+import { db } from "../db";
+import { accountLocked } from "../events";
+import {
+  THROTTLE_POLICIES,
+  ThrottleScope,
+  ThrottlePolicy,
+  blockSeconds,
+  isLockedOut,
+  clientIp,
+  ipKey,
+  formatWait
+} from "../utils/throttle";
+
+/**
+ * Key for the client IP of the API call being handled, if it is known
+ */
+export const requestIpKey = (): string | undefined => {
+  const request = currentRequest();
+  const ip = clientIp(request?.type === 'api-call' ? request.headers : undefined);
+  return ip ? ipKey(ip) : undefined;
+};
+
+/**
+ * Refuse the request while any of the keys is still blocked
+ */
+export const assertAllowed = async (scope: ThrottleScope, keys: string[]): Promise<void> => {
+  const blocked = await db.queryRow<{ wait_seconds: number }>`
+    SELECT CEIL(EXTRACT(EPOCH FROM MAX(blocked_until) - NOW()))::int AS wait_seconds
+    FROM auth_throttles
+    WHERE scope = ${scope} AND key = ANY(${keys}) AND blocked_until > NOW()
+  `;
+
+  if (blocked?.wait_seconds) {
+    throw APIError.resourceExhausted(`Too many attempts. Try again in ${formatWait(blocked.wait_seconds)}`);
+  }
+};
+
+/**
+ * Count an attempt against a key and block it for as long as the policy
+ * says. The count starts over after a quiet window. Returns the new count.
+ */
+export const recordAttempt = async (scope: ThrottleScope, key: string, policy: ThrottlePolicy): Promise<number> => {
+  const row = await db.queryRow<{ attempts: number }>`
+    INSERT INTO auth_throttles (scope, key, attempts, last_attempt_at)
+    VALUES (${scope}, ${key}, 1, NOW())
+    ON CONFLICT (scope, key) DO UPDATE
+    SET attempts = CASE
+          WHEN auth_throttles.last_attempt_at < NOW() - make_interval(secs => ${policy.windowSeconds}) THEN 1
+          ELSE auth_throttles.attempts + 1
+        END,
+        last_attempt_at = NOW()
+    RETURNING attempts
+  `;
+
+  const attempts = row?.attempts ?? 1;
+  const seconds = blockSeconds(attempts, policy);
+
+  await db.exec`
+    UPDATE auth_throttles
+    SET blocked_until = ${seconds > 0 ? new Date(Date.now() + seconds * 1000) : null}
+    WHERE scope = ${scope} AND key = ${key}
+  `;
+
+  return attempts;
+};
+
+/**
+ * Check and count one request against both the account and the client IP.
+ * For endpoints where every request counts, not just failed ones.
+ */
+export const throttle = async (scope: ThrottleScope, account: string): Promise<void> => {
+  const ip = requestIpKey();
+  await assertAllowed(scope, ip ? [account, ip] : [account]);
+  await recordAttempt(scope, account, THROTTLE_POLICIES[scope].account);
+  if (ip) {
+    await recordAttempt(scope, ip, THROTTLE_POLICIES[scope].ip);
+  }
+};
+
+/**
+ * Forget the attempts against a key, e.g. after a successful sign-in
+ */
+export const resetAttempts = async (scope: ThrottleScope, key: string): Promise<void> => {
+  await db.exec`
+    DELETE FROM auth_throttles WHERE scope = ${scope} AND key = ${key}
+  `;
+};
+
+/**
+ * Count a failed sign-in, whether the password or the second factor was wrong.
+ * Unknown emails are counted too, so failures look the same whether or not
+ * the account exists. Owners hear about every lockout.
+ */
+export const recordFailedSignin = async (
+  account: string,
+  ip: string | undefined,
+  user: { id: string; email: string } | null
+): Promise<void> => {
+  const policies = THROTTLE_POLICIES.signin;
+  const attempts = await recordAttempt('signin', account, policies.account);
+  if (ip) {
+    await recordAttempt('signin', ip, policies.ip);
+  }
+
+  if (user && isLockedOut(attempts, policies.account)) {
+    await accountLocked.publish({
+      user_id: user.id,
+      email: user.email,
+      failed_attempts: attempts,
+      locked_until: new Date(Date.now() + blockSeconds(attempts, policies.account) * 1000),
+    });
+  }
+};
@@ -1,15 +1,106 @@
+import { currentRequest } from "encore.dev";
+import { APIError } from "encore.dev/api";
 import { db } from "../db";
+import { extractUserFromToken } from "../jwt";
+import { clientIp } from "../utils/throttle";
+
+// A token rotated this recently may just be a concurrent refresh from the same browser
+const ROTATION_GRACE_SECONDS = 10;
+
+// Requests within this long of the last recorded use don't write it again
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+/**
+ * Browser and address of the API call being handled, shown in the session list
+ */
+export const requestClient = (): { userAgent: string | null; ipAddress: string | null } => {
+  const request = currentRequest();
+  const headers = request?.type === 'api-call' ? request.headers : undefined;
+  const userAgent = headers?.['user-agent'];
+
+  return {
+    userAgent: (Array.isArray(userAgent) ? userAgent[0] : userAgent) ?? null,
+    ipAddress: clientIp(headers) ?? null,
+  };
+};
 
 /**
  * Store refresh token in database for revocation tracking
  */
 export const storeRefreshToken = async (userId: string, jti: string): Promise<void> => {
+  const { userAgent, ipAddress } = requestClient();
+
   await db.exec`
-    INSERT INTO refresh_tokens (user_id, jti)
-    VALUES (${userId}, ${jti})
+    INSERT INTO refresh_tokens (user_id, jti, user_agent, ip_address)
+    VALUES (${userId}, ${jti}, ${userAgent}, ${ipAddress})
   `;
 };
 
+/**
+ * Replace a refresh token with its successor in the same family, keeping the
+ * session's sign-in time. Claiming the old token and inserting the new one
+ * happen together, so only one of two concurrent refreshes can succeed.
+ * Returns false when the old token was already revoked or has expired.
+ */
+export const rotateRefreshToken = async (userId: string, oldJti: string, newJti: string): Promise<boolean> => {
+  const { userAgent, ipAddress } = requestClient();
+
+  const tx = await db.begin();
+  try {
+    const parent = await tx.queryRow<{ family_id: string; signed_in_at: Date }>`
+      UPDATE refresh_tokens
+      SET revoked = TRUE, revoked_at = NOW()
+      WHERE jti = ${oldJti} AND user_id = ${userId} AND revoked = FALSE AND expires_at > NOW()
+      RETURNING family_id, signed_in_at
+    `;
+
+    if (!parent) {
+      await tx.rollback();
+      return false;
+    }
+
+    await tx.exec`
+      INSERT INTO refresh_tokens (user_id, jti, user_agent, ip_address, signed_in_at, family_id, parent_jti)
+      VALUES (${userId}, ${newJti}, ${userAgent}, ${ipAddress}, ${parent.signed_in_at}, ${parent.family_id}, ${oldJti})
+    `;
+
+    await tx.commit();
+    return true;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+};
+
+/**
+ * A rejected refresh token that was rotated earlier has been used twice, so
+ * someone other than the owner may hold a copy. Revokes the token's whole
+ * family and returns it; returns null when the token was simply signed out,
+ * expired, or rotated within the last few seconds (e.g. two tabs refreshing
+ * at once).
+ */
+export const revokeReplayedFamily = async (jti: string): Promise<{ user_id: string; family_id: string } | null> => {
+  const replayed = await db.queryRow<{ user_id: string; family_id: string }>`
+    SELECT rt.user_id, rt.family_id
+    FROM refresh_tokens rt
+    WHERE rt.jti = ${jti}
+      AND rt.revoked = TRUE
+      AND rt.revoked_at < NOW() - make_interval(secs => ${ROTATION_GRACE_SECONDS})
+      AND EXISTS (SELECT 1 FROM refresh_tokens child WHERE child.parent_jti = rt.jti)
+  `;
+
+  if (!replayed) {
+    return null;
+  }
+
+  await db.exec`
+    UPDATE refresh_tokens
+    SET revoked = TRUE, revoked_at = NOW()
+    WHERE family_id = ${replayed.family_id} AND revoked = FALSE
+  `;
+  return replayed;
+};
+
 /**
  * Check if refresh token is valid (not revoked)
  */
@@ -23,6 +114,45 @@ export const isRefreshTokenValid = async (jti: string): Promise<boolean> => {
   return !!token;
 };
 
+/**
+ * Check if a session is still signed in, and record that it was just used.
+ * An access token names the refresh token issued with it, which may since have
+ * been rotated, so any live token in that token's family keeps the session open.
+ */
+export const touchSession = async (sessionId: string): Promise<boolean> => {
+  const live = await db.queryRow`
+    WITH live AS (
+      SELECT id, last_used_at FROM refresh_tokens
+      WHERE family_id = (SELECT family_id FROM refresh_tokens WHERE jti = ${sessionId})
+        AND expires_at > NOW()
+        AND revoked = FALSE
+      LIMIT 1
+    ), touched AS (
+      UPDATE refresh_tokens SET last_used_at = NOW()
+      WHERE id IN (
+        SELECT id FROM live WHERE last_used_at < NOW() - make_interval(secs => ${LAST_USED_RESOLUTION_SECONDS})
+      )
+    )
+    SELECT id FROM live
+  `;
+  return !!live;
+};
+
+/**
+ * Validate an access token and reject it once its session has been signed out,
+ * revoked from the session list, or revoked after refresh token reuse
+ */
+export const authenticateAccessToken = async (token: string): Promise<{ userId: string; email: string; is_verified: boolean; sessionId?: string }> => {
+  const user = extractUserFromToken(token);
+
+  // Tokens issued before sessions were tracked have no session to check
+  if (user.sessionId && !(await touchSession(user.sessionId))) {
+    throw APIError.unauthenticated("Session has been signed out, please sign in again");
+  }
+
+  return user;
+};
+
 /**
  * Revoke refresh token
  */
@@ -43,4 +173,21 @@ export const revokeAllUserTokens = async (userId: string): Promise<void> => {
     SET revoked = TRUE, revoked_at = NOW()
     WHERE user_id = ${userId} AND revoked = FALSE
   `;
-}; 
\ No newline at end of file
+};
+
+/**
+ * Revoke all of a user's refresh tokens except those in the given one's family
+ */
+export const revokeOtherUserTokens = async (userId: string, keepJti: string): Promise<number> => {
+  const revoked = await db.queryRow<{ count: number }>`
+    WITH revoked AS (
+      UPDATE refresh_tokens
+      SET revoked = TRUE, revoked_at = NOW()
+      WHERE user_id = ${userId} AND revoked = FALSE
+        AND family_id IS DISTINCT FROM (SELECT family_id FROM refresh_tokens WHERE jti = ${keepJti})
+      RETURNING 1
+    )
+    SELECT COUNT(*)::int AS count FROM revoked
+  `;
+  return revoked?.count ?? 0;
+};
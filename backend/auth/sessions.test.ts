@@ -0,0 +1,143 @@
+import { describe, expect, test } from "vitest";
+import { signup, signin, refresh } from "./endpoints/auth";
+import { listSessions, revokeSession, revokeOtherSessions } from "./endpoints/sessions";
+import { validateRefreshToken } from "./jwt";
+import { authenticateAccessToken } from "./services/token-service";
+import { db } from "./db";
+
+const newUser = async () => {
+  const email = `sessions-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+  const first = await signup({ email, password: "password123" });
+  const second = await signin({ email, password: "password123" });
+  return {
+    first: { authorization: `Bearer ${first.access_token}`, refreshToken: first.refreshToken.value },
+    second: { authorization: `Bearer ${second.access_token!}`, refreshToken: second.refreshToken!.value },
+  };
+};
+
+const refreshCookie = (value: string) => ({ value, httpOnly: true, secure: false, sameSite: "Lax" as const, path: "/" });
+
+// Pretend the token was rotated long enough ago that a second use can't be a concurrent refresh
+const ageRotation = (refreshToken: string) => db.exec`
+  UPDATE refresh_tokens SET revoked_at = NOW() - INTERVAL '1 minute' WHERE jti = ${validateRefreshToken(refreshToken).jti}
+`;
+
+describe("Sessions", () => {
+  test("should list active sessions and mark the current one", async () => {
+    const { first, second } = await newUser();
+
+    const { sessions } = await listSessions({ authorization: second.authorization });
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions.filter(s => s.current)).toHaveLength(1);
+    expect((await listSessions({ authorization: first.authorization })).sessions.find(s => s.current)?.id)
+      .not.toBe(sessions.find(s => s.current)?.id);
+  });
+
+  test("should keep the session's sign-in time across refreshes", async () => {
+    const { second } = await newUser();
+    const before = (await listSessions({ authorization: second.authorization })).sessions.find(s => s.current)!;
+
+    await refresh({ refreshToken: refreshCookie(second.refreshToken) });
+    const after = (await listSessions({ authorization: second.authorization })).sessions;
+
+    expect(after).toHaveLength(2);
+    expect(after.map(s => s.signed_in_at.getTime())).toContain(before.signed_in_at.getTime());
+  });
+
+  test("should record when a session was last used", async () => {
+    const { second } = await newUser();
+    await db.exec`
+      UPDATE refresh_tokens SET last_used_at = NOW() - INTERVAL '1 day'
+      WHERE jti = ${validateRefreshToken(second.refreshToken).jti}
+    `;
+
+    const { sessions } = await listSessions({ authorization: second.authorization });
+
+    const current = sessions.find(s => s.current)!;
+    expect(Date.now() - current.last_used_at.getTime()).toBeLessThan(60 * 1000);
+  });
+
+  test("should sign out a single session", async () => {
+    const { first, second } = await newUser();
+    const other = (await listSessions({ authorization: second.authorization })).sessions.find(s => !s.current)!;
+
+    await revokeSession({ id: other.id, authorization: second.authorization });
+
+    expect((await listSessions({ authorization: second.authorization })).sessions).toHaveLength(1);
+    await expect(refresh({ refreshToken: refreshCookie(first.refreshToken) })).rejects.toThrow("Refresh token revoked or expired");
+    await expect(revokeSession({ id: other.id, authorization: second.authorization })).rejects.toThrow("Session not found");
+  });
+
+  test("should reject the access token of a signed-out session", async () => {
+    const { first, second } = await newUser();
+    const other = (await listSessions({ authorization: second.authorization })).sessions.find(s => !s.current)!;
+
+    await revokeSession({ id: other.id, authorization: second.authorization });
+
+    await expect(authenticateAccessToken(first.authorization.slice("Bearer ".length)))
+      .rejects.toThrow("Session has been signed out, please sign in again");
+    await expect(listSessions({ authorization: first.authorization })).rejects.toThrow("Session has been signed out");
+  });
+
+  test("should not sign out other users' sessions", async () => {
+    const alice = await newUser();
+    const bob = await newUser();
+    const [bobSession] = (await listSessions({ authorization: bob.first.authorization })).sessions;
+
+    await expect(revokeSession({ id: bobSession.id, authorization: alice.first.authorization })).rejects.toThrow("Session not found");
+  });
+
+  test("should sign out everywhere else", async () => {
+    const { first, second } = await newUser();
+
+    const result = await revokeOtherSessions({ authorization: second.authorization });
+
+    expect(result).toEqual({ success: true, revoked: 1 });
+    const { sessions } = await listSessions({ authorization: second.authorization });
+    expect(sessions.map(s => s.current)).toEqual([true]);
+    await expect(refresh({ refreshToken: refreshCookie(first.refreshToken) })).rejects.toThrow("Refresh token revoked or expired");
+  });
+
+  test("should keep the session id across refreshes", async () => {
+    const { second } = await newUser();
+    const before = (await listSessions({ authorization: second.authorization })).sessions.find(s => s.current)!;
+
+    const refreshed = await refresh({ refreshToken: refreshCookie(second.refreshToken) });
+    const after = await listSessions({ authorization: `Bearer ${refreshed.accessToken.value}` });
+
+    expect(after.sessions.find(s => s.current)?.id).toBe(before.id);
+  });
+
+  test("should sign out the whole family when a rotated refresh token is replayed", async () => {
+    const { first, second } = await newUser();
+    const refreshed = await refresh({ refreshToken: refreshCookie(second.refreshToken) });
+    await ageRotation(second.refreshToken);
+
+    await expect(refresh({ refreshToken: refreshCookie(second.refreshToken) }))
+      .rejects.toThrow("Refresh token was already used; please sign in again");
+
+    await expect(refresh({ refreshToken: refreshCookie(refreshed.refreshToken.value) })).rejects.toThrow();
+    await expect(listSessions({ authorization: `Bearer ${refreshed.accessToken.value}` })).rejects.toThrow("Session has been signed out");
+    const { sessions } = await listSessions({ authorization: first.authorization });
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].current).toBe(true);
+  });
+
+  test("should not treat a concurrent refresh as reuse", async () => {
+    const { second } = await newUser();
+    const refreshed = await refresh({ refreshToken: refreshCookie(second.refreshToken) });
+
+    await expect(refresh({ refreshToken: refreshCookie(second.refreshToken) })).rejects.toThrow("Refresh token revoked or expired");
+    await expect(refresh({ refreshToken: refreshCookie(refreshed.refreshToken.value) })).resolves.toMatchObject({ success: true });
+  });
+
+  test("should not treat a signed-out token as reuse", async () => {
+    const { second } = await newUser();
+    const current = (await listSessions({ authorization: second.authorization })).sessions.find(s => s.current)!;
+    await revokeSession({ id: current.id, authorization: second.authorization });
+    await ageRotation(second.refreshToken);
+
+    await expect(refresh({ refreshToken: refreshCookie(second.refreshToken) })).rejects.toThrow("Refresh token revoked or expired");
+  });
+});
@@ -4,8 +4,13 @@ export interface User {
     password_hash: string;
     is_verified: boolean;
     verification_token?: string;
+    verification_token_expires?: Date;
+    verification_sent_at?: Date;
     reset_token?: string;
     reset_token_expires?: Date;
+    totp_secret?: string;
+    totp_enabled?: boolean;
+    totp_last_counter?: number;
     created_at: Date;
     updated_at: Date;
 }
@@ -27,4 +32,13 @@ export interface LoginResponse {
         is_verified: boolean;
     };
     token: string;
-} 
\ No newline at end of file
+}
+
+export interface UserEmail {
+    id: string;
+    email: string;
+}
+
+export interface GetUserEmailsResponse {
+    users: UserEmail[];
+}
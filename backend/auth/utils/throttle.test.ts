@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  THROTTLE_POLICIES,
+  ThrottlePolicy,
+  blockSeconds,
+  isLockedOut,
+  accountKey,
+  ipKey,
+  clientIp,
+  formatWait
+} from './throttle';
+
+const policy: ThrottlePolicy = {
+  freeAttempts: 3,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 60,
+  windowSeconds: 3600,
+  lockoutAfter: 10,
+  lockoutSeconds: 900,
+};
+
+describe('Throttle Utilities', () => {
+  describe('blockSeconds', () => {
+    it('should not delay the free attempts', () => {
+      expect([1, 2].map(attempts => blockSeconds(attempts, policy))).toEqual([0, 0]);
+    });
+
+    it('should double the delay after each further attempt up to the maximum', () => {
+      expect([3, 4, 5, 6, 7, 8, 9].map(attempts => blockSeconds(attempts, policy))).toEqual([2, 4, 8, 16, 32, 60, 60]);
+    });
+
+    it('should lock out once the threshold is reached', () => {
+      expect(isLockedOut(9, policy)).toBe(false);
+      expect(isLockedOut(10, policy)).toBe(true);
+      expect(blockSeconds(10, policy)).toBe(900);
+      expect(blockSeconds(11, policy)).toBe(900);
+    });
+
+    it('should never lock out without a threshold', () => {
+      const { lockoutAfter: _lockoutAfter, ...withoutLockout } = policy;
+
+      expect(isLockedOut(1000, withoutLockout)).toBe(false);
+      expect(blockSeconds(1000, withoutLockout)).toBe(60);
+    });
+
+    it('should only lock accounts out of sign-in', () => {
+      expect(THROTTLE_POLICIES.signin.account.lockoutAfter).toBeDefined();
+      expect(THROTTLE_POLICIES.signin.ip.lockoutAfter).toBeUndefined();
+      expect(THROTTLE_POLICIES.forgot_password.account.lockoutAfter).toBeUndefined();
+    });
+  });
+
+  describe('Keys', () => {
+    it('should normalize emails so case and spacing share a counter', () => {
+      expect(accountKey(' User@Example.com ')).toBe(accountKey('user@example.com'));
+      expect(accountKey('user@example.com')).not.toBe(ipKey('user@example.com'));
+    });
+
+    it('should take the address added by the trusted proxy', () => {
+      // The client made up the first hop; the proxy appended the last one
+      expect(clientIp({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' })).toBe('203.0.113.7');
+      expect(clientIp({ 'x-forwarded-for': ['1.2.3.4', '198.51.100.2'] })).toBe('198.51.100.2');
+      expect(clientIp({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.1' }, 2)).toBe('203.0.113.7');
+      expect(clientIp({ 'x-forwarded-for': '203.0.113.7' }, 2)).toBe('203.0.113.7');
+      expect(clientIp({ 'x-real-ip': '192.0.2.4' })).toBe('192.0.2.4');
+      expect(clientIp({})).toBeUndefined();
+      expect(clientIp(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('formatWait', () => {
+    it('should use seconds for short waits and minutes for long ones', () => {
+      expect(formatWait(1)).toBe('1 second');
+      expect(formatWait(42.2)).toBe('43 seconds');
+      expect(formatWait(900)).toBe('15 minutes');
+    });
+  });
+});
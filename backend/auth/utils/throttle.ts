@@ -0,0 +1,95 @@
+/**
+ * Limits on abusable auth endpoints. Each scope is counted twice: once per
+ * account (keyed by email, whether or not the account exists) and once per
+ * client IP. Once the free attempts are used up, every further attempt
+ * doubles the wait before the next one is accepted.
+ */
+
+export type ThrottleScope = 'signin' | 'forgot_password' | 'resend_verification';
+
+export interface ThrottlePolicy {
+  // Attempts allowed before any delay kicks in
+  freeAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  // A quiet period this long starts the count over
+  windowSeconds: number;
+  // Reaching this many attempts locks the key for lockoutSeconds instead of the usual delay
+  lockoutAfter?: number;
+  lockoutSeconds?: number;
+}
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+
+export const THROTTLE_POLICIES: Record<ThrottleScope, { account: ThrottlePolicy; ip: ThrottlePolicy }> = {
+  // Only failed sign-ins count; a successful one clears the account counter
+  signin: {
+    account: { freeAttempts: 3, baseDelaySeconds: 2, maxDelaySeconds: 5 * MINUTE, windowSeconds: HOUR, lockoutAfter: 10, lockoutSeconds: 15 * MINUTE },
+    ip: { freeAttempts: 20, baseDelaySeconds: 2, maxDelaySeconds: 15 * MINUTE, windowSeconds: HOUR },
+  },
+  // Every request counts
+  forgot_password: {
+    account: { freeAttempts: 3, baseDelaySeconds: MINUTE, maxDelaySeconds: HOUR, windowSeconds: HOUR },
+    ip: { freeAttempts: 10, baseDelaySeconds: 30, maxDelaySeconds: HOUR, windowSeconds: HOUR },
+  },
+  resend_verification: {
+    account: { freeAttempts: 3, baseDelaySeconds: 5 * MINUTE, maxDelaySeconds: 6 * HOUR, windowSeconds: 6 * HOUR },
+    ip: { freeAttempts: 10, baseDelaySeconds: MINUTE, maxDelaySeconds: HOUR, windowSeconds: HOUR },
+  },
+};
+
+/**
+ * True once the attempt count has reached the policy's lockout threshold
+ */
+export const isLockedOut = (attempts: number, policy: ThrottlePolicy): boolean => {
+  return policy.lockoutAfter !== undefined && attempts >= policy.lockoutAfter;
+};
+
+/**
+ * How long to refuse further attempts after the given number of attempts
+ */
+export const blockSeconds = (attempts: number, policy: ThrottlePolicy): number => {
+  if (isLockedOut(attempts, policy)) {
+    return policy.lockoutSeconds ?? policy.maxDelaySeconds;
+  }
+  if (attempts < policy.freeAttempts) {
+    return 0;
+  }
+  return Math.min(policy.baseDelaySeconds * 2 ** (attempts - policy.freeAttempts), policy.maxDelaySeconds);
+};
+
+export const accountKey = (email: string): string => `account:${email.trim().toLowerCase()}`;
+
+export const ipKey = (ip: string): string => `ip:${ip}`;
+
+// Proxies in front of the API that append to X-Forwarded-For; hops before theirs come from the client
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+
+/**
+ * Client address from the request headers: the X-Forwarded-For hop added by
+ * the outermost trusted proxy, then X-Real-IP. Earlier hops are whatever the
+ * client sent and are ignored. Without either header, only the account is counted.
+ */
+export const clientIp = (
+  headers: Record<string, string | string[]> | undefined,
+  trustedHops = TRUSTED_PROXY_HOPS
+): string | undefined => {
+  const joined = (value: string | string[] | undefined) => (Array.isArray(value) ? value.join(',') : value);
+
+  const hops = (joined(headers?.['x-forwarded-for']) ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  const forwarded = hops[Math.max(0, hops.length - trustedHops)];
+  return forwarded || joined(headers?.['x-real-ip'])?.split(',')[0]?.trim() || undefined;
+};
+
+/**
+ * "42 seconds", "3 minutes" - for telling users how long to wait
+ */
+export const formatWait = (seconds: number): string => {
+  if (seconds < 90) {
+    const rounded = Math.max(1, Math.ceil(seconds));
+    return `${rounded} second${rounded === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minutes`;
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  totpCode,
+  totpCounter,
+  verifyTotp,
+  otpauthUrl,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTotpCode
+} from './totp';
+
+// The SHA-1 test secret from RFC 6238, appendix B
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP Utilities', () => {
+  describe('Base32', () => {
+    it('should round-trip bytes', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(base32Decode(RFC_SECRET)).toEqual(bytes);
+      expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq====')).toEqual(bytes);
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character: 1');
+    });
+
+    it('should generate 160-bit secrets', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(secret).not.toBe(generateTotpSecret());
+    });
+  });
+
+  describe('Codes', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      const at = (seconds: number) => totpCounter(new Date(seconds * 1000));
+
+      expect(totpCode(RFC_SECRET, at(59), 8)).toBe('94287082');
+      expect(totpCode(RFC_SECRET, at(1111111109), 8)).toBe('07081804');
+      expect(totpCode(RFC_SECRET, at(1234567890), 8)).toBe('89005924');
+      expect(totpCode(RFC_SECRET, at(1234567890))).toBe('005924');
+    });
+
+    it('should accept codes from the neighbouring steps only', () => {
+      const now = new Date(1234567890 * 1000);
+      const counter = totpCounter(now);
+
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, counter), now)).toBe(counter);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, counter - 1), now)).toBe(counter - 1);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, counter + 1), now)).toBe(counter + 1);
+      expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, counter - 2), now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+      expect(isTotpCode('123 456')).toBe(true);
+      expect(isTotpCode('a1b2c-3d4e5')).toBe(false);
+    });
+  });
+
+  describe('otpauthUrl', () => {
+    it('should describe the account for authenticator apps', () => {
+      const url = new URL(otpauthUrl('JBSWY3DPEHPK3PXP', 'user@example.com', 'CMS'));
+
+      expect(url.protocol).toBe('otpauth:');
+      expect(url.host).toBe('totp');
+      expect(decodeURIComponent(url.pathname)).toBe('/CMS:user@example.com');
+      expect(url.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+      expect(url.searchParams.get('issuer')).toBe('CMS');
+      expect(url.searchParams.get('digits')).toBe('6');
+    });
+  });
+
+  describe('Recovery Codes', () => {
+    it('should generate distinct codes', () => {
+      const codes = generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+    });
+
+    it('should hash codes regardless of case and formatting', () => {
+      expect(hashRecoveryCode('A1B2C-3D4E5')).toBe(hashRecoveryCode('a1b2c3d4e5'));
+      expect(hashRecoveryCode('a1b2c-3d4e5')).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashRecoveryCode('a1b2c-3d4e5')).not.toBe(hashRecoveryCode('a1b2c-3d4e6'));
+    });
+  });
+});
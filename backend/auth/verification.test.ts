@@ -0,0 +1,71 @@
+import { describe, expect, test } from "vitest";
+import { signup } from "./endpoints/auth";
+import { verifyEmail, resendVerification } from "./endpoints/verification";
+import { extractUserFromToken } from "./jwt";
+import { db } from "./db";
+
+const newUser = async () => {
+  const email = `verify-${Date.now()}-${Math.random().toString(36).slice(2)}@example.com`;
+  const response = await signup({ email, password: "password123" });
+  return { email, accessToken: response.access_token, userId: response.user.id };
+};
+
+const tokenFor = async (userId: string) => {
+  const row = await db.queryRow<{ verification_token: string | null }>`
+    SELECT verification_token FROM users WHERE id = ${userId}
+  `;
+  return row?.verification_token ?? null;
+};
+
+describe("Email Verification", () => {
+  test("should verify once with the emailed token", async () => {
+    const { userId } = await newUser();
+    const token = (await tokenFor(userId))!;
+
+    const response = await verifyEmail({ token });
+
+    expect(response.user.is_verified).toBe(true);
+    expect(response.access_token).toBeUndefined();
+    expect(await tokenFor(userId)).toBeNull();
+    await expect(verifyEmail({ token })).rejects.toThrow("Invalid or expired verification token");
+  });
+
+  test("should hand the signed-in session a token with the updated claim", async () => {
+    const { userId, accessToken } = await newUser();
+    expect(extractUserFromToken(accessToken).is_verified).toBe(false);
+
+    const response = await verifyEmail({ token: (await tokenFor(userId))!, authorization: `Bearer ${accessToken}` });
+
+    expect(extractUserFromToken(response.access_token!).is_verified).toBe(true);
+  });
+
+  test("should reject expired tokens", async () => {
+    const { userId } = await newUser();
+    const token = (await tokenFor(userId))!;
+    await db.exec`UPDATE users SET verification_token_expires = NOW() - INTERVAL '1 minute' WHERE id = ${userId}`;
+
+    await expect(verifyEmail({ token })).rejects.toThrow("Invalid or expired verification token");
+  });
+
+  test("should throttle resends and replace the previous token", async () => {
+    const { userId, accessToken } = await newUser();
+    const first = await tokenFor(userId);
+
+    await expect(resendVerification({ authorization: `Bearer ${accessToken}` }))
+      .rejects.toThrow(/Please wait \d+ seconds/);
+
+    await db.exec`UPDATE users SET verification_sent_at = NOW() - INTERVAL '1 hour' WHERE id = ${userId}`;
+    const response = await resendVerification({ authorization: `Bearer ${accessToken}` });
+
+    expect(response.success).toBe(true);
+    expect(await tokenFor(userId)).not.toBe(first);
+  });
+
+  test("should not resend once verified", async () => {
+    const { userId, accessToken } = await newUser();
+    await verifyEmail({ token: (await tokenFor(userId))! });
+
+    await expect(resendVerification({ authorization: `Bearer ${accessToken}` }))
+      .rejects.toThrow("Email address is already verified");
+  });
+});
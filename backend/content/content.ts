@@ -1,56 +1,167 @@
-import { SQLDatabase } from "encore.dev/storage/sqldb";
-import { api } from "encore.dev/api";
-import { CreateContentRequest, ContentItem, ContentWithDetails, Category, Tag } from "./types";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { api, APIError } from "encore.dev/api";
+import { hasPermission, requirePermission } from "../auth/permissions";
+import { AuthData } from "../auth/gateway";
+import {
+    CreateContentRequest,
+    UpdateContentRequest,
+    ContentItem,
+    ContentWithDetails,
+    ContentRevision,
+    ListRevisionsResponse,
+    RevisionDiffResponse,
+    FieldDiff,
+    ContentStatus,
+    ContentType,
+    ContentSortKey,
+    ContentBySlugResponse,
+    Category,
+    Tag
+} from "./types";
+import { canTransition, requiresPublishPermission } from "./workflow";
+import { diffLines, hasChanges } from "./diff";
+import { announceStatusChange } from "./events";
+import { slugify, nextAvailableSlug } from "./slug";
+import { extractMediaIds } from "./media-refs";
+import { QueryBuilder, SortKey, SortOrder, Page, paginate } from "../shared/query";
 
 interface GetContentResponse {
     content: ContentWithDetails | null;
 }
 
+interface DeleteContentResponse {
+    success: boolean;
+}
+
 const db = new SQLDatabase("content", {
     migrations: "./migrations",
 });
 
 export { db };
 
-function generateSlug(title: string): string {
-    return title
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/^-+|-+$/g, '');
+// Snapshot the item's current state as its next revision
+export async function recordRevision(conn: SQLDatabase | Transaction, contentId: string, authorId: string): Promise<void> {
+    await conn.exec`
+        INSERT INTO content_revisions (content_id, revision_number, title, content, excerpt, status, author_id)
+        SELECT id,
+               COALESCE((SELECT MAX(revision_number) FROM content_revisions WHERE content_id = ${contentId}), 0) + 1,
+               title, content, excerpt, status, ${authorId}
+        FROM content_items
+        WHERE id = ${contentId}
+    `;
 }
 
-export const createContent = api(
-    { method: "POST", path: "/content", auth: true },
-    async (req: CreateContentRequest & { author_id: string }): Promise<ContentItem> => {
-        const slug = generateSlug(req.title);
-        
-        // Insert content item
-        await db.exec`
-            INSERT INTO content_items (title, slug, content, excerpt, type, author_id, category_id)
-            VALUES (${req.title}, ${slug}, ${req.content || ''}, ${req.excerpt || ''}, ${req.type}, ${req.author_id}, ${req.category_id || null})
+// Rebuild the item's media usage index from its current body and featured image
+export async function indexMediaUsage(conn: SQLDatabase | Transaction, contentId: string): Promise<void> {
+    const item = await conn.queryRow<{ content: string | null; featured_media_id: string | null }>`
+        SELECT content, featured_media_id FROM content_items WHERE id = ${contentId}
+    `;
+
+    await conn.exec`DELETE FROM content_media_usage WHERE content_id = ${contentId}`;
+    if (!item) {
+        return;
+    }
+
+    const bodyIds = extractMediaIds(item.content);
+    if (bodyIds.length > 0) {
+        await conn.exec`
+            INSERT INTO content_media_usage (content_id, media_id, usage)
+            SELECT ${contentId}, unnest(${bodyIds}::uuid[]), 'body'
         `;
-        
-        // Get created content
-        const content = await db.queryRow<ContentItem>`
-            SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, published_at, created_at, updated_at
-            FROM content_items 
-            WHERE slug = ${slug}
+    }
+    if (item.featured_media_id) {
+        await conn.exec`
+            INSERT INTO content_media_usage (content_id, media_id, usage)
+            VALUES (${contentId}, ${item.featured_media_id}, 'featured')
         `;
-        
-        if (!content) {
-            throw new Error("Failed to create content");
+    }
+}
+
+// Contributors may only edit their own items; editors can edit anything
+function assertCanEdit(auth: AuthData, item: ContentItem): void {
+    if (item.author_id !== auth.userID && !hasPermission(auth.roles, "content.publish")) {
+        throw APIError.permissionDenied("You can only edit your own content");
+    }
+}
+
+// Slugs equal to base or base-N that are live or kept for redirects
+async function takenSlugs(conn: SQLDatabase | Transaction, base: string): Promise<string[]> {
+    const pattern = `${base}-%`;
+    const rows = conn.query<{ slug: string }>`
+        SELECT slug FROM content_items WHERE slug = ${base} OR slug LIKE ${pattern}
+        UNION
+        SELECT slug FROM content_slug_history WHERE slug = ${base} OR slug LIKE ${pattern}
+    `;
+
+    const slugs: string[] = [];
+    for await (const row of rows) {
+        slugs.push(row.slug);
+    }
+    return slugs;
+}
+
+// A custom slug must not be live on, or redirect to, another item
+async function assertSlugAvailable(conn: SQLDatabase | Transaction, slug: string, contentId?: string): Promise<void> {
+    const owner = await conn.queryRow<{ content_id: string }>`
+        SELECT id AS content_id FROM content_items WHERE slug = ${slug}
+        UNION
+        SELECT content_id FROM content_slug_history WHERE slug = ${slug}
+    `;
+
+    if (owner && owner.content_id !== contentId) {
+        throw APIError.alreadyExists(`Slug "${slug}" is already in use`);
+    }
+}
+
+// Attempts at claiming a generated slug before giving up under heavy contention
+const SLUG_ATTEMPTS = 5;
+
+export const createContent = api(
+    { method: "POST", path: "/content", auth: true, expose: true },
+    async (req: CreateContentRequest): Promise<ContentItem> => {
+        // Contributors and up may create drafts; new items always start as draft
+        const authorId = requirePermission("content.create").userID;
+        const base = slugify(req.slug ?? req.title);
+
+        if (req.slug) {
+            await assertSlugAvailable(db, base);
         }
-        
-        return content;
+
+        for (let attempt = 0; attempt < SLUG_ATTEMPTS; attempt++) {
+            const slug = req.slug ? base : nextAvailableSlug(base, await takenSlugs(db, base));
+
+            // ON CONFLICT turns a concurrent claim of the same slug into a retry instead of a raw DB error
+            const content = await db.queryRow<ContentItem>`
+                INSERT INTO content_items (title, slug, content, excerpt, type, author_id, category_id, featured_media_id)
+                VALUES (${req.title}, ${slug}, ${req.content || ''}, ${req.excerpt || ''}, ${req.type}, ${authorId}, ${req.category_id || null}, ${req.featured_media_id || null})
+                ON CONFLICT (slug) DO NOTHING
+                RETURNING id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+            `;
+
+            if (content) {
+                await recordRevision(db, content.id, authorId);
+                await indexMediaUsage(db, content.id);
+                return content;
+            }
+
+            if (req.slug) {
+                throw APIError.alreadyExists(`Slug "${slug}" is already in use`);
+            }
+        }
+
+        throw APIError.aborted("Could not allocate a unique slug, please retry");
     }
 );
 
 export const getContent = api(
-    { method: "GET", path: "/content/:id" },
+    { method: "GET", path: "/content/:id", auth: true, expose: true },
     async ({ id }: { id: string }): Promise<GetContentResponse> => {
+        // Drafts and archived items are only for signed-in readers; the public goes through getContentBySlug
+        requirePermission("content.read");
+
         // Get content item
         const content = await db.queryRow<ContentItem>`
-            SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, published_at, created_at, updated_at
+            SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
             FROM content_items 
             WHERE id = ${id}
         `;
@@ -58,131 +169,389 @@ export const getContent = api(
         if (!content) {
             return { content: null };
         }
-        
-        // Get category if exists
-        let category: Category | undefined = undefined;
-        if (content.category_id) {
-            const categoryResult = await db.queryRow<Category>`
-                SELECT id, name, slug, description, parent_id, created_at
-                FROM categories 
-                WHERE id = ${content.category_id}
+
+        return { content: await withDetails(content) };
+    }
+);
+
+// Serve public pages by slug; old slugs resolve to the current item with a redirect hint
+export const getContentBySlug = api(
+    { method: "GET", path: "/content/by-slug/:slug", expose: true },
+    async ({ slug }: { slug: string }): Promise<ContentBySlugResponse> => {
+        let content = await db.queryRow<ContentItem>`
+            SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+            FROM content_items
+            WHERE slug = ${slug}
+        `;
+
+        if (!content) {
+            content = await db.queryRow<ContentItem>`
+                SELECT c.id, c.title, c.slug, c.content, c.excerpt, c.status, c.type, c.author_id, c.category_id, c.featured_media_id, c.published_at, c.scheduled_for, c.unpublish_at, c.created_at, c.updated_at
+                FROM content_slug_history h
+                JOIN content_items c ON c.id = h.content_id
+                WHERE h.slug = ${slug}
             `;
-            category = categoryResult || undefined;
         }
-        
-        // Get tags
-        const tagQuery = await db.query<Tag>`
-            SELECT t.id, t.name, t.created_at
-            FROM tags t
-            JOIN content_tags ct ON t.id = ct.tag_id
-            WHERE ct.content_id = ${id}
-        `;
-        
-        const tags: Tag[] = [];
-        for await (const tag of tagQuery) {
-            tags.push(tag);
+
+        // Unpublished items don't exist as far as public pages are concerned
+        if (!content || content.status !== 'published') {
+            throw APIError.notFound("Content not found");
         }
-        
+
         return {
-            content: {
-                ...content,
-                category,
-                tags
-            }
+            content: await withDetails(content),
+            redirect_to: content.slug !== slug ? content.slug : undefined
         };
     }
 );
 
+async function withDetails(content: ContentItem): Promise<ContentWithDetails> {
+    // Get category if exists
+    let category: Category | undefined = undefined;
+    if (content.category_id) {
+        const categoryResult = await db.queryRow<Category>`
+            SELECT id, name, slug, description, parent_id, created_at
+            FROM categories 
+            WHERE id = ${content.category_id}
+        `;
+        category = categoryResult || undefined;
+    }
+    
+    // Get tags
+    const tagQuery = await db.query<Tag>`
+        SELECT t.id, t.name, t.created_at
+        FROM tags t
+        JOIN content_tags ct ON t.id = ct.tag_id
+        WHERE ct.content_id = ${content.id}
+    `;
+    
+    const tags: Tag[] = [];
+    for await (const tag of tagQuery) {
+        tags.push(tag);
+    }
+    
+    return {
+        ...content,
+        category,
+        tags
+    };
+}
+
 interface ListContentRequest {
     page?: number;
     limit?: number;
-    status?: string;
-    type?: string;
+    // Opaque token from a previous response's next_cursor; takes precedence over page
+    cursor?: string;
+    status?: ContentStatus;
+    type?: ContentType;
+    author_id?: string;
+    category_id?: string;
+    tag_id?: string;
+    // Date range, matched against published_at (created_at for unpublished items)
+    from?: Date;
+    to?: Date;
+    sort?: ContentSortKey;
+    order?: SortOrder;
 }
 
-interface ListContentResponse {
-    items: ContentItem[];
-    total: number;
-    page: number;
-    limit: number;
-}
+type ListContentResponse = Page<ContentItem>;
+
+const CONTENT_SORT_KEYS: Record<ContentSortKey, SortKey> = {
+    created_at: { expression: 'created_at', type: 'timestamp', defaultOrder: 'desc' },
+    updated_at: { expression: 'updated_at', type: 'timestamp', defaultOrder: 'desc' },
+    published_at: { expression: 'COALESCE(published_at, created_at)', type: 'timestamp', defaultOrder: 'desc' },
+    title: { expression: 'title', type: 'text', defaultOrder: 'asc' },
+};
 
 export const listContent = api(
     { method: "GET", path: "/content" },
     async (req: ListContentRequest): Promise<ListContentResponse> => {
         const page = req.page || 1;
         const limit = Math.min(req.limit || 10, 50); // Max 50 items per page
-        const offset = (page - 1) * limit;
-        
-        // Build base query conditions
-        let countQuery, itemsQuery;
-        
-        if (req.status && req.type) {
-            // Both filters
-            countQuery = db.queryRow<{ total: number }>`
-                SELECT COUNT(*) as total FROM content_items 
-                WHERE status = ${req.status} AND type = ${req.type}
-            `;
-            itemsQuery = db.query<ContentItem>`
-                SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, published_at, created_at, updated_at
-                FROM content_items 
-                WHERE status = ${req.status} AND type = ${req.type}
-                ORDER BY created_at DESC
-                LIMIT ${limit} OFFSET ${offset}
-            `;
-        } else if (req.status) {
-            // Status filter only
-            countQuery = db.queryRow<{ total: number }>`
-                SELECT COUNT(*) as total FROM content_items 
-                WHERE status = ${req.status}
-            `;
-            itemsQuery = db.query<ContentItem>`
-                SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, published_at, created_at, updated_at
-                FROM content_items 
-                WHERE status = ${req.status}
-                ORDER BY created_at DESC
-                LIMIT ${limit} OFFSET ${offset}
+
+        const sort = req.sort ?? 'created_at';
+        if (!CONTENT_SORT_KEYS[sort]) {
+            throw APIError.invalidArgument(`Cannot sort content by "${sort}"`);
+        }
+
+        const query = new QueryBuilder(
+            'id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at',
+            'content_items'
+        )
+            .filter('status = ?', req.status)
+            .filter('type = ?', req.type)
+            .filter('author_id = ?', req.author_id)
+            .filter('category_id = ?', req.category_id)
+            .filter('EXISTS (SELECT 1 FROM content_tags ct WHERE ct.content_id = content_items.id AND ct.tag_id = ?)', req.tag_id)
+            .filter('COALESCE(published_at, created_at) >= ?', req.from)
+            .filter('COALESCE(published_at, created_at) <= ?', req.to)
+            .orderBy(sort, CONTENT_SORT_KEYS[sort], req.order);
+
+        return await paginate<ContentItem>(db, query, { page, limit, cursor: req.cursor });
+    }
+);
+
+export const updateContent = api(
+    { method: "PUT", path: "/content/:id", auth: true, expose: true },
+    async ({ id, ...updates }: { id: string } & UpdateContentRequest): Promise<ContentItem> => {
+        const auth = requirePermission("content.update");
+
+        let previousStatus: ContentStatus;
+        const tx = await db.begin();
+        try {
+            // Lock the row so concurrent edits can't race past the status check
+            const current = await tx.queryRow<ContentItem>`
+                SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+                FROM content_items
+                WHERE id = ${id}
+                FOR UPDATE
             `;
-        } else if (req.type) {
-            // Type filter only
-            countQuery = db.queryRow<{ total: number }>`
-                SELECT COUNT(*) as total FROM content_items 
-                WHERE type = ${req.type}
+
+            if (!current) {
+                throw APIError.notFound("Content not found");
+            }
+
+            assertCanEdit(auth, current);
+            previousStatus = current.status;
+
+            const status = updates.status ?? current.status;
+            if (!canTransition(current.status, status)) {
+                throw APIError.failedPrecondition(`Cannot move content from ${current.status} to ${status}`);
+            }
+            if (requiresPublishPermission(current.status, status)) {
+                requirePermission("content.publish");
+            }
+
+            // Publishing stamps the time the item went live
+            const publishedAt = status === 'published' && current.status !== 'published'
+                ? new Date()
+                : current.published_at ?? null;
+
+            const slug = updates.slug !== undefined ? slugify(updates.slug) : current.slug;
+            if (slug !== current.slug) {
+                await assertSlugAvailable(tx, slug, id);
+
+                // Keep the old slug resolving; reclaiming one of our own old slugs drops its redirect
+                await tx.exec`DELETE FROM content_slug_history WHERE slug = ${slug}`;
+                await tx.exec`
+                    INSERT INTO content_slug_history (slug, content_id)
+                    VALUES (${current.slug}, ${id})
+                `;
+            }
+
+            // A pending publish only applies while in review, an embargo end only while live or about to be
+            const scheduledFor = status === 'review' ? current.scheduled_for ?? null : null;
+            const unpublishAt = status === 'review' || status === 'published' ? current.unpublish_at ?? null : null;
+
+            await tx.exec`
+                UPDATE content_items
+                SET title = ${updates.title ?? current.title},
+                    slug = ${slug},
+                    content = ${updates.content ?? current.content ?? ''},
+                    excerpt = ${updates.excerpt ?? current.excerpt ?? ''},
+                    status = ${status},
+                    category_id = ${updates.category_id === undefined ? current.category_id ?? null : updates.category_id},
+                    featured_media_id = ${updates.featured_media_id === undefined ? current.featured_media_id ?? null : updates.featured_media_id},
+                    published_at = ${publishedAt},
+                    scheduled_for = ${scheduledFor},
+                    unpublish_at = ${unpublishAt},
+                    updated_at = NOW()
+                WHERE id = ${id}
             `;
-            itemsQuery = db.query<ContentItem>`
-                SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, published_at, created_at, updated_at
-                FROM content_items 
-                WHERE type = ${req.type}
-                ORDER BY created_at DESC
-                LIMIT ${limit} OFFSET ${offset}
+
+            // tag_ids replaces the full tag set when provided
+            if (updates.tag_ids) {
+                await tx.exec`DELETE FROM content_tags WHERE content_id = ${id}`;
+
+                for (const tagId of new Set(updates.tag_ids)) {
+                    const tag = await tx.queryRow`SELECT id FROM tags WHERE id = ${tagId}`;
+                    if (!tag) {
+                        throw APIError.invalidArgument(`Tag ${tagId} does not exist`);
+                    }
+
+                    await tx.exec`
+                        INSERT INTO content_tags (content_id, tag_id)
+                        VALUES (${id}, ${tagId})
+                    `;
+                }
+            }
+
+            await recordRevision(tx, id, auth.userID);
+            await indexMediaUsage(tx, id);
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        const updated = await db.queryRow<ContentItem>`
+            SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+            FROM content_items
+            WHERE id = ${id}
+        `;
+
+        if (!updated) {
+            throw APIError.notFound("Content not found");
+        }
+
+        await announceStatusChange(updated, previousStatus, auth.userID, 'manual');
+
+        return updated;
+    }
+);
+
+export const deleteContent = api(
+    { method: "DELETE", path: "/content/:id", auth: true, expose: true },
+    async ({ id }: { id: string }): Promise<DeleteContentResponse> => {
+        requirePermission("content.delete");
+
+        // content_tags and content_media_usage rows are removed by ON DELETE CASCADE
+        const deleted = await db.queryRow`
+            DELETE FROM content_items WHERE id = ${id} RETURNING id
+        `;
+
+        if (!deleted) {
+            throw APIError.notFound("Content not found");
+        }
+
+        return { success: true };
+    }
+);
+
+export const listRevisions = api(
+    { method: "GET", path: "/content/:id/revisions", auth: true, expose: true },
+    async ({ id }: { id: string }): Promise<ListRevisionsResponse> => {
+        requirePermission("content.read");
+
+        const rows = await db.query<ContentRevision>`
+            SELECT id, content_id, revision_number, title, content, excerpt, status, author_id, created_at
+            FROM content_revisions
+            WHERE content_id = ${id}
+            ORDER BY revision_number DESC
+        `;
+
+        const revisions: ContentRevision[] = [];
+        for await (const row of rows) {
+            revisions.push(row);
+        }
+
+        return { revisions };
+    }
+);
+
+interface DiffRevisionsRequest {
+    id: string;
+    from: number;
+    to: number;
+}
+
+export const diffRevisions = api(
+    { method: "GET", path: "/content/:id/diff", auth: true, expose: true },
+    async ({ id, from, to }: DiffRevisionsRequest): Promise<RevisionDiffResponse> => {
+        requirePermission("content.read");
+
+        const before = await findRevision(id, from);
+        const after = await findRevision(id, to);
+
+        // Only fields that actually differ are returned
+        const changes: FieldDiff[] = [];
+        const fields: FieldDiff['field'][] = ['title', 'excerpt', 'content', 'status'];
+        for (const field of fields) {
+            const lines = diffLines(before[field] ?? '', after[field] ?? '');
+            if (hasChanges(lines)) {
+                changes.push({ field, lines });
+            }
+        }
+
+        return { from, to, changes };
+    }
+);
+
+export const restoreRevision = api(
+    { method: "POST", path: "/content/:id/revisions/:revision/restore", auth: true, expose: true },
+    async ({ id, revision }: { id: string; revision: number }): Promise<ContentItem> => {
+        const auth = requirePermission("content.update");
+
+        let previousStatus: ContentStatus;
+        const tx = await db.begin();
+        try {
+            const current = await tx.queryRow<ContentItem>`
+                SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+                FROM content_items
+                WHERE id = ${id}
+                FOR UPDATE
             `;
-        } else {
-            // No filters
-            countQuery = db.queryRow<{ total: number }>`
-                SELECT COUNT(*) as total FROM content_items
+
+            if (!current) {
+                throw APIError.notFound("Content not found");
+            }
+
+            assertCanEdit(auth, current);
+            previousStatus = current.status;
+
+            const snapshot = await tx.queryRow<ContentRevision>`
+                SELECT id, content_id, revision_number, title, content, excerpt, status, author_id, created_at
+                FROM content_revisions
+                WHERE content_id = ${id} AND revision_number = ${revision}
             `;
-            itemsQuery = db.query<ContentItem>`
-                SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, published_at, created_at, updated_at
-                FROM content_items 
-                ORDER BY created_at DESC
-                LIMIT ${limit} OFFSET ${offset}
+
+            if (!snapshot) {
+                throw APIError.notFound(`Revision ${revision} not found`);
+            }
+
+            // A restore always lands as a draft, which takes a live item offline
+            if (requiresPublishPermission(current.status, 'draft')) {
+                requirePermission("content.publish");
+            }
+
+            await tx.exec`
+                UPDATE content_items
+                SET title = ${snapshot.title},
+                    content = ${snapshot.content ?? ''},
+                    excerpt = ${snapshot.excerpt ?? ''},
+                    status = 'draft',
+                    scheduled_for = NULL,
+                    unpublish_at = NULL,
+                    updated_at = NOW()
+                WHERE id = ${id}
             `;
+
+            await recordRevision(tx, id, auth.userID);
+            await indexMediaUsage(tx, id);
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
         }
-        
-        // Execute queries
-        const countResult = await countQuery;
-        const total = countResult?.total || 0;
-        
-        const items: ContentItem[] = [];
-        for await (const item of itemsQuery) {
-            items.push(item);
+
+        const restored = await db.queryRow<ContentItem>`
+            SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+            FROM content_items
+            WHERE id = ${id}
+        `;
+
+        if (!restored) {
+            throw APIError.notFound("Content not found");
         }
-        
-        return {
-            items,
-            total,
-            page,
-            limit
-        };
+
+        await announceStatusChange(restored, previousStatus, auth.userID, 'manual');
+
+        return restored;
+    }
+);
+
+async function findRevision(contentId: string, revision: number): Promise<ContentRevision> {
+    const row = await db.queryRow<ContentRevision>`
+        SELECT id, content_id, revision_number, title, content, excerpt, status, author_id, created_at
+        FROM content_revisions
+        WHERE content_id = ${contentId} AND revision_number = ${revision}
+    `;
+
+    if (!row) {
+        throw APIError.notFound(`Revision ${revision} not found`);
     }
-);
\ No newline at end of file
+
+    return row;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, hasChanges, MAX_LCS_CELLS } from "./diff";
+
+describe("diffLines", () => {
+    it("should mark identical text as unchanged", () => {
+        const lines = diffLines("one\ntwo", "one\ntwo");
+
+        expect(lines).toEqual([
+            { type: 'unchanged', text: 'one' },
+            { type: 'unchanged', text: 'two' }
+        ]);
+        expect(hasChanges(lines)).toBe(false);
+    });
+
+    it("should detect added and removed lines", () => {
+        const lines = diffLines("intro\nold line\noutro", "intro\nnew line\noutro\nfooter");
+
+        expect(lines).toEqual([
+            { type: 'unchanged', text: 'intro' },
+            { type: 'removed', text: 'old line' },
+            { type: 'added', text: 'new line' },
+            { type: 'unchanged', text: 'outro' },
+            { type: 'added', text: 'footer' }
+        ]);
+        expect(hasChanges(lines)).toBe(true);
+    });
+
+    it("should handle empty text on either side", () => {
+        expect(diffLines("", "a\nb")).toEqual([
+            { type: 'added', text: 'a' },
+            { type: 'added', text: 'b' }
+        ]);
+        expect(diffLines("a", "")).toEqual([{ type: 'removed', text: 'a' }]);
+        expect(diffLines("", "")).toEqual([]);
+    });
+
+    it("should treat CRLF and LF line endings the same", () => {
+        expect(hasChanges(diffLines("a\r\nb", "a\nb"))).toBe(false);
+    });
+
+    it("should fall back to a wholesale replacement for huge changed blocks", () => {
+        const size = Math.ceil(Math.sqrt(MAX_LCS_CELLS));
+        const before = Array.from({ length: size }, (_, i) => `old ${i}`);
+        const after = Array.from({ length: size }, (_, i) => `new ${i}`);
+
+        const lines = diffLines(["head", ...before, "tail"].join("\n"), ["head", ...after, "tail"].join("\n"));
+
+        expect(lines).toHaveLength(2 * size + 2);
+        expect(lines[0]).toEqual({ type: 'unchanged', text: 'head' });
+        expect(lines[1]).toEqual({ type: 'removed', text: 'old 0' });
+        expect(lines[size + 1]).toEqual({ type: 'added', text: 'new 0' });
+        expect(lines[2 * size + 1]).toEqual({ type: 'unchanged', text: 'tail' });
+    });
+});
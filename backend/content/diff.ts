@@ -0,0 +1,85 @@
+import { DiffLine } from "./types";
+
+// Largest LCS table diffLines will build (4 bytes a cell); a bigger changed
+// block is shown as removed and re-added in full instead
+export const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Line-level diff between two texts based on the longest common subsequence.
+ * Removed lines are listed before added lines at each point of change.
+ * Lines shared at the start and end are matched up front, so the table only
+ * covers the block in between.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = splitLines(before);
+    const b = splitLines(after);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const unchanged = (text: string): DiffLine => ({ type: 'unchanged', text });
+    return [
+        ...a.slice(0, prefix).map(unchanged),
+        ...diffBlock(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+        ...a.slice(a.length - suffix).map(unchanged),
+    ];
+}
+
+export function hasChanges(lines: DiffLine[]): boolean {
+    return lines.some(line => line.type !== 'unchanged');
+}
+
+function diffBlock(a: string[], b: string[]): DiffLine[] {
+    const lines: DiffLine[] = [];
+    const width = b.length + 1;
+
+    if ((a.length + 1) * width > MAX_LCS_CELLS) {
+        a.forEach(text => lines.push({ type: 'removed', text }));
+        b.forEach(text => lines.push({ type: 'added', text }));
+        return lines;
+    }
+
+    // lcs[i * width + j] = length of the LCS of a[i..] and b[j..]
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i * width + j] = a[i] === b[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'unchanged', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+            lines.push({ type: 'removed', text: a[i] });
+            i++;
+        } else {
+            lines.push({ type: 'added', text: b[j] });
+            j++;
+        }
+    }
+    while (i < a.length) {
+        lines.push({ type: 'removed', text: a[i++] });
+    }
+    while (j < b.length) {
+        lines.push({ type: 'added', text: b[j++] });
+    }
+
+    return lines;
+}
+
+function splitLines(text: string): string[] {
+    return text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n');
+}
@@ -0,0 +1,61 @@
+import { Topic } from "encore.dev/pubsub";
+import { ContentItem, ContentStatus } from "./types";
+
+export type ContentEventTrigger = 'manual' | 'schedule';
+
+export interface ContentStatusEvent {
+    content_id: string;
+    title: string;
+    slug: string;
+    author_id: string;
+    // Who made the change; for scheduled runs this is whoever set the schedule
+    actor_id: string;
+    trigger: ContentEventTrigger;
+    occurred_at: Date;
+}
+
+// Published whenever an item goes live
+export const contentPublished = new Topic<ContentStatusEvent>("content-published", {
+    deliveryGuarantee: "at-least-once",
+});
+
+// Published whenever a live item is taken down (archived or sent back to draft)
+export const contentUnpublished = new Topic<ContentStatusEvent>("content-unpublished", {
+    deliveryGuarantee: "at-least-once",
+});
+
+// Published when a draft is handed to editors for review
+export const contentSubmittedForReview = new Topic<ContentStatusEvent>("content-submitted-for-review", {
+    deliveryGuarantee: "at-least-once",
+});
+
+// Announce a committed status change; moves other than going live, going offline
+// or a draft entering review are ignored
+export async function announceStatusChange(
+    item: ContentItem,
+    previous: ContentStatus,
+    actorId: string,
+    trigger: ContentEventTrigger
+): Promise<void> {
+    if (item.status === previous) {
+        return;
+    }
+
+    const event: ContentStatusEvent = {
+        content_id: item.id,
+        title: item.title,
+        slug: item.slug,
+        author_id: item.author_id,
+        actor_id: actorId,
+        trigger,
+        occurred_at: new Date(),
+    };
+
+    if (item.status === 'published') {
+        await contentPublished.publish(event);
+    } else if (previous === 'published') {
+        await contentUnpublished.publish(event);
+    } else if (item.status === 'review' && previous === 'draft') {
+        await contentSubmittedForReview.publish(event);
+    }
+}
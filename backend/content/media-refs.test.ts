@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { extractMediaIds } from "./media-refs";
+
+const A = "0b7f3c1e-5d2a-4f8b-9c6d-1e2f3a4b5c6d";
+const B = "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d";
+
+describe("extractMediaIds", () => {
+    it("should find ids in API paths and storage keys", () => {
+        const body = [
+            `![Hero](https://cms.example.com/media/${A}/srcset)`,
+            `<img src="https://storage.example.com/media-files/renditions/${B}/medium.webp?X-Goog-Signature=abc">`,
+        ].join("\n");
+
+        expect(extractMediaIds(body)).toEqual([A, B]);
+    });
+
+    it("should match original keys and normalise case", () => {
+        expect(extractMediaIds(`download: originals/${A.toUpperCase()}_report.pdf`)).toEqual([A]);
+    });
+
+    it("should list each id once", () => {
+        expect(extractMediaIds(`/media/${A} and again /media/${A}/srcset`)).toEqual([A]);
+    });
+
+    it("should ignore bare ids and empty bodies", () => {
+        expect(extractMediaIds(`see ${A} or /content/${B}`)).toEqual([]);
+        expect(extractMediaIds("")).toEqual([]);
+        expect(extractMediaIds(undefined)).toEqual([]);
+    });
+});
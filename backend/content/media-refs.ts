@@ -0,0 +1,18 @@
+// Media shows up in bodies as API paths (/media/<id>/...) or storage keys
+// (originals/<id>_name, renditions/<id>/...), including inside signed URLs
+const MEDIA_REFERENCE = /(?:\/media\/|originals\/|renditions\/)([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/gi;
+
+/**
+ * Collect the ids of media referenced from a content body, in order of first appearance.
+ */
+export function extractMediaIds(body: string | null | undefined): string[] {
+    if (!body) {
+        return [];
+    }
+
+    const ids = new Set<string>();
+    for (const match of body.matchAll(MEDIA_REFERENCE)) {
+        ids.add(match[1].toLowerCase());
+    }
+    return [...ids];
+}
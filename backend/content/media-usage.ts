@@ -0,0 +1,24 @@
+import { api } from "encore.dev/api";
+import { db } from "./content";
+import { GetMediaUsageResponse, MediaUsage } from "./types";
+
+// Content items that still reference a media item; used by the media service before deletes
+export const getMediaUsage = api(
+    { method: "GET", path: "/internal/media-usage/:mediaId" },
+    async ({ mediaId }: { mediaId: string }): Promise<GetMediaUsageResponse> => {
+        const rows = db.query<MediaUsage>`
+            SELECT u.content_id, c.title, c.status, u.usage
+            FROM content_media_usage u
+            JOIN content_items c ON c.id = u.content_id
+            WHERE u.media_id = ${mediaId}
+            ORDER BY c.title, u.usage
+        `;
+
+        const usages: MediaUsage[] = [];
+        for await (const row of rows) {
+            usages.push(row);
+        }
+
+        return { usages };
+    }
+);
@@ -0,0 +1,15 @@
+-- Snapshot of a content item taken on every save
+CREATE TABLE content_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    content_id UUID NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    content TEXT,
+    excerpt TEXT,
+    status content_status NOT NULL,
+    author_id UUID NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (content_id, revision_number)
+);
+
+CREATE INDEX idx_content_revisions_content_id ON content_revisions(content_id);
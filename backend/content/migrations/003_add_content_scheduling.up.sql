@@ -0,0 +1,9 @@
+-- Scheduled publishing: items in review go live at scheduled_for,
+-- published items are archived again at unpublish_at (embargo end)
+ALTER TABLE content_items
+    ADD COLUMN scheduled_for TIMESTAMP,
+    ADD COLUMN unpublish_at TIMESTAMP,
+    ADD COLUMN scheduled_by UUID;
+
+CREATE INDEX idx_content_items_scheduled_for ON content_items(scheduled_for) WHERE scheduled_for IS NOT NULL;
+CREATE INDEX idx_content_items_unpublish_at ON content_items(unpublish_at) WHERE unpublish_at IS NOT NULL;
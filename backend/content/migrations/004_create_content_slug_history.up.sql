@@ -0,0 +1,8 @@
+-- Slugs an item used to have, so old links can redirect to the current one
+CREATE TABLE content_slug_history (
+    slug VARCHAR(255) PRIMARY KEY,
+    content_id UUID NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_content_slug_history_content_id ON content_slug_history(content_id);
@@ -0,0 +1,10 @@
+-- Weighted full-text index: title matches rank above excerpt, excerpt above body
+ALTER TABLE content_items ADD COLUMN search_vector tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(excerpt, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(content, '')), 'C')
+    ) STORED;
+
+CREATE INDEX idx_content_items_search_vector ON content_items USING GIN (search_vector);
+CREATE INDEX idx_content_tags_tag_id ON content_tags(tag_id);
@@ -0,0 +1,17 @@
+ALTER TABLE content_items ADD COLUMN featured_media_id UUID;
+
+-- Which media each item references; media lives in another service, so there is no foreign key
+CREATE TABLE content_media_usage (
+    content_id UUID NOT NULL REFERENCES content_items(id) ON DELETE CASCADE,
+    media_id UUID NOT NULL,
+    usage VARCHAR(20) NOT NULL,
+    PRIMARY KEY (content_id, media_id, usage)
+);
+
+CREATE INDEX idx_content_media_usage_media_id ON content_media_usage(media_id);
+
+-- Index references already embedded in bodies (same patterns as content/media-refs.ts)
+INSERT INTO content_media_usage (content_id, media_id, usage)
+SELECT DISTINCT c.id, lower(m[1])::uuid, 'body'
+FROM content_items c,
+     regexp_matches(c.content, '(?:/media/|originals/|renditions/)([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})', 'g') AS m;
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { content } from "~encore/clients";
+import { runScheduledPublishing } from "./scheduling";
+import { db } from "./content";
+import { ContentType } from "./types";
+import { randomUUID } from "crypto";
+
+const authAs = (userID: string, roles: string[] = ["editor"]) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
+
+// getContent is read-only but still needs a signed-in caller
+const asReader = authAs(randomUUID(), ["viewer"]);
+
+const inMinutes = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+describe("Scheduled Publishing", () => {
+    beforeEach(async () => {
+        await db.exec`DELETE FROM content_tags`;
+        await db.exec`DELETE FROM content_items`;
+    });
+
+    const createInReview = async (authorId: string, title = "Scheduled Article") => {
+        const created = await content.createContent({ title, type: "article" as ContentType }, authAs(authorId));
+        await content.updateContent({ id: created.id, status: "review" }, authAs(authorId));
+        return created;
+    };
+
+    describe("scheduleContent", () => {
+        it("should schedule content in review", async () => {
+            const editorId = randomUUID();
+            const created = await createInReview(editorId);
+            const publishAt = inMinutes(60);
+
+            const result = await content.scheduleContent({ id: created.id, publish_at: publishAt }, authAs(editorId));
+
+            expect(result.status).toBe("review");
+            expect(new Date(result.scheduled_for!).getTime()).toBe(publishAt.getTime());
+        });
+
+        it("should reject drafts", async () => {
+            const editorId = randomUUID();
+            const created = await content.createContent({ title: "Draft", type: "article" as ContentType }, authAs(editorId));
+
+            await expect(content.scheduleContent({ id: created.id, publish_at: inMinutes(60) }, authAs(editorId)))
+                .rejects.toThrow("Only content in review can be scheduled for publishing");
+        });
+
+        it("should reject times in the past and embargoes before the publish time", async () => {
+            const editorId = randomUUID();
+            const created = await createInReview(editorId);
+
+            await expect(content.scheduleContent({ id: created.id, publish_at: inMinutes(-5) }, authAs(editorId)))
+                .rejects.toThrow("publish_at must be in the future");
+            await expect(content.scheduleContent({ id: created.id, publish_at: inMinutes(60), unpublish_at: inMinutes(30) }, authAs(editorId)))
+                .rejects.toThrow("unpublish_at must be after the publish time");
+        });
+
+        it("should require publish permission", async () => {
+            const authorId = randomUUID();
+            const created = await createInReview(authorId);
+
+            await expect(content.scheduleContent({ id: created.id, publish_at: inMinutes(60) }, authAs(authorId, ["contributor"])))
+                .rejects.toThrow("Missing permission: content.publish");
+        });
+
+        it("should clear schedules when unscheduled", async () => {
+            const editorId = randomUUID();
+            const created = await createInReview(editorId);
+            await content.scheduleContent({ id: created.id, publish_at: inMinutes(60), unpublish_at: inMinutes(120) }, authAs(editorId));
+
+            const result = await content.unscheduleContent({ id: created.id }, authAs(editorId));
+
+            expect(result.scheduled_for).toBeNull();
+            expect(result.unpublish_at).toBeNull();
+        });
+    });
+
+    describe("runScheduledPublishing", () => {
+        it("should publish due items and stamp published_at", async () => {
+            const editorId = randomUUID();
+            const due = await createInReview(editorId, "Due Article");
+            const later = await createInReview(editorId, "Later Article");
+
+            await content.scheduleContent({ id: due.id, publish_at: inMinutes(60) }, authAs(editorId));
+            await content.scheduleContent({ id: later.id, publish_at: inMinutes(60) }, authAs(editorId));
+            await db.exec`UPDATE content_items SET scheduled_for = NOW() - INTERVAL '1 minute' WHERE id = ${due.id}`;
+
+            const result = await runScheduledPublishing();
+
+            expect(result.published).toBe(1);
+
+            const published = await content.getContent({ id: due.id }, asReader);
+            expect(published.content!.status).toBe("published");
+            expect(published.content!.published_at).toBeDefined();
+            expect(published.content!.scheduled_for).toBeNull();
+
+            const pending = await content.getContent({ id: later.id }, asReader);
+            expect(pending.content!.status).toBe("review");
+        });
+
+        it("should archive items once the embargo ends", async () => {
+            const editorId = randomUUID();
+            const created = await createInReview(editorId);
+            await content.updateContent({ id: created.id, status: "published" }, authAs(editorId));
+            await content.scheduleContent({ id: created.id, unpublish_at: inMinutes(60) }, authAs(editorId));
+            await db.exec`UPDATE content_items SET unpublish_at = NOW() - INTERVAL '1 minute' WHERE id = ${created.id}`;
+
+            const result = await runScheduledPublishing();
+
+            expect(result.unpublished).toBe(1);
+            const archived = await content.getContent({ id: created.id }, asReader);
+            expect(archived.content!.status).toBe("archived");
+            expect(archived.content!.unpublish_at).toBeNull();
+        });
+
+        it("should drop a pending schedule when the item leaves review", async () => {
+            const editorId = randomUUID();
+            const created = await createInReview(editorId);
+            await content.scheduleContent({ id: created.id, publish_at: inMinutes(60) }, authAs(editorId));
+
+            const result = await content.updateContent({ id: created.id, status: "draft" }, authAs(editorId));
+
+            expect(result.scheduled_for).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,204 @@
+import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { Transaction } from "encore.dev/storage/sqldb";
+import { requirePermission } from "../auth/permissions";
+import { db, recordRevision } from "./content";
+import { announceStatusChange } from "./events";
+import { ContentItem, ContentStatus, ScheduleContentRequest, ScheduledRunResponse } from "./types";
+
+interface ScheduledItem extends ContentItem {
+    scheduled_by?: string;
+}
+
+// Schedule an item in review to go live, and/or a live item to come down again
+export const scheduleContent = api(
+    { method: "PUT", path: "/content/:id/schedule", auth: true, expose: true },
+    async ({ id, publish_at, unpublish_at }: { id: string } & ScheduleContentRequest): Promise<ContentItem> => {
+        const auth = requirePermission("content.publish");
+
+        if (!publish_at && !unpublish_at) {
+            throw APIError.invalidArgument("Provide publish_at, unpublish_at or both");
+        }
+
+        const now = new Date();
+        if (publish_at && publish_at <= now) {
+            throw APIError.invalidArgument("publish_at must be in the future");
+        }
+
+        const current = await db.queryRow<ContentItem>`
+            SELECT id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+            FROM content_items
+            WHERE id = ${id}
+        `;
+
+        if (!current) {
+            throw APIError.notFound("Content not found");
+        }
+
+        // Scheduling follows the same workflow as manual publishing
+        if (publish_at && current.status !== 'review') {
+            throw APIError.failedPrecondition("Only content in review can be scheduled for publishing");
+        }
+        if (!publish_at && current.status !== 'published' && !current.scheduled_for) {
+            throw APIError.failedPrecondition("Only published or scheduled content can have an unpublish time");
+        }
+
+        const goLive = publish_at ?? current.scheduled_for ?? now;
+        if (unpublish_at && unpublish_at <= goLive) {
+            throw APIError.invalidArgument("unpublish_at must be after the publish time");
+        }
+
+        const item = await db.queryRow<ContentItem>`
+            UPDATE content_items
+            SET scheduled_for = ${publish_at ?? current.scheduled_for ?? null},
+                unpublish_at = ${unpublish_at ?? current.unpublish_at ?? null},
+                scheduled_by = ${auth.userID},
+                updated_at = NOW()
+            WHERE id = ${id}
+            RETURNING id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+        `;
+
+        if (!item) {
+            throw APIError.notFound("Content not found");
+        }
+
+        return item;
+    }
+);
+
+export const unscheduleContent = api(
+    { method: "DELETE", path: "/content/:id/schedule", auth: true, expose: true },
+    async ({ id }: { id: string }): Promise<ContentItem> => {
+        requirePermission("content.publish");
+
+        const item = await db.queryRow<ContentItem>`
+            UPDATE content_items
+            SET scheduled_for = NULL,
+                unpublish_at = NULL,
+                scheduled_by = NULL,
+                updated_at = NOW()
+            WHERE id = ${id}
+            RETURNING id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, created_at, updated_at
+        `;
+
+        if (!item) {
+            throw APIError.notFound("Content not found");
+        }
+
+        return item;
+    }
+);
+
+// Flip due items live and take expired ones down (Cron Job)
+export const runScheduledPublishing = api(
+    { method: "POST", path: "/content/scheduled/run" },
+    async (): Promise<ScheduledRunResponse> => {
+        try {
+            const published = await applyDue(claimDuePublish, 'review');
+            const unpublished = await applyDue(claimDueUnpublish, 'published');
+
+            if (published > 0 || unpublished > 0) {
+                console.log(`Scheduled publishing: ${published} published, ${unpublished} unpublished`);
+            }
+
+            return { published, unpublished };
+        } catch (error) {
+            console.error('Scheduled publishing error:', error);
+            throw APIError.internal('Failed to run scheduled publishing');
+        }
+    }
+);
+
+/**
+ * Change the status of each due item and record its revision, one transaction
+ * per item. An item that fails is logged and left due for the next run, and
+ * the rest of this run skips it so the items behind it still go out. The event
+ * is announced only once the change is committed. Returns how many changed.
+ */
+async function applyDue(
+    claim: (tx: Transaction, skip: string[]) => Promise<ScheduledItem | null>,
+    previous: ContentStatus
+): Promise<number> {
+    const failed: string[] = [];
+    let applied = 0;
+
+    for (;;) {
+        let item: ScheduledItem | null = null;
+        const tx = await db.begin();
+        try {
+            item = await claim(tx, failed);
+            if (!item) {
+                await tx.rollback();
+                return applied;
+            }
+
+            await recordRevision(tx, item.id, actorOf(item));
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            // Failing to claim anything is not down to one item
+            if (!item) {
+                throw error;
+            }
+            console.error(`Scheduled status change of content ${item.id} failed:`, error);
+            failed.push(item.id);
+            continue;
+        }
+
+        applied++;
+        try {
+            await announceStatusChange(item, previous, actorOf(item), 'schedule');
+        } catch (error) {
+            console.error(`Announcing scheduled status change of content ${item.id} failed:`, error);
+        }
+    }
+}
+
+// Scheduled changes are made on behalf of whoever scheduled them
+function actorOf(item: ScheduledItem): string {
+    return item.scheduled_by ?? item.author_id;
+}
+
+// Publish the next item whose time has come; published_at records the planned time
+function claimDuePublish(tx: Transaction, skip: string[]): Promise<ScheduledItem | null> {
+    return tx.queryRow<ScheduledItem>`
+        UPDATE content_items
+        SET status = 'published',
+            published_at = scheduled_for,
+            scheduled_for = NULL,
+            updated_at = NOW()
+        WHERE id = (
+            SELECT id FROM content_items
+            WHERE status = 'review' AND scheduled_for <= NOW() AND id <> ALL(${skip}::uuid[])
+            ORDER BY scheduled_for
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, scheduled_by, created_at, updated_at
+    `;
+}
+
+// Embargo end: published items go to archived, the only legal exit from published
+function claimDueUnpublish(tx: Transaction, skip: string[]): Promise<ScheduledItem | null> {
+    return tx.queryRow<ScheduledItem>`
+        UPDATE content_items
+        SET status = 'archived',
+            unpublish_at = NULL,
+            updated_at = NOW()
+        WHERE id = (
+            SELECT id FROM content_items
+            WHERE status = 'published' AND unpublish_at <= NOW() AND id <> ALL(${skip}::uuid[])
+            ORDER BY unpublish_at
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, title, slug, content, excerpt, status, type, author_id, category_id, featured_media_id, published_at, scheduled_for, unpublish_at, scheduled_by, created_at, updated_at
+    `;
+}
+
+// Cron job to process publish and unpublish schedules every minute
+const _ = new CronJob("content-scheduled-publishing", {
+    title: "Publish and unpublish scheduled content",
+    every: "1m",
+    endpoint: runScheduledPublishing,
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { content } from "~encore/clients";
+import { db } from "./content";
+import { ContentType } from "./types";
+import { randomUUID } from "crypto";
+
+const authAs = (userID: string, roles: string[] = ["editor"]) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
+
+describe("searchContent", () => {
+    const authorId = randomUUID();
+    const reader = authAs(randomUUID(), ["viewer"]);
+
+    const create = (title: string, body: string, extra: { excerpt?: string; category_id?: string } = {}) =>
+        content.createContent({ title, content: body, type: "article" as ContentType, ...extra }, authAs(authorId));
+
+    beforeEach(async () => {
+        await db.exec`DELETE FROM content_tags`;
+        await db.exec`DELETE FROM content_items`;
+        await db.exec`DELETE FROM categories`;
+        await db.exec`DELETE FROM tags`;
+    });
+
+    it("should rank title matches above body matches", async () => {
+        await create("Cooking basics", "A short guide that mentions postgres once.");
+        await create("Postgres indexing", "Everything about indexes.");
+
+        const result = await content.searchContent({ q: "postgres" }, reader);
+
+        expect(result.total).toBe(2);
+        expect(result.results[0].item.title).toBe("Postgres indexing");
+        expect(result.results[0].rank).toBeGreaterThan(result.results[1].rank);
+    });
+
+    it("should highlight matches in the title and snippet", async () => {
+        await create("Searching with Postgres", "Full text search in Postgres uses tsvector columns.");
+
+        const result = await content.searchContent({ q: "tsvector" }, reader);
+
+        expect(result.results).toHaveLength(1);
+        expect(result.results[0].snippet).toContain("<mark>tsvector</mark>");
+
+        const byTitle = await content.searchContent({ q: "searching" }, reader);
+        expect(byTitle.results[0].title_highlight).toContain("<mark>Searching</mark>");
+    });
+
+    it("should match stemmed words", async () => {
+        await create("Publishing workflows", "How editors publish articles.");
+
+        const result = await content.searchContent({ q: "published" }, reader);
+
+        expect(result.total).toBe(1);
+    });
+
+    it("should filter by category, tag and author", async () => {
+        await db.exec`INSERT INTO categories (name, slug) VALUES ('Databases', 'databases')`;
+        const category = await db.queryRow<{ id: string }>`SELECT id FROM categories WHERE slug = 'databases'`;
+        await db.exec`INSERT INTO tags (name) VALUES ('sql')`;
+        const tag = await db.queryRow<{ id: string }>`SELECT id FROM tags WHERE name = 'sql'`;
+
+        const inCategory = await create("Query planning", "Query plans explained.", { category_id: category!.id });
+        const tagged = await create("Query hints", "Query hints in practice.");
+        await content.updateContent({ id: tagged.id, tag_ids: [tag!.id] }, authAs(authorId));
+        await content.createContent({ title: "Query caching", type: "article" as ContentType }, authAs(randomUUID()));
+
+        const byCategory = await content.searchContent({ q: "query", category_id: category!.id }, reader);
+        expect(byCategory.results.map(r => r.item.id)).toEqual([inCategory.id]);
+
+        const byTag = await content.searchContent({ q: "query", tag_id: tag!.id }, reader);
+        expect(byTag.results.map(r => r.item.id)).toEqual([tagged.id]);
+
+        const byAuthor = await content.searchContent({ q: "query", author_id: authorId }, reader);
+        expect(byAuthor.total).toBe(2);
+    });
+
+    it("should filter by date range", async () => {
+        const old = await create("Archive notes", "Notes from long ago.");
+        await create("Fresh notes", "Notes from today.");
+        await db.exec`UPDATE content_items SET created_at = NOW() - INTERVAL '30 days' WHERE id = ${old.id}`;
+
+        const result = await content.searchContent({
+            q: "notes",
+            from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+        }, reader);
+
+        expect(result.results.map(r => r.item.title)).toEqual(["Fresh notes"]);
+    });
+
+    it("should page results and keep the total past the last page", async () => {
+        for (let i = 1; i <= 3; i++) {
+            await create(`Paging article ${i}`, "Paging content.");
+        }
+
+        const first = await content.searchContent({ q: "paging", limit: 2 }, reader);
+        expect(first.results).toHaveLength(2);
+        expect(first.total).toBe(3);
+
+        const beyond = await content.searchContent({ q: "paging", limit: 2, page: 5 }, reader);
+        expect(beyond.results).toHaveLength(0);
+        expect(beyond.total).toBe(3);
+    });
+
+    it("should reject empty queries", async () => {
+        await expect(content.searchContent({ q: "   " }, reader)).rejects.toThrow("Search query is required");
+    });
+});
@@ -0,0 +1,91 @@
+import { api, APIError } from "encore.dev/api";
+import { requirePermission } from "../auth/permissions";
+import { assertPage } from "../shared/query";
+import { db } from "./content";
+import { ContentItem, SearchContentRequest, SearchContentResponse, SearchResult } from "./types";
+
+interface SearchRow extends ContentItem {
+    rank: number;
+    total: number;
+    title_highlight: string;
+    snippet: string;
+}
+
+const HIGHLIGHT_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "';
+
+// Ranked full-text search over title, excerpt and body with optional filters
+export const searchContent = api(
+    { method: "GET", path: "/content/search", auth: true, expose: true },
+    async (req: SearchContentRequest): Promise<SearchContentResponse> => {
+        requirePermission("content.read");
+
+        const q = req.q?.trim();
+        if (!q) {
+            throw APIError.invalidArgument("Search query is required");
+        }
+
+        const page = req.page || 1;
+        assertPage(page);
+        const limit = Math.min(req.limit || 10, 50); // Max 50 items per page
+        const offset = (page - 1) * limit;
+
+        // Unset filters are passed as NULL and short-circuit their condition.
+        // Snippets are only built for the page being returned; the count row
+        // is LEFT JOINed so the total survives a page past the end.
+        const rows = db.query<SearchRow | { id: null; total: number }>`
+            WITH matches AS (
+                SELECT c.id, c.title, c.slug, c.content, c.excerpt, c.status, c.type, c.author_id, c.category_id, c.featured_media_id,
+                       c.published_at, c.scheduled_for, c.unpublish_at, c.created_at, c.updated_at,
+                       ts_rank_cd(c.search_vector, query) AS rank,
+                       query
+                FROM content_items c, websearch_to_tsquery('english', ${q}) query
+                WHERE c.search_vector @@ query
+                  AND (${req.status ?? null}::content_status IS NULL OR c.status = ${req.status ?? null}::content_status)
+                  AND (${req.type ?? null}::content_type IS NULL OR c.type = ${req.type ?? null}::content_type)
+                  AND (${req.category_id ?? null}::uuid IS NULL OR c.category_id = ${req.category_id ?? null}::uuid)
+                  AND (${req.author_id ?? null}::uuid IS NULL OR c.author_id = ${req.author_id ?? null}::uuid)
+                  AND (${req.tag_id ?? null}::uuid IS NULL OR EXISTS (
+                        SELECT 1 FROM content_tags ct WHERE ct.content_id = c.id AND ct.tag_id = ${req.tag_id ?? null}::uuid
+                  ))
+                  AND (${req.from ?? null}::timestamp IS NULL OR COALESCE(c.published_at, c.created_at) >= ${req.from ?? null}::timestamp)
+                  AND (${req.to ?? null}::timestamp IS NULL OR COALESCE(c.published_at, c.created_at) <= ${req.to ?? null}::timestamp)
+            ),
+            counted AS (
+                SELECT COUNT(*)::int AS total FROM matches
+            ),
+            page AS (
+                SELECT * FROM matches
+                ORDER BY rank DESC, created_at DESC
+                LIMIT ${limit} OFFSET ${offset}
+            )
+            SELECT p.id, p.title, p.slug, p.content, p.excerpt, p.status, p.type, p.author_id, p.category_id, p.featured_media_id,
+                   p.published_at, p.scheduled_for, p.unpublish_at, p.created_at, p.updated_at,
+                   p.rank, counted.total,
+                   ts_headline('english', p.title, p.query, ${HIGHLIGHT_OPTIONS}) AS title_highlight,
+                   ts_headline('english', coalesce(nullif(p.content, ''), p.excerpt, ''), p.query, ${SNIPPET_OPTIONS}) AS snippet
+            FROM counted
+            LEFT JOIN page p ON TRUE
+            ORDER BY p.rank DESC, p.created_at DESC
+        `;
+
+        const results: SearchResult[] = [];
+        let total = 0;
+        for await (const row of rows) {
+            total = row.total;
+            if (row.id === null) {
+                continue;
+            }
+
+            const { rank, total: _total, title_highlight, snippet, ...item } = row as SearchRow;
+            results.push({ item, rank, title_highlight, snippet });
+        }
+
+        return {
+            results,
+            total,
+            page,
+            limit
+        };
+    }
+);
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { slugify, nextAvailableSlug, FALLBACK_SLUG, MAX_SLUG_LENGTH } from "./slug";
+
+describe("slugify", () => {
+    it("should keep the existing ASCII behaviour", () => {
+        expect(slugify("Hello World!")).toBe("hello-world");
+        expect(slugify("C++ Programming & Node.js Development")).toBe("c-programming-node-js-development");
+        expect(slugify("   Trimmed   Spaces   ")).toBe("trimmed-spaces");
+        expect(slugify("Multiple---Dashes")).toBe("multiple-dashes");
+    });
+
+    it("should strip accents", () => {
+        expect(slugify("Crème Brûlée à la carte")).toBe("creme-brulee-a-la-carte");
+        expect(slugify("Ångström Ñandú")).toBe("angstrom-nandu");
+    });
+
+    it("should transliterate letters without a decomposition", () => {
+        expect(slugify("Straße Æsir Łódź")).toBe("strasse-aesir-lodz");
+    });
+
+    it("should transliterate Cyrillic and Greek", () => {
+        expect(slugify("Привет мир")).toBe("privet-mir");
+        expect(slugify("Καλημέρα κόσμε")).toBe("kalimera-kosme");
+    });
+
+    it("should fall back when nothing can be transliterated", () => {
+        expect(slugify("你好")).toBe(FALLBACK_SLUG);
+        expect(slugify("!!!")).toBe(FALLBACK_SLUG);
+    });
+
+    it("should cap the length without leaving a trailing dash", () => {
+        const slug = slugify("word ".repeat(100));
+
+        expect(slug.length).toBeLessThanOrEqual(MAX_SLUG_LENGTH);
+        expect(slug.endsWith("-")).toBe(false);
+    });
+});
+
+describe("nextAvailableSlug", () => {
+    it("should return the base when free", () => {
+        expect(nextAvailableSlug("hello", [])).toBe("hello");
+    });
+
+    it("should append the first free numeric suffix", () => {
+        expect(nextAvailableSlug("hello", ["hello"])).toBe("hello-2");
+        expect(nextAvailableSlug("hello", ["hello", "hello-2", "hello-3"])).toBe("hello-4");
+        expect(nextAvailableSlug("hello", ["hello", "hello-3"])).toBe("hello-2");
+    });
+});
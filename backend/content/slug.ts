@@ -0,0 +1,63 @@
+// Used when nothing sluggable is left after transliteration (e.g. CJK-only titles)
+export const FALLBACK_SLUG = 'untitled';
+
+export const MAX_SLUG_LENGTH = 200;
+
+// Letters that Unicode normalization does not decompose into ASCII
+const LATIN_SPECIALS: Record<string, string> = {
+    'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd',
+    'þ': 'th', 'ł': 'l', 'ħ': 'h', 'ı': 'i', 'ŋ': 'ng',
+};
+
+const CYRILLIC: Record<string, string> = {
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'ж': 'zh',
+    'з': 'z', 'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o',
+    'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts',
+    'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu',
+    'я': 'ya', 'є': 'ye', 'і': 'i', 'ї': 'yi', 'ґ': 'g',
+};
+
+const GREEK: Record<string, string> = {
+    'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th',
+    'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p',
+    'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps',
+    'ω': 'o',
+};
+
+const TRANSLITERATIONS: Record<string, string> = { ...LATIN_SPECIALS, ...CYRILLIC, ...GREEK };
+
+/**
+ * Turn arbitrary text into a URL slug: transliterate to ASCII, lowercase,
+ * collapse everything else into single dashes.
+ */
+export function slugify(text: string, maxLength = MAX_SLUG_LENGTH): string {
+    const ascii = text
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '') // strip combining accents
+        .replace(/./gu, (char) => TRANSLITERATIONS[char] ?? char);
+
+    const slug = ascii
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, maxLength)
+        .replace(/-+$/, '');
+
+    return slug || FALLBACK_SLUG;
+}
+
+/**
+ * Pick the first free slug of base, base-2, base-3, ... given the slugs already taken.
+ */
+export function nextAvailableSlug(base: string, taken: Iterable<string>): string {
+    const used = new Set(taken);
+    if (!used.has(base)) {
+        return base;
+    }
+
+    let suffix = 2;
+    while (used.has(`${base}-${suffix}`)) {
+        suffix++;
+    }
+    return `${base}-${suffix}`;
+}
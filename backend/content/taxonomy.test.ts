@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { content } from "~encore/clients";
+import { listCategories, getCategoryTree, listTags } from "./taxonomy";
+import { db } from "./content";
+import { ContentType } from "./types";
+import { randomUUID } from "crypto";
+
+const authAs = (userID: string, roles: string[] = ["editor"]) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
+
+describe("Taxonomy", () => {
+    const editor = authAs(randomUUID());
+
+    beforeEach(async () => {
+        await db.exec`DELETE FROM content_tags`;
+        await db.exec`DELETE FROM content_items`;
+        await db.exec`DELETE FROM categories`;
+        await db.exec`DELETE FROM tags`;
+    });
+
+    describe("categories", () => {
+        it("should create categories with unique slugs", async () => {
+            const first = await content.createCategory({ name: "Tech News" }, editor);
+            const second = await content.createCategory({ name: "Tech News" }, editor);
+
+            expect(first.slug).toBe("tech-news");
+            expect(second.slug).toBe("tech-news-2");
+            expect(first.usage_count).toBe(0);
+        });
+
+        it("should give concurrently created categories distinct slugs", async () => {
+            const created = await Promise.all([1, 2, 3].map(() => content.createCategory({ name: "Events" }, editor)));
+
+            expect(new Set(created.map(c => c.slug)).size).toBe(3);
+        });
+
+        it("should reject a custom slug that is taken", async () => {
+            await content.createCategory({ name: "News" }, editor);
+
+            await expect(content.createCategory({ name: "Other", slug: "news" }, editor))
+                .rejects.toThrow('Category slug "news" is already in use');
+        });
+
+        it("should reject over-long names", async () => {
+            const created = await content.createCategory({ name: "Short" }, editor);
+
+            await expect(content.createCategory({ name: "x".repeat(101) }, editor))
+                .rejects.toThrow("Category name must be at most 100 characters");
+            await expect(content.updateCategory({ id: created.id, name: "x".repeat(101) }, editor))
+                .rejects.toThrow("Category name must be at most 100 characters");
+        });
+
+        it("should require taxonomy permission", async () => {
+            await expect(content.createCategory({ name: "Nope" }, authAs(randomUUID(), ["contributor"])))
+                .rejects.toThrow("Missing permission: taxonomy.manage");
+        });
+
+        it("should update name, slug and description", async () => {
+            const created = await content.createCategory({ name: "Old" }, editor);
+
+            const result = await content.updateCategory({
+                id: created.id,
+                name: "New",
+                slug: "new",
+                description: "Renamed"
+            }, editor);
+
+            expect(result.name).toBe("New");
+            expect(result.slug).toBe("new");
+            expect(result.description).toBe("Renamed");
+        });
+
+        it("should return the tree with usage counts", async () => {
+            const root = await content.createCategory({ name: "Programming" }, editor);
+            const child = await content.createCategory({ name: "TypeScript", parent_id: root.id }, editor);
+            await content.createContent({
+                title: "Generics",
+                type: "article" as ContentType,
+                category_id: child.id
+            }, editor);
+
+            const { tree } = await getCategoryTree();
+
+            expect(tree).toHaveLength(1);
+            expect(tree[0].name).toBe("Programming");
+            expect(tree[0].children[0].name).toBe("TypeScript");
+            expect(tree[0].children[0].usage_count).toBe(1);
+
+            const { categories } = await listCategories();
+            expect(categories.map(c => c.name)).toEqual(["Programming", "TypeScript"]);
+        });
+
+        it("should move categories and reject cycles", async () => {
+            const a = await content.createCategory({ name: "A" }, editor);
+            const b = await content.createCategory({ name: "B", parent_id: a.id }, editor);
+            const c = await content.createCategory({ name: "C", parent_id: b.id }, editor);
+
+            await expect(content.moveCategory({ id: a.id, parent_id: c.id }, editor))
+                .rejects.toThrow("Cannot move a category under itself or one of its descendants");
+            await expect(content.moveCategory({ id: a.id, parent_id: a.id }, editor))
+                .rejects.toThrow("Cannot move a category under itself or one of its descendants");
+
+            const moved = await content.moveCategory({ id: c.id, parent_id: a.id }, editor);
+            expect(moved.parent_id).toBe(a.id);
+
+            const root = await content.moveCategory({ id: b.id }, editor);
+            expect(root.parent_id).toBeNull();
+        });
+
+        it("should reparent children and uncategorize content on delete", async () => {
+            const parent = await content.createCategory({ name: "Parent" }, editor);
+            const middle = await content.createCategory({ name: "Middle", parent_id: parent.id }, editor);
+            const leaf = await content.createCategory({ name: "Leaf", parent_id: middle.id }, editor);
+            const item = await content.createContent({
+                title: "Filed",
+                type: "article" as ContentType,
+                category_id: middle.id
+            }, editor);
+
+            await content.deleteCategory({ id: middle.id }, editor);
+
+            const movedLeaf = await db.queryRow<{ parent_id: string }>`SELECT parent_id FROM categories WHERE id = ${leaf.id}`;
+            expect(movedLeaf!.parent_id).toBe(parent.id);
+
+            const filed = await db.queryRow<{ category_id: string | null }>`SELECT category_id FROM content_items WHERE id = ${item.id}`;
+            expect(filed!.category_id).toBeNull();
+        });
+    });
+
+    describe("tags", () => {
+        it("should create, list and count tags", async () => {
+            const tag = await content.createTag({ name: "  react  " }, editor);
+            const item = await content.createContent({ title: "Hooks", type: "article" as ContentType }, editor);
+            await content.updateContent({ id: item.id, tag_ids: [tag.id] }, editor);
+
+            const { tags } = await listTags();
+
+            expect(tags).toHaveLength(1);
+            expect(tags[0].name).toBe("react");
+            expect(tags[0].usage_count).toBe(1);
+        });
+
+        it("should reject duplicate names", async () => {
+            await content.createTag({ name: "vue" }, editor);
+
+            await expect(content.createTag({ name: "vue" }, editor)).rejects.toThrow('Tag "vue" already exists');
+        });
+
+        it("should rename tags and refuse to collide", async () => {
+            const js = await content.createTag({ name: "js" }, editor);
+            await content.createTag({ name: "typescript" }, editor);
+
+            const renamed = await content.renameTag({ id: js.id, name: "javascript" }, editor);
+            expect(renamed.name).toBe("javascript");
+
+            await expect(content.renameTag({ id: js.id, name: "typescript" }, editor))
+                .rejects.toThrow("merge the tags instead");
+        });
+
+        it("should merge tags without duplicating links", async () => {
+            const source = await content.createTag({ name: "reactjs" }, editor);
+            const target = await content.createTag({ name: "react" }, editor);
+            const both = await content.createContent({ title: "Both", type: "article" as ContentType }, editor);
+            const onlySource = await content.createContent({ title: "Only Source", type: "article" as ContentType }, editor);
+            await content.updateContent({ id: both.id, tag_ids: [source.id, target.id] }, editor);
+            await content.updateContent({ id: onlySource.id, tag_ids: [source.id] }, editor);
+
+            const merged = await content.mergeTag({ id: source.id, target_id: target.id }, editor);
+
+            expect(merged.id).toBe(target.id);
+            expect(merged.usage_count).toBe(2);
+
+            const { tags } = await listTags();
+            expect(tags.map(t => t.name)).toEqual(["react"]);
+        });
+
+        it("should delete tags", async () => {
+            const tag = await content.createTag({ name: "obsolete" }, editor);
+
+            const result = await content.deleteTag({ id: tag.id }, editor);
+
+            expect(result.success).toBe(true);
+            await expect(content.deleteTag({ id: tag.id }, editor)).rejects.toThrow("Tag not found");
+        });
+    });
+});
@@ -0,0 +1,416 @@
+import { api, APIError } from "encore.dev/api";
+import { Transaction } from "encore.dev/storage/sqldb";
+import { requirePermission } from "../auth/permissions";
+import { db } from "./content";
+import { slugify, nextAvailableSlug } from "./slug";
+import { buildCategoryTree } from "./tree";
+import {
+    Category,
+    CategoryWithUsage,
+    CreateCategoryRequest,
+    UpdateCategoryRequest,
+    MoveCategoryRequest,
+    ListCategoriesResponse,
+    CategoryTreeResponse,
+    Tag,
+    TagWithUsage,
+    ListTagsResponse,
+    TagRequest,
+    MergeTagRequest
+} from "./types";
+
+interface DeleteResponse {
+    success: boolean;
+}
+
+// categories.slug is VARCHAR(100); leave room for a -N suffix
+const MAX_CATEGORY_SLUG_LENGTH = 90;
+const CATEGORY_SLUG_ATTEMPTS = 5;
+
+export const listCategories = api(
+    { method: "GET", path: "/categories", expose: true },
+    async (): Promise<ListCategoriesResponse> => {
+        return { categories: await loadCategories() };
+    }
+);
+
+export const getCategoryTree = api(
+    { method: "GET", path: "/categories/tree", expose: true },
+    async (): Promise<CategoryTreeResponse> => {
+        return { tree: buildCategoryTree(await loadCategories()) };
+    }
+);
+
+export const createCategory = api(
+    { method: "POST", path: "/categories", auth: true, expose: true },
+    async (req: CreateCategoryRequest): Promise<CategoryWithUsage> => {
+        requirePermission("taxonomy.manage");
+
+        const name = normalizeCategoryName(req.name);
+        if (req.parent_id) {
+            await findCategory(req.parent_id, "Parent category not found");
+        }
+
+        const explicit = req.slug !== undefined;
+
+        for (let attempt = 0; attempt < CATEGORY_SLUG_ATTEMPTS; attempt++) {
+            const slug = await resolveCategorySlug(req.slug ?? name, explicit);
+
+            // ON CONFLICT turns a concurrent claim of the same slug into a retry instead of a raw DB error
+            const category = await db.queryRow<Category>`
+                INSERT INTO categories (name, slug, description, parent_id)
+                VALUES (${name}, ${slug}, ${req.description ?? null}, ${req.parent_id ?? null})
+                ON CONFLICT (slug) DO NOTHING
+                RETURNING id, name, slug, description, parent_id, created_at
+            `;
+
+            if (category) {
+                return { ...category, usage_count: 0 };
+            }
+
+            if (explicit) {
+                throw APIError.alreadyExists(`Category slug "${slug}" is already in use`);
+            }
+        }
+
+        throw APIError.aborted("Could not allocate a unique category slug, please retry");
+    }
+);
+
+export const updateCategory = api(
+    { method: "PUT", path: "/categories/:id", auth: true, expose: true },
+    async ({ id, ...updates }: { id: string } & UpdateCategoryRequest): Promise<CategoryWithUsage> => {
+        requirePermission("taxonomy.manage");
+
+        const current = await findCategory(id);
+        const name = updates.name !== undefined ? normalizeCategoryName(updates.name) : current.name;
+
+        const slug = updates.slug !== undefined
+            ? await resolveCategorySlug(updates.slug, true, id)
+            : current.slug;
+
+        await db.exec`
+            UPDATE categories
+            SET name = ${name},
+                slug = ${slug},
+                description = ${updates.description ?? current.description ?? null}
+            WHERE id = ${id}
+        `;
+
+        return await findCategoryWithUsage(id);
+    }
+);
+
+// Reparent a category; moving it under itself or one of its descendants is rejected
+export const moveCategory = api(
+    { method: "POST", path: "/categories/:id/move", auth: true, expose: true },
+    async ({ id, parent_id }: { id: string } & MoveCategoryRequest): Promise<CategoryWithUsage> => {
+        requirePermission("taxonomy.manage");
+
+        await findCategory(id);
+
+        if (parent_id) {
+            await findCategory(parent_id, "Parent category not found");
+        }
+
+        const tx = await db.begin();
+        try {
+            await lockCategoryTree(tx);
+
+            if (parent_id) {
+                // Walk up from the new parent; meeting the moved category means a cycle
+                const cycle = await tx.queryRow<{ id: string }>`
+                    WITH RECURSIVE ancestors AS (
+                        SELECT id, parent_id FROM categories WHERE id = ${parent_id}
+                        UNION
+                        SELECT c.id, c.parent_id
+                        FROM categories c
+                        JOIN ancestors a ON c.id = a.parent_id
+                    )
+                    SELECT id FROM ancestors WHERE id = ${id}
+                `;
+
+                if (cycle) {
+                    throw APIError.failedPrecondition("Cannot move a category under itself or one of its descendants");
+                }
+            }
+
+            await tx.exec`
+                UPDATE categories SET parent_id = ${parent_id ?? null} WHERE id = ${id}
+            `;
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        return await findCategoryWithUsage(id);
+    }
+);
+
+// Children move up to the deleted category's parent; its content becomes uncategorized
+export const deleteCategory = api(
+    { method: "DELETE", path: "/categories/:id", auth: true, expose: true },
+    async ({ id }: { id: string }): Promise<DeleteResponse> => {
+        requirePermission("taxonomy.manage");
+
+        await findCategory(id);
+
+        const tx = await db.begin();
+        try {
+            await lockCategoryTree(tx);
+            // The parent is read again under the lock, in case the category was moved meanwhile
+            await tx.exec`
+                UPDATE categories SET parent_id = (SELECT parent_id FROM categories WHERE id = ${id}) WHERE parent_id = ${id}
+            `;
+            await tx.exec`
+                UPDATE content_items SET category_id = NULL, updated_at = NOW() WHERE category_id = ${id}
+            `;
+            await tx.exec`DELETE FROM categories WHERE id = ${id}`;
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        return { success: true };
+    }
+);
+
+// Reparenting runs one transaction at a time: two concurrent moves could each
+// pass the cycle check and together form a loop
+async function lockCategoryTree(tx: Transaction): Promise<void> {
+    await tx.exec`SELECT pg_advisory_xact_lock(hashtext('content.move_category'))`;
+}
+
+function normalizeCategoryName(name: string): string {
+    const trimmed = name?.trim() ?? '';
+    if (!trimmed) {
+        throw APIError.invalidArgument("Category name is required");
+    }
+    if (trimmed.length > 100) {
+        throw APIError.invalidArgument("Category name must be at most 100 characters");
+    }
+    return trimmed;
+}
+
+async function loadCategories(): Promise<CategoryWithUsage[]> {
+    const rows = db.query<CategoryWithUsage>`
+        SELECT c.id, c.name, c.slug, c.description, c.parent_id, c.created_at,
+               COUNT(ci.id)::int AS usage_count
+        FROM categories c
+        LEFT JOIN content_items ci ON ci.category_id = c.id
+        GROUP BY c.id
+        ORDER BY c.name
+    `;
+
+    const categories: CategoryWithUsage[] = [];
+    for await (const row of rows) {
+        categories.push(row);
+    }
+    return categories;
+}
+
+async function findCategory(id: string, message = "Category not found"): Promise<Category> {
+    const category = await db.queryRow<Category>`
+        SELECT id, name, slug, description, parent_id, created_at
+        FROM categories
+        WHERE id = ${id}
+    `;
+
+    if (!category) {
+        throw APIError.notFound(message);
+    }
+    return category;
+}
+
+async function findCategoryWithUsage(id: string): Promise<CategoryWithUsage> {
+    const category = await db.queryRow<CategoryWithUsage>`
+        SELECT c.id, c.name, c.slug, c.description, c.parent_id, c.created_at,
+               (SELECT COUNT(*)::int FROM content_items WHERE category_id = c.id) AS usage_count
+        FROM categories c
+        WHERE c.id = ${id}
+    `;
+
+    if (!category) {
+        throw APIError.notFound("Category not found");
+    }
+    return category;
+}
+
+// Explicit slugs must be free; slugs derived from the name get a -N suffix instead
+async function resolveCategorySlug(source: string, explicit: boolean, categoryId?: string): Promise<string> {
+    const base = slugify(source, MAX_CATEGORY_SLUG_LENGTH);
+    const pattern = `${base}-%`;
+
+    const rows = db.query<{ id: string; slug: string }>`
+        SELECT id, slug FROM categories WHERE slug = ${base} OR slug LIKE ${pattern}
+    `;
+
+    const taken: string[] = [];
+    for await (const row of rows) {
+        if (row.id !== categoryId) {
+            taken.push(row.slug);
+        }
+    }
+
+    if (explicit) {
+        if (taken.includes(base)) {
+            throw APIError.alreadyExists(`Category slug "${base}" is already in use`);
+        }
+        return base;
+    }
+
+    return nextAvailableSlug(base, taken);
+}
+
+export const listTags = api(
+    { method: "GET", path: "/tags", expose: true },
+    async (): Promise<ListTagsResponse> => {
+        const rows = db.query<TagWithUsage>`
+            SELECT t.id, t.name, t.created_at, COUNT(ct.content_id)::int AS usage_count
+            FROM tags t
+            LEFT JOIN content_tags ct ON ct.tag_id = t.id
+            GROUP BY t.id
+            ORDER BY t.name
+        `;
+
+        const tags: TagWithUsage[] = [];
+        for await (const row of rows) {
+            tags.push(row);
+        }
+
+        return { tags };
+    }
+);
+
+export const createTag = api(
+    { method: "POST", path: "/tags", auth: true, expose: true },
+    async ({ name }: TagRequest): Promise<TagWithUsage> => {
+        requirePermission("taxonomy.manage");
+
+        const tag = await db.queryRow<Tag>`
+            INSERT INTO tags (name)
+            VALUES (${normalizeTagName(name)})
+            ON CONFLICT (name) DO NOTHING
+            RETURNING id, name, created_at
+        `;
+
+        if (!tag) {
+            throw APIError.alreadyExists(`Tag "${normalizeTagName(name)}" already exists`);
+        }
+
+        return { ...tag, usage_count: 0 };
+    }
+);
+
+export const renameTag = api(
+    { method: "PUT", path: "/tags/:id", auth: true, expose: true },
+    async ({ id, name }: { id: string } & TagRequest): Promise<TagWithUsage> => {
+        requirePermission("taxonomy.manage");
+
+        const newName = normalizeTagName(name);
+        await findTag(id);
+
+        const clash = await db.queryRow<{ id: string }>`
+            SELECT id FROM tags WHERE name = ${newName} AND id <> ${id}
+        `;
+
+        if (clash) {
+            throw APIError.alreadyExists(`Tag "${newName}" already exists; merge the tags instead`);
+        }
+
+        await db.exec`UPDATE tags SET name = ${newName} WHERE id = ${id}`;
+
+        return await findTagWithUsage(id);
+    }
+);
+
+// Fold a tag into another: its content links move to the target and the tag is removed
+export const mergeTag = api(
+    { method: "POST", path: "/tags/:id/merge", auth: true, expose: true },
+    async ({ id, target_id }: { id: string } & MergeTagRequest): Promise<TagWithUsage> => {
+        requirePermission("taxonomy.manage");
+
+        if (id === target_id) {
+            throw APIError.invalidArgument("Cannot merge a tag into itself");
+        }
+
+        await findTag(id);
+        await findTag(target_id, "Target tag not found");
+
+        const tx = await db.begin();
+        try {
+            // Content already carrying the target keeps a single link
+            await tx.exec`
+                INSERT INTO content_tags (content_id, tag_id)
+                SELECT content_id, ${target_id} FROM content_tags WHERE tag_id = ${id}
+                ON CONFLICT DO NOTHING
+            `;
+            await tx.exec`DELETE FROM tags WHERE id = ${id}`;
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        return await findTagWithUsage(target_id);
+    }
+);
+
+export const deleteTag = api(
+    { method: "DELETE", path: "/tags/:id", auth: true, expose: true },
+    async ({ id }: { id: string }): Promise<DeleteResponse> => {
+        requirePermission("taxonomy.manage");
+
+        // content_tags rows are removed by ON DELETE CASCADE
+        const deleted = await db.queryRow`
+            DELETE FROM tags WHERE id = ${id} RETURNING id
+        `;
+
+        if (!deleted) {
+            throw APIError.notFound("Tag not found");
+        }
+
+        return { success: true };
+    }
+);
+
+function normalizeTagName(name: string): string {
+    const trimmed = name?.trim().replace(/\s+/g, ' ') ?? '';
+    if (!trimmed) {
+        throw APIError.invalidArgument("Tag name is required");
+    }
+    if (trimmed.length > 50) {
+        throw APIError.invalidArgument("Tag name must be at most 50 characters");
+    }
+    return trimmed;
+}
+
+async function findTag(id: string, message = "Tag not found"): Promise<Tag> {
+    const tag = await db.queryRow<Tag>`
+        SELECT id, name, created_at FROM tags WHERE id = ${id}
+    `;
+
+    if (!tag) {
+        throw APIError.notFound(message);
+    }
+    return tag;
+}
+
+async function findTagWithUsage(id: string): Promise<TagWithUsage> {
+    const tag = await db.queryRow<TagWithUsage>`
+        SELECT t.id, t.name, t.created_at,
+               (SELECT COUNT(*)::int FROM content_tags WHERE tag_id = t.id) AS usage_count
+        FROM tags t
+        WHERE t.id = ${id}
+    `;
+
+    if (!tag) {
+        throw APIError.notFound("Tag not found");
+    }
+    return tag;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { buildCategoryTree } from "./tree";
+import { CategoryWithUsage } from "./types";
+
+const category = (id: string, name: string, parent_id?: string): CategoryWithUsage => ({
+    id,
+    name,
+    slug: name.toLowerCase(),
+    parent_id,
+    usage_count: 0,
+    created_at: new Date()
+});
+
+describe("buildCategoryTree", () => {
+    it("should nest children under their parents", () => {
+        const tree = buildCategoryTree([
+            category("1", "Tech"),
+            category("2", "Web", "1"),
+            category("3", "React", "2"),
+            category("4", "News")
+        ]);
+
+        expect(tree.map(node => node.name)).toEqual(["News", "Tech"]);
+        expect(tree[1].children[0].name).toBe("Web");
+        expect(tree[1].children[0].children[0].name).toBe("React");
+    });
+
+    it("should sort siblings by name", () => {
+        const tree = buildCategoryTree([
+            category("1", "Root"),
+            category("2", "Zeta", "1"),
+            category("3", "Alpha", "1")
+        ]);
+
+        expect(tree[0].children.map(node => node.name)).toEqual(["Alpha", "Zeta"]);
+    });
+
+    it("should treat orphans as roots", () => {
+        const tree = buildCategoryTree([category("2", "Orphan", "missing")]);
+
+        expect(tree).toHaveLength(1);
+        expect(tree[0].children).toEqual([]);
+    });
+});
@@ -0,0 +1,30 @@
+import { CategoryNode, CategoryWithUsage } from "./types";
+
+/**
+ * Assemble flat category rows into a tree ordered by name.
+ * Rows whose parent is missing from the input are treated as roots.
+ */
+export function buildCategoryTree(rows: CategoryWithUsage[]): CategoryNode[] {
+    const nodes = new Map<string, CategoryNode>();
+    for (const row of rows) {
+        nodes.set(row.id, { ...row, children: [] });
+    }
+
+    const roots: CategoryNode[] = [];
+    for (const node of nodes.values()) {
+        const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    }
+
+    const sortByName = (list: CategoryNode[]) => {
+        list.sort((a, b) => a.name.localeCompare(b.name));
+        list.forEach(node => sortByName(node.children));
+    };
+    sortByName(roots);
+
+    return roots;
+}
@@ -2,6 +2,8 @@
 
 export type ContentStatus = 'draft' | 'review' | 'published' | 'archived';
 export type ContentType = 'article' | 'page' | 'blog_post';
+export type ContentSortKey = 'created_at' | 'updated_at' | 'published_at' | 'title';
+export type MediaUsageKind = 'body' | 'featured';
 
 export interface Category {
     id: string;
@@ -28,30 +30,179 @@ export interface ContentItem {
     type: ContentType;
     author_id: string;
     category_id?: string;
+    featured_media_id?: string;
     published_at?: Date;
+    scheduled_for?: Date;
+    unpublish_at?: Date;
     created_at: Date;
     updated_at: Date;
 }
 
 export interface CreateContentRequest {
     title: string;
+    slug?: string;
     content?: string;
     excerpt?: string;
     type: ContentType;
     category_id?: string;
+    featured_media_id?: string;
     tag_ids?: string[];
 }
 
 export interface UpdateContentRequest {
     title?: string;
+    slug?: string;
     content?: string;
     excerpt?: string;
     status?: ContentStatus;
-    category_id?: string;
+    // null takes the item out of its category
+    category_id?: string | null;
+    // null removes the featured image
+    featured_media_id?: string | null;
     tag_ids?: string[];
 }
 
 export interface ContentWithDetails extends ContentItem {
     category?: Category;
     tags: Tag[];
+}
+
+export interface ContentRevision {
+    id: string;
+    content_id: string;
+    revision_number: number;
+    title: string;
+    content?: string;
+    excerpt?: string;
+    status: ContentStatus;
+    author_id: string;
+    created_at: Date;
+}
+
+export interface ListRevisionsResponse {
+    revisions: ContentRevision[];
+}
+
+export type DiffLineType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+}
+
+export interface FieldDiff {
+    field: 'title' | 'excerpt' | 'content' | 'status';
+    lines: DiffLine[];
+}
+
+export interface RevisionDiffResponse {
+    from: number;
+    to: number;
+    changes: FieldDiff[];
+}
+
+export interface MediaUsage {
+    content_id: string;
+    title: string;
+    status: ContentStatus;
+    usage: MediaUsageKind;
+}
+
+export interface GetMediaUsageResponse {
+    usages: MediaUsage[];
+}
+
+export interface ScheduleContentRequest {
+    publish_at?: Date;
+    unpublish_at?: Date;
+}
+
+export interface ScheduledRunResponse {
+    published: number;
+    unpublished: number;
+}
+
+export interface ContentBySlugResponse {
+    content: ContentWithDetails;
+    // Set when the requested slug is an old one; clients should redirect here
+    redirect_to?: string;
+}
+
+export interface CategoryWithUsage extends Category {
+    usage_count: number;
+}
+
+export interface CategoryNode extends CategoryWithUsage {
+    children: CategoryNode[];
+}
+
+export interface CreateCategoryRequest {
+    name: string;
+    slug?: string;
+    description?: string;
+    parent_id?: string;
+}
+
+export interface UpdateCategoryRequest {
+    name?: string;
+    slug?: string;
+    description?: string;
+}
+
+export interface MoveCategoryRequest {
+    // Omit to move the category to the top level
+    parent_id?: string;
+}
+
+export interface ListCategoriesResponse {
+    categories: CategoryWithUsage[];
+}
+
+export interface CategoryTreeResponse {
+    tree: CategoryNode[];
+}
+
+export interface TagWithUsage extends Tag {
+    usage_count: number;
+}
+
+export interface ListTagsResponse {
+    tags: TagWithUsage[];
+}
+
+export interface TagRequest {
+    name: string;
+}
+
+export interface MergeTagRequest {
+    target_id: string;
+}
+
+export interface SearchContentRequest {
+    q: string;
+    status?: ContentStatus;
+    type?: ContentType;
+    category_id?: string;
+    tag_id?: string;
+    author_id?: string;
+    // Date range, matched against published_at (created_at for unpublished items)
+    from?: Date;
+    to?: Date;
+    page?: number;
+    limit?: number;
+}
+
+export interface SearchResult {
+    item: ContentItem;
+    rank: number;
+    // Title and body excerpts with matches wrapped in <mark></mark>
+    title_highlight: string;
+    snippet: string;
+}
+
+export interface SearchContentResponse {
+    results: SearchResult[];
+    total: number;
+    page: number;
+    limit: number;
 }
\ No newline at end of file
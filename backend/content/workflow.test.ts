@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { canTransition, requiresPublishPermission, STATUS_TRANSITIONS } from "./workflow";
+import { ContentStatus } from "./types";
+
+describe("Content Workflow", () => {
+    describe("canTransition", () => {
+        it("should allow the forward workflow", () => {
+            expect(canTransition('draft', 'review')).toBe(true);
+            expect(canTransition('review', 'published')).toBe(true);
+            expect(canTransition('published', 'archived')).toBe(true);
+        });
+
+        it("should allow sending review back to draft and reopening archived items", () => {
+            expect(canTransition('review', 'draft')).toBe(true);
+            expect(canTransition('archived', 'draft')).toBe(true);
+        });
+
+        it("should reject skipping steps", () => {
+            expect(canTransition('draft', 'published')).toBe(false);
+            expect(canTransition('draft', 'archived')).toBe(false);
+            expect(canTransition('review', 'archived')).toBe(false);
+            expect(canTransition('archived', 'published')).toBe(false);
+            expect(canTransition('published', 'draft')).toBe(false);
+        });
+
+        it("should allow keeping the same status", () => {
+            const statuses = Object.keys(STATUS_TRANSITIONS) as ContentStatus[];
+            statuses.forEach(status => {
+                expect(canTransition(status, status)).toBe(true);
+            });
+        });
+    });
+
+    describe("requiresPublishPermission", () => {
+        it("should require publish rights to publish or unpublish", () => {
+            expect(requiresPublishPermission('review', 'published')).toBe(true);
+            expect(requiresPublishPermission('published', 'archived')).toBe(true);
+        });
+
+        it("should not require publish rights for draft and review moves", () => {
+            expect(requiresPublishPermission('draft', 'review')).toBe(false);
+            expect(requiresPublishPermission('review', 'draft')).toBe(false);
+            expect(requiresPublishPermission('published', 'published')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,23 @@
+import { ContentStatus } from "./types";
+
+// Allowed status moves: draft → review → published → archived.
+// Reviewers can send an item back to draft, and archived items can be reopened as drafts.
+export const STATUS_TRANSITIONS: Record<ContentStatus, readonly ContentStatus[]> = {
+    draft: ['review'],
+    review: ['draft', 'published'],
+    published: ['archived'],
+    archived: ['draft'],
+};
+
+export function canTransition(from: ContentStatus, to: ContentStatus): boolean {
+    // Saving without a status change is always allowed
+    if (from === to) {
+        return true;
+    }
+    return STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Moving into or out of the published state is an editorial decision
+export function requiresPublishPermission(from: ContentStatus, to: ContentStatus): boolean {
+    return from !== to && (to === 'published' || from === 'published');
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mailer } from "~encore/clients";
+import { db, useTransport } from "./mailer";
+import { MAX_ATTEMPTS } from "./queue";
+import { OutgoingMail } from "./transports";
+
+class RecordingTransport {
+    sent: OutgoingMail[] = [];
+    failing = false;
+
+    async send(mail: OutgoingMail): Promise<void> {
+        if (this.failing) {
+            throw new Error("connection refused");
+        }
+        this.sent.push(mail);
+    }
+}
+
+describe("Mailer", () => {
+    let transport: RecordingTransport;
+
+    const row = async (id: string) => (await db.queryRow<{ status: string; attempts: number; last_error: string | null }>`
+        SELECT status, attempts, last_error FROM email_outbox WHERE id = ${id}
+    `)!;
+    const body = async (id: string) => (await db.queryRow<{ html: string; text: string }>`
+        SELECT html, text FROM email_outbox WHERE id = ${id}
+    `)!;
+    const makeDue = (id: string) => db.exec`UPDATE email_outbox SET next_attempt_at = NOW() - INTERVAL '1 second' WHERE id = ${id}`;
+
+    beforeEach(async () => {
+        await db.exec`DELETE FROM email_outbox`;
+        transport = new RecordingTransport();
+        useTransport(transport);
+    });
+
+    afterEach(() => {
+        useTransport(undefined);
+    });
+
+    it("should render and send right away", async () => {
+        const result = await mailer.sendEmail({
+            to: "user@example.com",
+            message: { template: "password_reset", token: "abc", expires_in_minutes: 60 }
+        });
+
+        expect(result.status).toBe("sent");
+        expect(transport.sent).toHaveLength(1);
+        expect(transport.sent[0].to).toBe("user@example.com");
+        expect(transport.sent[0].text).toContain("/reset-password?token=abc");
+        expect(await row(result.id)).toEqual({ status: "sent", attempts: 1, last_error: null });
+        expect(await body(result.id)).toEqual({ html: "", text: "" });
+    });
+
+    it("should keep failed sends queued and retry them when due", async () => {
+        transport.failing = true;
+        const result = await mailer.sendEmail({ to: "user@example.com", message: { template: "email_verification", token: "t" } });
+
+        expect(result.status).toBe("queued");
+        expect(await row(result.id)).toEqual({ status: "queued", attempts: 1, last_error: "connection refused" });
+        expect((await body(result.id)).text).toContain("/verify-email?token=t");
+
+        // Not due yet
+        expect(await mailer.retryQueuedEmails()).toEqual({ attempted: 0, sent: 0 });
+
+        transport.failing = false;
+        await makeDue(result.id);
+        expect(await mailer.retryQueuedEmails()).toEqual({ attempted: 1, sent: 1 });
+        expect((await row(result.id)).status).toBe("sent");
+    });
+
+    it("should give up after the last attempt", async () => {
+        transport.failing = true;
+        const result = await mailer.sendEmail({ to: "user@example.com", message: { template: "welcome", email: "user@example.com" } });
+
+        for (let attempt = 2; attempt <= MAX_ATTEMPTS; attempt++) {
+            await makeDue(result.id);
+            await mailer.retryQueuedEmails();
+        }
+
+        expect(await row(result.id)).toEqual({ status: "failed", attempts: MAX_ATTEMPTS, last_error: "connection refused" });
+        expect(await body(result.id)).toEqual({ html: "", text: "" });
+        await makeDue(result.id);
+        expect(await mailer.retryQueuedEmails()).toEqual({ attempted: 0, sent: 0 });
+    });
+});
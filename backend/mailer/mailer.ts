@@ -0,0 +1,179 @@
+import { api } from "encore.dev/api";
+import { secret } from "encore.dev/config";
+import { CronJob } from "encore.dev/cron";
+import { Subscription } from "encore.dev/pubsub";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { userRegistered } from "../auth/events";
+import { renderEmail } from "./templates";
+import { MailTransport, transportFor } from "./transports";
+import { nextAttemptAt } from "./queue";
+import {
+    EmailMessage,
+    EmailStatus,
+    EmailTemplate,
+    SendEmailRequest,
+    SendEmailResponse,
+    RetryEmailsResponse
+} from "./types";
+
+export const db = new SQLDatabase("mailer", {
+    migrations: "./migrations",
+});
+
+// An smtp:// or smtps:// URL, credentials included; when unset, mail goes to the outbox directory
+const SMTP_URL = secret("SMTP_URL");
+
+const MAIL_FROM = process.env.MAIL_FROM ?? "CMS <no-reply@localhost>";
+const APP_URL = process.env.APP_URL ?? "http://localhost:5173";
+const OUTBOX_DIRECTORY = process.env.MAIL_OUTBOX_DIR ?? ".mail-outbox";
+
+// A claimed row is left alone by other retry runs for this long
+const CLAIM_MINUTES = 5;
+const RETRY_BATCH_SIZE = 50;
+
+interface QueuedEmail {
+    id: string;
+    template: EmailTemplate;
+    recipient: string;
+    subject: string;
+    html: string;
+    text: string;
+    attempts: number;
+}
+
+let transport: MailTransport | undefined;
+
+function mailTransport(): MailTransport {
+    if (!transport) {
+        let smtpUrl: string | undefined;
+        try {
+            smtpUrl = SMTP_URL();
+        } catch {
+            smtpUrl = undefined;
+        }
+        transport = transportFor(smtpUrl, OUTBOX_DIRECTORY);
+    }
+    return transport;
+}
+
+// Swap the transport, e.g. for one that fails in tests
+export function useTransport(replacement: MailTransport | undefined): void {
+    transport = replacement;
+}
+
+/**
+ * Render and queue an email, then try to send it straight away. A failed
+ * send is not an error for the caller: the message stays queued and the
+ * retry job picks it up.
+ */
+export async function queueEmail(to: string, message: EmailMessage): Promise<SendEmailResponse> {
+    const rendered = renderEmail(message, APP_URL);
+
+    const email = await db.queryRow<QueuedEmail>`
+        INSERT INTO email_outbox (template, recipient, subject, html, text, next_attempt_at)
+        VALUES (${message.template}, ${to}, ${rendered.subject}, ${rendered.html}, ${rendered.text}, ${claimedUntil()})
+        RETURNING id, template, recipient, subject, html, text, attempts
+    `;
+
+    if (!email) {
+        throw new Error("Failed to queue email");
+    }
+
+    return { id: email.id, status: await attempt(email) };
+}
+
+function claimedUntil(): Date {
+    return new Date(Date.now() + CLAIM_MINUTES * 60 * 1000);
+}
+
+async function attempt(email: QueuedEmail): Promise<EmailStatus> {
+    const attempts = email.attempts + 1;
+
+    try {
+        await mailTransport().send({
+            id: email.id,
+            from: MAIL_FROM,
+            to: email.recipient,
+            subject: email.subject,
+            html: email.html,
+            text: email.text,
+        });
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const retryAt = nextAttemptAt(attempts);
+        const status: EmailStatus = retryAt ? 'queued' : 'failed';
+        console.error(`Sending ${email.template} email ${email.id} failed (attempt ${attempts}):`, reason);
+
+        // A message that is given up on loses its body like a sent one
+        await db.exec`
+            UPDATE email_outbox
+            SET status = ${status}, attempts = ${attempts}, last_error = ${reason},
+                next_attempt_at = ${retryAt ?? new Date()},
+                html = CASE WHEN ${status === 'failed'} THEN '' ELSE html END,
+                text = CASE WHEN ${status === 'failed'} THEN '' ELSE text END
+            WHERE id = ${email.id}
+        `;
+        return status;
+    }
+
+    // Reset and verification links carry live tokens, so bodies are only kept while a retry may need them
+    await db.exec`
+        UPDATE email_outbox
+        SET status = 'sent', attempts = ${attempts}, last_error = NULL, sent_at = NOW(), html = '', text = ''
+        WHERE id = ${email.id}
+    `;
+    return 'sent';
+}
+
+export const sendEmail = api(
+    { method: "POST", path: "/internal/email" },
+    async ({ to, message }: SendEmailRequest): Promise<SendEmailResponse> => {
+        return await queueEmail(to, message);
+    }
+);
+
+// Send queued emails whose next attempt is due (Cron Job)
+export const retryQueuedEmails = api(
+    { method: "POST", path: "/internal/email/retry" },
+    async (): Promise<RetryEmailsResponse> => {
+        // Claiming pushes next_attempt_at out, so overlapping runs skip these rows
+        const claimed = db.query<QueuedEmail>`
+            UPDATE email_outbox
+            SET next_attempt_at = ${claimedUntil()}
+            WHERE id IN (
+                SELECT id FROM email_outbox
+                WHERE status = 'queued' AND next_attempt_at <= NOW()
+                ORDER BY next_attempt_at
+                LIMIT ${RETRY_BATCH_SIZE}
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING id, template, recipient, subject, html, text, attempts
+        `;
+
+        const due: QueuedEmail[] = [];
+        for await (const email of claimed) {
+            due.push(email);
+        }
+
+        let sent = 0;
+        for (const email of due) {
+            if (await attempt(email) === 'sent') {
+                sent++;
+            }
+        }
+
+        return { attempted: due.length, sent };
+    }
+);
+
+const _ = new CronJob("email-retry", {
+    title: "Retry queued emails",
+    every: "1m",
+    endpoint: retryQueuedEmails,
+});
+
+const _welcome = new Subscription(userRegistered, "send-welcome-email", {
+    handler: async (event) => {
+        await queueEmail(event.email, { template: 'welcome', email: event.email });
+    },
+});
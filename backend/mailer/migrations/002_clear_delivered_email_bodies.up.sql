@@ -0,0 +1,2 @@
+-- Sent and abandoned emails no longer need their bodies, which may hold live reset or verification tokens
+UPDATE email_outbox SET html = '', text = '' WHERE status <> 'queued';
@@ -0,0 +1,16 @@
+import { describe, it, expect } from "vitest";
+import { nextAttemptAt, MAX_ATTEMPTS } from "./queue";
+
+describe("nextAttemptAt", () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+
+    it("should back off after each failure", () => {
+        expect(nextAttemptAt(1, now)).toEqual(new Date("2026-01-01T00:01:00Z"));
+        expect(nextAttemptAt(2, now)).toEqual(new Date("2026-01-01T00:05:00Z"));
+        expect(nextAttemptAt(MAX_ATTEMPTS - 1, now)).toEqual(new Date("2026-01-01T04:00:00Z"));
+    });
+
+    it("should give up after the last attempt", () => {
+        expect(nextAttemptAt(MAX_ATTEMPTS, now)).toBeUndefined();
+    });
+});
@@ -0,0 +1,16 @@
+// Wait before each retry of a failed send; after the last one the email is marked failed
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240];
+
+export const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+/**
+ * When to try again after the given number of failed attempts, or undefined
+ * once the retries are used up.
+ */
+export function nextAttemptAt(attempts: number, now = new Date()): Date | undefined {
+    const minutes = RETRY_DELAYS_MINUTES[attempts - 1];
+    if (minutes === undefined) {
+        return undefined;
+    }
+    return new Date(now.getTime() + minutes * 60 * 1000);
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { renderEmail, escapeHtml } from "./templates";
+
+const APP_URL = "http://localhost:5173/";
+
+describe("renderEmail", () => {
+    it("should link password resets to the frontend with the token", () => {
+        const email = renderEmail({ template: "password_reset", token: "a b", expires_in_minutes: 60 }, APP_URL);
+
+        expect(email.subject).toBe("Reset your password");
+        expect(email.text).toContain("Reset password: http://localhost:5173/reset-password?token=a%20b");
+        expect(email.text).toContain("expires in 60 minutes");
+        expect(email.html).toContain('href="http://localhost:5173/reset-password?token=a%20b"');
+    });
+
+    it("should link verification emails to the verify page", () => {
+        const email = renderEmail({ template: "email_verification", token: "tok" }, APP_URL);
+
+        expect(email.text).toContain("http://localhost:5173/verify-email?token=tok");
+    });
+
+    it("should escape user content in HTML but not in plaintext", () => {
+        const email = renderEmail({ template: "notification", title: "New <b>post</b>", message: "Tom & Jerry" }, APP_URL);
+
+        expect(email.subject).toBe("New <b>post</b>");
+        expect(email.html).toContain("<h1 style=\"font-size: 20px;\">New &lt;b&gt;post&lt;/b&gt;</h1>");
+        expect(email.html).toContain("<p>Tom &amp; Jerry</p>");
+        expect(email.text).toContain("Tom & Jerry");
+        expect(email.text).toContain("http://localhost:5173/settings");
+    });
+
+    it("should summarise digests in the subject", () => {
+        const item = { title: "Content published", message: '"Launch" is now live', created_at: new Date() };
+
+        expect(renderEmail({ template: "notification_digest", items: [item] }, APP_URL).subject)
+            .toBe("1 new notification: Content published");
+
+        const digest = renderEmail({ template: "notification_digest", items: [item, item, item] }, APP_URL);
+        expect(digest.subject).toBe("3 new notifications");
+        expect(digest.text.match(/Content published:/g)).toHaveLength(3);
+    });
+});
+
+describe("escapeHtml", () => {
+    it("should escape markup and quotes", () => {
+        expect(escapeHtml(`<a href="x">'&'</a>`)).toBe("&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;");
+    });
+});
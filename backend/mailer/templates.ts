@@ -0,0 +1,99 @@
+import { DigestItem, EmailMessage, RenderedEmail } from "./types";
+
+const PRODUCT_NAME = "CMS";
+
+interface Section {
+    subject: string;
+    // Paragraphs of plain text; escaped for the HTML version
+    paragraphs: string[];
+    action?: { label: string; url: string };
+    footer?: string;
+}
+
+/**
+ * Render a message into a subject with HTML and plaintext bodies. Links point
+ * at the frontend under appUrl.
+ */
+export function renderEmail(message: EmailMessage, appUrl: string): RenderedEmail {
+    const base = appUrl.replace(/\/+$/, '');
+    const settings = `Manage which emails you get at ${base}/settings`;
+
+    switch (message.template) {
+        case 'password_reset':
+            return layout({
+                subject: "Reset your password",
+                paragraphs: [
+                    "Someone asked to reset the password for your account.",
+                    `The link below works once and expires in ${message.expires_in_minutes} minutes. If this wasn't you, you can ignore this email.`,
+                ],
+                action: { label: "Reset password", url: `${base}/reset-password?token=${encodeURIComponent(message.token)}` },
+            });
+
+        case 'email_verification':
+            return layout({
+                subject: "Confirm your email address",
+                paragraphs: ["Confirm this is your email address to finish setting up your account."],
+                action: { label: "Verify email", url: `${base}/verify-email?token=${encodeURIComponent(message.token)}` },
+            });
+
+        case 'welcome':
+            return layout({
+                subject: `Welcome to ${PRODUCT_NAME}`,
+                paragraphs: [`Your account for ${message.email} is ready.`],
+                action: { label: "Open the dashboard", url: `${base}/dashboard` },
+            });
+
+        case 'notification':
+            return layout({
+                subject: message.title,
+                paragraphs: [message.message],
+                action: { label: "View notifications", url: `${base}/notifications` },
+                footer: settings,
+            });
+
+        case 'notification_digest':
+            return layout({
+                subject: digestSubject(message.items),
+                paragraphs: message.items.map(item => `${item.title}: ${item.message}`),
+                action: { label: "View notifications", url: `${base}/notifications` },
+                footer: settings,
+            });
+    }
+}
+
+function digestSubject(items: DigestItem[]): string {
+    return items.length === 1
+        ? `1 new notification: ${items[0].title}`
+        : `${items.length} new notifications`;
+}
+
+function layout(section: Section): RenderedEmail {
+    const text = [
+        ...section.paragraphs,
+        ...(section.action ? [`${section.action.label}: ${section.action.url}`] : []),
+        ...(section.footer ? ["--", section.footer] : []),
+    ].join("\n\n") + "\n";
+
+    const html = [
+        '<!doctype html>',
+        '<html><body style="font-family: sans-serif; line-height: 1.5; color: #222;">',
+        `<h1 style="font-size: 20px;">${escapeHtml(section.subject)}</h1>`,
+        ...section.paragraphs.map(p => `<p>${escapeHtml(p)}</p>`),
+        ...(section.action
+            ? [`<p><a href="${escapeHtml(section.action.url)}" style="display: inline-block; padding: 10px 16px; background: #1976d2; color: #fff; text-decoration: none; border-radius: 4px;">${escapeHtml(section.action.label)}</a></p>`]
+            : []),
+        ...(section.footer ? [`<p style="color: #777; font-size: 12px;">${escapeHtml(section.footer)}</p>`] : []),
+        '</body></html>',
+    ].join("\n");
+
+    return { subject: section.subject, html, text };
+}
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,245 @@
+import net from "node:net";
+import tls from "node:tls";
+import os from "node:os";
+import path from "node:path";
+import { mkdir, writeFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+
+export interface OutgoingMail {
+    id: string;
+    from: string;
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export interface MailTransport {
+    send(mail: OutgoingMail): Promise<void>;
+}
+
+// Give up on an SMTP server that stops answering
+const SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * Build the raw RFC 5322 message: multipart/alternative with a plaintext
+ * and an HTML part, both base64 encoded so any content survives transport.
+ */
+export function formatMessage(mail: OutgoingMail, date = new Date()): string {
+    const boundary = `=_${randomBytes(12).toString("hex")}`;
+    const domain = addressOf(mail.from).split("@")[1] ?? "localhost";
+
+    return [
+        `From: ${mail.from}`,
+        `To: ${mail.to}`,
+        `Subject: ${encodeHeader(mail.subject)}`,
+        `Date: ${date.toUTCString()}`,
+        `Message-ID: <${mail.id}@${domain}>`,
+        "MIME-Version: 1.0",
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        "",
+        `--${boundary}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        base64Lines(mail.text),
+        `--${boundary}`,
+        "Content-Type: text/html; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        base64Lines(mail.html),
+        `--${boundary}--`,
+        "",
+    ].join("\r\n");
+}
+
+// "Name <user@host>" -> "user@host"
+export function addressOf(mailbox: string): string {
+    const match = mailbox.match(/<([^>]+)>/);
+    return (match ? match[1] : mailbox).trim();
+}
+
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value)
+        ? value
+        : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+    return Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g)?.join("\r\n") ?? "";
+}
+
+/**
+ * Writes each message as an .eml file instead of sending it. For local
+ * development and tests: open the files in a mail client to see the result.
+ */
+export class OutboxTransport implements MailTransport {
+    constructor(private readonly directory: string) {}
+
+    async send(mail: OutgoingMail): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        await writeFile(path.join(this.directory, `${stamp}-${mail.id}.eml`), formatMessage(mail));
+    }
+}
+
+/**
+ * Minimal SMTP client. smtps:// connects over TLS; smtp:// upgrades with
+ * STARTTLS when the server offers it. Credentials in the URL are sent with
+ * AUTH PLAIN, and only over TLS: a server that doesn't offer STARTTLS (or
+ * an attacker stripping it) never sees the password.
+ */
+export class SmtpTransport implements MailTransport {
+    constructor(private readonly url: URL) {}
+
+    async send(mail: OutgoingMail): Promise<void> {
+        const secure = this.url.protocol === "smtps:";
+        const host = this.url.hostname;
+        const port = Number(this.url.port) || (secure ? 465 : 587);
+        const greeting = `EHLO ${os.hostname()}`;
+
+        const connection = await SmtpConnection.open(host, port, secure);
+        try {
+            await connection.expect(220);
+            const features = await connection.command(greeting, 250);
+
+            let encrypted = secure;
+            if (!secure && /^STARTTLS$/im.test(features)) {
+                await connection.command("STARTTLS", 220);
+                await connection.upgrade(host);
+                await connection.command(greeting, 250);
+                encrypted = true;
+            }
+
+            if (this.url.username) {
+                if (!encrypted) {
+                    throw new Error(`SMTP server ${host} does not offer STARTTLS; refusing to send credentials in cleartext`);
+                }
+                await connection.command(`AUTH PLAIN ${authPlain(this.url)}`, 235);
+            }
+
+            await connection.command(`MAIL FROM:<${addressOf(mail.from)}>`, 250);
+            await connection.command(`RCPT TO:<${addressOf(mail.to)}>`, 250, 251);
+            await connection.command("DATA", 354);
+            // Lines starting with a dot are doubled so they can't end the message early
+            const body = formatMessage(mail).replace(/^\./gm, "..");
+            await connection.command(`${body}\r\n.`, 250);
+            await connection.command("QUIT", 221);
+        } finally {
+            connection.close();
+        }
+    }
+}
+
+// SASL PLAIN response for the credentials in an SMTP URL
+export function authPlain(url: URL): string {
+    return Buffer.from(`\0${decodeURIComponent(url.username)}\0${decodeURIComponent(url.password)}`).toString("base64");
+}
+
+class SmtpConnection {
+    private buffer = "";
+    private lines: string[] = [];
+    private waiting?: { resolve: (reply: string) => void; reject: (error: Error) => void };
+    private failure?: Error;
+
+    private constructor(private socket: net.Socket) {
+        this.listen(socket);
+    }
+
+    static open(host: string, port: number, secure: boolean): Promise<SmtpConnection> {
+        return new Promise((resolve, reject) => {
+            const socket = secure
+                ? tls.connect({ host, port, servername: host }, () => resolve(new SmtpConnection(socket)))
+                : net.connect({ host, port }, () => resolve(new SmtpConnection(socket)));
+            socket.once("error", reject);
+            socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`SMTP connection to ${host} timed out`)));
+        });
+    }
+
+    async command(line: string, ...accepted: number[]): Promise<string> {
+        this.socket.write(`${line}\r\n`);
+        return this.expect(...accepted);
+    }
+
+    // Resolves with the full reply text once its final line has arrived
+    async expect(...accepted: number[]): Promise<string> {
+        const reply = await this.nextReply();
+        const code = Number(reply.slice(0, 3));
+        if (!accepted.includes(code)) {
+            throw new Error(`SMTP server replied: ${reply.replace(/\r?\n/g, " ")}`);
+        }
+        return reply.split("\n").map(line => line.slice(4)).join("\n");
+    }
+
+    upgrade(host: string): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.socket.removeAllListeners("data");
+            const secured = tls.connect({ socket: this.socket, servername: host }, () => resolve());
+            secured.once("error", reject);
+            this.socket = secured;
+            this.listen(secured);
+        });
+    }
+
+    close(): void {
+        this.socket.end();
+    }
+
+    private listen(socket: net.Socket): void {
+        socket.setEncoding("utf8");
+        socket.on("data", (chunk: string) => {
+            this.buffer += chunk;
+            let end: number;
+            while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+                this.lines.push(this.buffer.slice(0, end));
+                this.buffer = this.buffer.slice(end + 2);
+            }
+            this.settle();
+        });
+        socket.on("error", (error) => {
+            this.failure = error;
+            this.settle();
+        });
+        socket.on("close", () => {
+            this.failure ??= new Error("SMTP connection closed");
+            this.settle();
+        });
+    }
+
+    private nextReply(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+            this.settle();
+        });
+    }
+
+    // A reply is complete at the first line with a space after the code ("250 OK" rather than "250-...")
+    private settle(): void {
+        if (!this.waiting) {
+            return;
+        }
+
+        const last = this.lines.findIndex(line => line.length < 4 || line[3] === " ");
+        if (last >= 0) {
+            const reply = this.lines.splice(0, last + 1).join("\n");
+            const { resolve } = this.waiting;
+            this.waiting = undefined;
+            resolve(reply);
+        } else if (this.failure) {
+            const { reject } = this.waiting;
+            this.waiting = undefined;
+            reject(this.failure);
+        }
+    }
+}
+
+/**
+ * Pick a transport from the SMTP_URL setting: an smtp:// or smtps:// URL
+ * sends for real, anything else writes to the outbox directory.
+ */
+export function transportFor(smtpUrl: string | undefined, outboxDirectory: string): MailTransport {
+    if (smtpUrl && /^smtps?:\/\//.test(smtpUrl)) {
+        return new SmtpTransport(new URL(smtpUrl));
+    }
+    return new OutboxTransport(outboxDirectory);
+}
@@ -0,0 +1,71 @@
+export type EmailTemplate =
+    | 'password_reset'
+    | 'email_verification'
+    | 'welcome'
+    | 'notification'
+    | 'notification_digest';
+
+export interface PasswordResetEmail {
+    template: 'password_reset';
+    token: string;
+    expires_in_minutes: number;
+}
+
+export interface VerificationEmail {
+    template: 'email_verification';
+    token: string;
+}
+
+export interface WelcomeEmail {
+    template: 'welcome';
+    email: string;
+}
+
+// A single notification sent straight away on the email channel
+export interface NotificationEmail {
+    template: 'notification';
+    title: string;
+    message: string;
+}
+
+export interface DigestItem {
+    title: string;
+    message: string;
+    created_at: Date;
+}
+
+export interface NotificationDigestEmail {
+    template: 'notification_digest';
+    items: DigestItem[];
+}
+
+export type EmailMessage =
+    | PasswordResetEmail
+    | VerificationEmail
+    | WelcomeEmail
+    | NotificationEmail
+    | NotificationDigestEmail;
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+// queued: waiting for its first or next attempt; failed: gave up after the last retry
+export type EmailStatus = 'queued' | 'sent' | 'failed';
+
+export interface SendEmailRequest {
+    to: string;
+    message: EmailMessage;
+}
+
+export interface SendEmailResponse {
+    id: string;
+    status: EmailStatus;
+}
+
+export interface RetryEmailsResponse {
+    attempted: number;
+    sent: number;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { content, media } from "~encore/clients";
+import { db } from "./media";
+import { uploadFile } from "./testing";
+import { randomUUID } from "crypto";
+
+// uploadMedia is a raw endpoint and runs in-process; see ./testing
+vi.mock("~encore/auth", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("~encore/auth")>();
+    const { rawCaller } = await import("./testing");
+    return { ...actual, getAuthData: () => rawCaller.getStore() ?? actual.getAuthData() };
+});
+
+const authAs = (userID: string, roles: string[] = ["editor"]) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
+
+const PDF = Buffer.from("%PDF-1.7\n");
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("Media delivery URLs", () => {
+    const editorId = randomUUID();
+    const editor = authAs(editorId);
+
+    const attachTo = (mediaId: string) => content.createContent({
+        title: `Attachment ${randomUUID()}`,
+        type: "article",
+        content: `[Download](/media/${mediaId}/file)`
+    }, editor);
+
+    beforeEach(async () => {
+        await db.exec`DELETE FROM media_folder_items`;
+        await db.exec`DELETE FROM media_items`;
+    });
+
+    it("should issue short-lived private URLs for unpublished media", async () => {
+        const item = await uploadFile({ file: PDF, filename: "draft.pdf" }, editorId);
+        await attachTo(item.id);
+
+        const result = await media.getMediaUrl({ id: item.id }, authAs(randomUUID(), ["viewer"]));
+
+        expect(result.public).toBe(false);
+        expect(result.url).toMatch(new RegExp(`^/media/${item.id}/file\\?expires=\\d+&sig=`));
+        expect(new Date(result.expires_at).getTime() - Date.now()).toBeLessThanOrEqual(15 * 60 * 1000);
+    });
+
+    it("should bind URLs to the caller on request and honour expires_in", async () => {
+        const item = await uploadFile({ file: PDF, filename: "mine.pdf" }, editorId);
+
+        const result = await media.getMediaUrl({ id: item.id, expires_in: 60, bind_to_user: true }, editor);
+
+        expect(new URL(result.url, "http://localhost").searchParams.get("user")).toBe(editorId);
+        expect(new Date(result.expires_at).getTime() - Date.now()).toBeLessThanOrEqual(60 * 1000);
+        await expect(media.getMediaUrl({ id: item.id, expires_in: 2 * DAY / 1000 }, editor))
+            .rejects.toThrow("expires_in must be between 1 and 86400 seconds");
+    });
+
+    it("should give published media long-lived public URLs", async () => {
+        const item = await uploadFile({ file: PDF, filename: "press.pdf" }, editorId);
+        const article = await attachTo(item.id);
+        await content.updateContent({ id: article.id, status: "review" }, editor);
+        await content.updateContent({ id: article.id, status: "published" }, editor);
+
+        const result = await media.getPublicMediaUrl({ id: item.id });
+
+        expect(result.public).toBe(true);
+        expect(result.url).not.toContain("user=");
+        expect(new Date(result.expires_at).getTime() - Date.now()).toBeGreaterThan(300 * DAY);
+
+        const signedIn = await media.getMediaUrl({ id: item.id, bind_to_user: true }, editor);
+        expect(signedIn.public).toBe(true);
+    });
+
+    it("should hide unpublished and unknown media from public URLs", async () => {
+        const item = await uploadFile({ file: PDF, filename: "secret.pdf" }, editorId);
+        await attachTo(item.id);
+
+        await expect(media.getPublicMediaUrl({ id: item.id })).rejects.toThrow("Media not found");
+        await expect(media.getMediaUrl({ id: randomUUID() }, editor)).rejects.toThrow("Media not found");
+    });
+});
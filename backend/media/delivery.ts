@@ -0,0 +1,122 @@
+import { api, APIError } from "encore.dev/api";
+import { secret } from "encore.dev/config";
+import { currentRequest } from "encore.dev";
+import { getAuthData } from "~encore/auth";
+import { content } from "~encore/clients";
+import { requirePermission } from "../auth/permissions";
+import { db, files } from "./media";
+import { sendError } from "./http";
+import { GrantCheck, checkMediaGrant, mediaDeliveryPath } from "./signing";
+import { GetMediaUrlRequest, MediaUrlResponse } from "./types";
+
+// HMAC key for delivery URLs; rotating it invalidates every URL handed out so far
+const MEDIA_URL_SECRET = secret("MEDIA_URL_SECRET");
+
+// Private URLs are short-lived by default and can never outlive a day
+const DEFAULT_PRIVATE_TTL_SECONDS = 15 * 60;
+const MAX_PRIVATE_TTL_SECONDS = 24 * 60 * 60;
+const PUBLIC_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+// Bucket URLs behind a delivery redirect only need to last until the client follows it
+const BUCKET_URL_TTL_SECONDS = 60;
+
+const GRANT_ERRORS: Record<Exclude<GrantCheck, 'valid'>, string> = {
+    invalid: "Invalid media URL signature",
+    expired: "Media URL has expired",
+    wrong_user: "Media URL was issued to another user",
+};
+
+interface StoredMedia {
+    file_path: string;
+}
+
+// A signed delivery URL for any media item; published media gets a long-lived public one
+export const getMediaUrl = api(
+    { method: "GET", path: "/media/:id/url", auth: true, expose: true },
+    async ({ id, expires_in, bind_to_user }: { id: string } & GetMediaUrlRequest): Promise<MediaUrlResponse> => {
+        const userId = requirePermission("media.read").userID;
+
+        await findMedia(id);
+
+        if (await isPublished(id)) {
+            return issueUrl(id, PUBLIC_TTL_SECONDS, true);
+        }
+
+        const ttl = expires_in ?? DEFAULT_PRIVATE_TTL_SECONDS;
+        if (!Number.isInteger(ttl) || ttl <= 0 || ttl > MAX_PRIVATE_TTL_SECONDS) {
+            throw APIError.invalidArgument(`expires_in must be between 1 and ${MAX_PRIVATE_TTL_SECONDS} seconds`);
+        }
+        return issueUrl(id, ttl, false, bind_to_user ? userId : undefined);
+    }
+);
+
+// Public URL for media used by published content; anything else looks missing
+export const getPublicMediaUrl = api(
+    { method: "GET", path: "/media/:id/public-url", expose: true },
+    async ({ id }: { id: string }): Promise<MediaUrlResponse> => {
+        if (!(await isPublished(id))) {
+            throw APIError.notFound("Media not found");
+        }
+
+        await findMedia(id);
+        return issueUrl(id, PUBLIC_TTL_SECONDS, true);
+    }
+);
+
+// Serves the original to holders of a valid signed URL (?expires=...&user=...&sig=...)
+// by redirecting to a short-lived bucket URL, which streams the object and honours Range requests
+export const deliverMedia = api.raw(
+    { method: "GET", path: "/media/:id/file", expose: true },
+    async (req, resp) => {
+        try {
+            const meta = currentRequest();
+            const id = meta?.type === "api-call" ? String(meta.pathParams.id) : "";
+            const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+
+            const grant = {
+                mediaId: id,
+                expires: Number(params.get("expires")),
+                userId: params.get("user") ?? undefined,
+            };
+            const check = checkMediaGrant(grant, params.get("sig") ?? "", MEDIA_URL_SECRET(), getAuthData()?.userID);
+            if (check !== 'valid') {
+                throw APIError.permissionDenied(GRANT_ERRORS[check]);
+            }
+
+            const item = await findMedia(id);
+            const { url } = await files.signedDownloadUrl(item.file_path, { ttl: BUCKET_URL_TTL_SECONDS });
+
+            // Every request gets a fresh bucket URL, so the redirect itself is never cached
+            resp.writeHead(302, { "Location": url, "Cache-Control": "no-store" });
+            resp.end();
+        } catch (error) {
+            sendError(resp, error);
+        }
+    }
+);
+
+function issueUrl(mediaId: string, ttlSeconds: number, isPublic: boolean, userId?: string): MediaUrlResponse {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    return {
+        url: mediaDeliveryPath({ mediaId, expires, userId }, MEDIA_URL_SECRET()),
+        expires_at: new Date(expires * 1000),
+        public: isPublic,
+    };
+}
+
+// Media counts as published while any published content item references it
+export async function isPublished(mediaId: string): Promise<boolean> {
+    const { usages } = await content.getMediaUsage({ mediaId });
+    return usages.some(usage => usage.status === 'published');
+}
+
+async function findMedia(id: string): Promise<StoredMedia> {
+    const item = await db.queryRow<StoredMedia>`
+        SELECT file_path FROM media_items WHERE id = ${id}
+    `;
+
+    if (!item) {
+        throw APIError.notFound("Media not found");
+    }
+    return item;
+}
@@ -0,0 +1,16 @@
+import { Topic } from "encore.dev/pubsub";
+import { MediaType } from "./types";
+
+export interface MediaUploadedEvent {
+    media_id: string;
+    // As uploaded, for display
+    filename: string;
+    type: MediaType;
+    mime_type: string;
+    uploaded_by: string;
+}
+
+// Published after an upload is stored; post-processing subscribes to it
+export const mediaUploaded = new Topic<MediaUploadedEvent>("media-uploaded", {
+    deliveryGuarantee: "at-least-once",
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { sniffMimeType, detectMimeType, mediaTypeFromMime } from "./filetype";
+
+const bytes = (...values: number[]) => Buffer.from(values);
+const text = (value: string) => Buffer.from(value, "latin1");
+
+describe("sniffMimeType", () => {
+    it("should recognise common image formats", () => {
+        expect(sniffMimeType(bytes(0xff, 0xd8, 0xff, 0xdb))).toBe("image/jpeg");
+        expect(sniffMimeType(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a))).toBe("image/png");
+        expect(sniffMimeType(text("GIF89a\x01\x00"))).toBe("image/gif");
+        expect(sniffMimeType(text("RIFF\x24\x00\x00\x00WEBPVP8 "))).toBe("image/webp");
+        expect(sniffMimeType(text("\x00\x00\x00\x1cftypavif"))).toBe("image/avif");
+        expect(sniffMimeType(bytes(0x49, 0x49, 0x2a, 0x00))).toBe("image/tiff");
+    });
+
+    it("should tell ISO media brands apart", () => {
+        expect(sniffMimeType(text("\x00\x00\x00\x18ftypisom"))).toBe("video/mp4");
+        expect(sniffMimeType(text("\x00\x00\x00\x14ftypqt  "))).toBe("video/quicktime");
+        expect(sniffMimeType(text("\x00\x00\x00\x20ftypM4A "))).toBe("audio/mp4");
+        expect(sniffMimeType(text("\x00\x00\x00\x18ftypheic"))).toBe("image/heic");
+    });
+
+    it("should recognise audio and video containers", () => {
+        expect(sniffMimeType(text("\x1a\x45\xdf\xa3\x9f\x42\x82\x84webm"))).toBe("video/webm");
+        expect(sniffMimeType(text("\x1a\x45\xdf\xa3\x9f\x42\x82\x88matroska"))).toBe("video/x-matroska");
+        expect(sniffMimeType(text("RIFF\x24\x00\x00\x00WAVEfmt "))).toBe("audio/wav");
+        expect(sniffMimeType(text("ID3\x04\x00"))).toBe("audio/mpeg");
+        expect(sniffMimeType(bytes(0xff, 0xfb, 0x90, 0x00))).toBe("audio/mpeg");
+        expect(sniffMimeType(bytes(0xff, 0xf1, 0x50, 0x80))).toBe("audio/aac");
+        expect(sniffMimeType(text("OggS\x00\x02"))).toBe("audio/ogg");
+        expect(sniffMimeType(text("fLaC\x00\x00"))).toBe("audio/flac");
+    });
+
+    it("should recognise documents", () => {
+        expect(sniffMimeType(text("%PDF-1.7\n"))).toBe("application/pdf");
+        expect(sniffMimeType(text("PK\x03\x04\x14\x00\x06\x00[Content_Types].xml...word/document.xml")))
+            .toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+        expect(sniffMimeType(text("PK\x03\x04\x14\x00\x00\x00notes.txt"))).toBe("application/zip");
+    });
+
+    it("should return null for unknown or empty input", () => {
+        expect(sniffMimeType(Buffer.alloc(0))).toBeNull();
+        expect(sniffMimeType(text("MZ\x90\x00"))).toBeNull();
+        expect(sniffMimeType(text("RIFF\x24\x00\x00\x00XXXX"))).toBeNull();
+        expect(sniffMimeType(text("<svg xmlns=\"http://www.w3.org/2000/svg\"/>"))).toBeNull();
+    });
+});
+
+describe("detectMimeType", () => {
+    it("should prefer the sniffed type over the declared one", () => {
+        expect(detectMimeType(text("%PDF-1.4"), "image/jpeg")).toBe("application/pdf");
+    });
+
+    it("should accept declared plain-text types only for text content", () => {
+        expect(detectMimeType(Buffer.from("name,email\nAda,ada@example.com\n"), "text/csv; charset=utf-8")).toBe("text/csv");
+        expect(detectMimeType(Buffer.from("Grüße\n"), "text/plain")).toBe("text/plain");
+        expect(detectMimeType(bytes(0x68, 0x00, 0x69), "text/plain")).toBeNull();
+        expect(detectMimeType(bytes(0xc3, 0x28), "text/plain")).toBeNull();
+    });
+
+    it("should not trust declared binary types without a signature", () => {
+        expect(detectMimeType(Buffer.from("not really a video"), "video/mp4")).toBeNull();
+        expect(detectMimeType(Buffer.from("<html><script>alert(1)</script>"), "text/html")).toBeNull();
+    });
+
+    it("should allow a multi-byte character cut off at the end of the sample", () => {
+        const sample = Buffer.from("café").subarray(0, 4);
+
+        expect(detectMimeType(sample, "text/plain")).toBe("text/plain");
+    });
+});
+
+describe("mediaTypeFromMime", () => {
+    it("should group MIME types into media types", () => {
+        expect(mediaTypeFromMime("image/webp")).toBe("image");
+        expect(mediaTypeFromMime("video/quicktime")).toBe("video");
+        expect(mediaTypeFromMime("audio/flac")).toBe("audio");
+        expect(mediaTypeFromMime("application/pdf")).toBe("document");
+        expect(mediaTypeFromMime("text/csv")).toBe("document");
+    });
+});
@@ -0,0 +1,106 @@
+import { MediaType } from "./types";
+
+// Enough leading bytes for every signature below, including OOXML part names
+export const SNIFF_BYTES = 4096;
+
+// Formats without a signature, accepted only when declared and the bytes look like text
+const TEXT_MIME_TYPES = ['text/plain', 'text/csv', 'text/markdown'];
+
+const FTYP_BRANDS: Record<string, string> = {
+    'avif': 'image/avif', 'avis': 'image/avif',
+    'heic': 'image/heic', 'heix': 'image/heic', 'mif1': 'image/heic',
+    'qt  ': 'video/quicktime',
+    'M4A ': 'audio/mp4',
+};
+
+const OOXML_PARTS: [string, string][] = [
+    ['word/', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    ['xl/', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+    ['ppt/', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+];
+
+export function mediaTypeFromMime(mimeType: string): MediaType {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    return 'document';
+}
+
+/**
+ * Identify a file from its magic bytes. Returns null when no known signature
+ * matches; the client-declared type is never trusted for binary formats.
+ */
+export function sniffMimeType(head: Buffer): string | null {
+    const ascii = (start: number, end: number) => head.subarray(start, end).toString('latin1');
+    const startsWith = (...bytes: number[]) => bytes.every((byte, i) => head[i] === byte);
+
+    if (startsWith(0xff, 0xd8, 0xff)) return 'image/jpeg';
+    if (startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a)) return 'image/png';
+    if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') return 'image/gif';
+    if (startsWith(0x49, 0x49, 0x2a, 0x00) || startsWith(0x4d, 0x4d, 0x00, 0x2a)) return 'image/tiff';
+
+    if (ascii(0, 4) === 'RIFF') {
+        const format = ascii(8, 12);
+        if (format === 'WEBP') return 'image/webp';
+        if (format === 'WAVE') return 'audio/wav';
+        if (format === 'AVI ') return 'video/x-msvideo';
+        return null;
+    }
+
+    // ISO base media (MP4, MOV, HEIF, AVIF): box size, then "ftyp" and the major brand
+    if (ascii(4, 8) === 'ftyp') {
+        return FTYP_BRANDS[ascii(8, 12)] ?? 'video/mp4';
+    }
+
+    if (startsWith(0x1a, 0x45, 0xdf, 0xa3)) {
+        return ascii(0, 64).includes('webm') ? 'video/webm' : 'video/x-matroska';
+    }
+
+    if (ascii(0, 4) === 'OggS') return 'audio/ogg';
+    if (ascii(0, 4) === 'fLaC') return 'audio/flac';
+    if (ascii(0, 3) === 'ID3') return 'audio/mpeg';
+    if (head.length > 1 && head[0] === 0xff) {
+        if ((head[1] & 0xf6) === 0xf0) return 'audio/aac';
+        if ((head[1] & 0xe0) === 0xe0) return 'audio/mpeg';
+    }
+
+    if (ascii(0, 5) === '%PDF-') return 'application/pdf';
+
+    if (startsWith(0x50, 0x4b, 0x03, 0x04)) {
+        const names = ascii(0, SNIFF_BYTES);
+        const ooxml = OOXML_PARTS.find(([part]) => names.includes(part));
+        return ooxml ? ooxml[1] : 'application/zip';
+    }
+
+    return null;
+}
+
+/**
+ * Resolve the type to store for an upload: the sniffed type when there is one,
+ * otherwise a declared plain-text type if the bytes are valid UTF-8 text.
+ */
+export function detectMimeType(head: Buffer, declared?: string): string | null {
+    const sniffed = sniffMimeType(head);
+    if (sniffed) {
+        return sniffed;
+    }
+
+    const declaredBase = declared?.split(';')[0].trim().toLowerCase();
+    if (declaredBase && TEXT_MIME_TYPES.includes(declaredBase) && looksLikeText(head)) {
+        return declaredBase;
+    }
+    return null;
+}
+
+function looksLikeText(head: Buffer): boolean {
+    if (head.includes(0)) {
+        return false;
+    }
+    try {
+        // stream: a multi-byte character cut off at the end of the sample is not an error
+        new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+        return true;
+    } catch {
+        return false;
+    }
+}
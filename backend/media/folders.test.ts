@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { content, media } from "~encore/clients";
+import { db, files } from "./media";
+import { uploadFile } from "./testing";
+import { randomUUID } from "crypto";
+
+// uploadMedia is a raw endpoint and runs in-process; see ./testing
+vi.mock("~encore/auth", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("~encore/auth")>();
+    const { rawCaller } = await import("./testing");
+    return { ...actual, getAuthData: () => rawCaller.getStore() ?? actual.getAuthData() };
+});
+
+const authAs = (userID: string, roles: string[] = ["editor"]) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
+
+const PDF = Buffer.from("%PDF-1.7\n");
+
+describe("Media folders", () => {
+    const editorId = randomUUID();
+    const editor = authAs(editorId);
+
+    const folderOf = async (mediaId: string) =>
+        (await db.queryRow<{ folder_id: string }>`SELECT folder_id FROM media_folder_items WHERE media_id = ${mediaId}`)?.folder_id;
+
+    beforeEach(async () => {
+        await db.exec`DELETE FROM media_folder_items`;
+        await db.exec`DELETE FROM media_items`;
+        await db.exec`DELETE FROM media_folders`;
+    });
+
+    it("should create nested folders and list them with counts", async () => {
+        const photos = await media.createFolder({ name: "  Photos " }, editor);
+        const events = await media.createFolder({ name: "Events", parent_id: photos.id }, editor);
+        await uploadFile({ file: PDF, filename: "a.pdf", folder_id: events.id }, editorId);
+
+        const { folders } = await media.listFolders(editor);
+
+        expect(photos.name).toBe("Photos");
+        expect(folders.map(f => [f.name, f.item_count, f.child_count])).toEqual([
+            ["Events", 1, 0],
+            ["Photos", 0, 1],
+        ]);
+    });
+
+    it("should reject duplicate names among siblings only", async () => {
+        const a = await media.createFolder({ name: "A" }, editor);
+        const b = await media.createFolder({ name: "B" }, editor);
+        await media.createFolder({ name: "Logos", parent_id: a.id }, editor);
+
+        await expect(media.createFolder({ name: "logos", parent_id: a.id }, editor))
+            .rejects.toThrow('A folder named "logos" already exists here');
+        await expect(media.createFolder({ name: "Logos", parent_id: b.id }, editor)).resolves.toBeDefined();
+        await expect(media.renameFolder({ id: b.id, name: "a" }, editor))
+            .rejects.toThrow('A folder named "a" already exists here');
+    });
+
+    it("should require media permissions", async () => {
+        await expect(media.createFolder({ name: "Nope" }, authAs(randomUUID(), ["contributor"])))
+            .rejects.toThrow("Missing permission: media.update");
+    });
+
+    it("should rename folders", async () => {
+        const folder = await media.createFolder({ name: "Old" }, editor);
+
+        const renamed = await media.renameFolder({ id: folder.id, name: "New" }, editor);
+
+        expect(renamed.name).toBe("New");
+    });
+
+    it("should move folders and reject cycles", async () => {
+        const a = await media.createFolder({ name: "A" }, editor);
+        const b = await media.createFolder({ name: "B", parent_id: a.id }, editor);
+        const c = await media.createFolder({ name: "C", parent_id: b.id }, editor);
+
+        await expect(media.moveFolder({ id: a.id, parent_id: c.id }, editor))
+            .rejects.toThrow("Cannot move a folder into itself or one of its subfolders");
+        await expect(media.moveFolder({ id: a.id, parent_id: a.id }, editor))
+            .rejects.toThrow("Cannot move a folder into itself or one of its subfolders");
+
+        const moved = await media.moveFolder({ id: c.id, parent_id: a.id }, editor);
+        expect(moved.parent_id).toBe(a.id);
+
+        const top = await media.moveFolder({ id: b.id }, editor);
+        expect(top.parent_id).toBeUndefined();
+    });
+
+    it("should not let concurrent moves form a cycle", async () => {
+        const a = await media.createFolder({ name: "A" }, editor);
+        const b = await media.createFolder({ name: "B" }, editor);
+
+        const results = await Promise.allSettled([
+            media.moveFolder({ id: a.id, parent_id: b.id }, editor),
+            media.moveFolder({ id: b.id, parent_id: a.id }, editor),
+        ]);
+
+        expect(results.filter(r => r.status === "fulfilled")).toHaveLength(1);
+        expect(results.filter(r => r.status === "rejected")).toHaveLength(1);
+    });
+
+    it("should return breadcrumbs from the top level down", async () => {
+        const a = await media.createFolder({ name: "A" }, editor);
+        const b = await media.createFolder({ name: "B", parent_id: a.id }, editor);
+        const c = await media.createFolder({ name: "C", parent_id: b.id }, editor);
+
+        const { breadcrumbs } = await media.getFolderBreadcrumbs({ id: c.id }, editor);
+
+        expect(breadcrumbs.map(f => f.name)).toEqual(["A", "B", "C"]);
+    });
+
+    it("should move media between folders and out of them", async () => {
+        const inbox = await media.createFolder({ name: "Inbox" }, editor);
+        const archive = await media.createFolder({ name: "Archive" }, editor);
+        const first = await uploadFile({ file: PDF, filename: "1.pdf", folder_id: inbox.id }, editorId);
+        const second = await uploadFile({ file: PDF, filename: "2.pdf" }, editorId);
+
+        const result = await media.moveMedia({ media_ids: [first.id, second.id, first.id], folder_id: archive.id }, editor);
+
+        expect(result.moved).toBe(2);
+        expect(await folderOf(first.id)).toBe(archive.id);
+        expect(await folderOf(second.id)).toBe(archive.id);
+
+        await media.moveMedia({ media_ids: [first.id] }, editor);
+        expect(await folderOf(first.id)).toBeUndefined();
+
+        await expect(media.moveMedia({ media_ids: [randomUUID()], folder_id: archive.id }, editor))
+            .rejects.toThrow("Some of the selected media was not found");
+    });
+
+    describe("deleteFolder", () => {
+        it("should delete an empty folder without a strategy", async () => {
+            const folder = await media.createFolder({ name: "Empty" }, editor);
+
+            const result = await media.deleteFolder({ id: folder.id }, editor);
+
+            expect(result).toEqual({ success: true, deleted_folders: 1, deleted_media: 0 });
+        });
+
+        it("should ask for a strategy when the folder is not empty", async () => {
+            const folder = await media.createFolder({ name: "Full" }, editor);
+            await media.createFolder({ name: "Child", parent_id: folder.id }, editor);
+
+            await expect(media.deleteFolder({ id: folder.id }, editor))
+                .rejects.toThrow("Folder is not empty; choose a delete strategy: cascade or move_to_parent");
+        });
+
+        it("should hand contents to the parent with move_to_parent", async () => {
+            const parent = await media.createFolder({ name: "Parent" }, editor);
+            const middle = await media.createFolder({ name: "Middle", parent_id: parent.id }, editor);
+            const child = await media.createFolder({ name: "Child", parent_id: middle.id }, editor);
+            const item = await uploadFile({ file: PDF, filename: "kept.pdf", folder_id: middle.id }, editorId);
+
+            await media.deleteFolder({ id: middle.id, strategy: "move_to_parent" }, editor);
+
+            const moved = await db.queryRow<{ parent_id: string }>`SELECT parent_id FROM media_folders WHERE id = ${child.id}`;
+            expect(moved!.parent_id).toBe(parent.id);
+            expect(await folderOf(item.id)).toBe(parent.id);
+        });
+
+        it("should unfile media when a top-level folder is deleted with move_to_parent", async () => {
+            const folder = await media.createFolder({ name: "Top" }, editor);
+            const item = await uploadFile({ file: PDF, filename: "loose.pdf", folder_id: folder.id }, editorId);
+
+            await media.deleteFolder({ id: folder.id, strategy: "move_to_parent" }, editor);
+
+            expect(await folderOf(item.id)).toBeUndefined();
+            const stillThere = await db.queryRow`SELECT id FROM media_items WHERE id = ${item.id}`;
+            expect(stillThere).not.toBeNull();
+        });
+
+        it("should delete subfolders, media and stored bytes with cascade", async () => {
+            const root = await media.createFolder({ name: "Root" }, editor);
+            const nested = await media.createFolder({ name: "Nested", parent_id: root.id }, editor);
+            const outside = await uploadFile({ file: PDF, filename: "outside.pdf" }, editorId);
+            const a = await uploadFile({ file: PDF, filename: "a.pdf", folder_id: root.id }, editorId);
+            const b = await uploadFile({ file: PDF, filename: "b.pdf", folder_id: nested.id }, editorId);
+
+            const result = await media.deleteFolder({ id: root.id, strategy: "cascade" }, editor);
+
+            expect(result).toEqual({ success: true, deleted_folders: 2, deleted_media: 2, broken_references: [] });
+            const remaining = await db.queryAll<{ id: string }>`SELECT id FROM media_items`;
+            expect(remaining.map(r => r.id)).toEqual([outside.id]);
+            expect(await files.exists(a.file_path)).toBe(false);
+            expect(await files.exists(b.file_path)).toBe(false);
+            expect(await files.exists(outside.file_path)).toBe(true);
+        });
+
+        it("should refuse to cascade over referenced media unless forced", async () => {
+            const root = await media.createFolder({ name: "Used" }, editor);
+            const nested = await media.createFolder({ name: "Deeper", parent_id: root.id }, editor);
+            const item = await uploadFile({ file: PDF, filename: "linked.pdf", folder_id: nested.id }, editorId);
+            const article = await content.createContent({
+                title: `Linked ${randomUUID()}`,
+                type: "article",
+                content: `[Download](/media/${item.id}/file)`
+            }, editor);
+
+            await expect(media.deleteFolder({ id: root.id, strategy: "cascade" }, editor))
+                .rejects.toThrow("1 media item in this folder is used by 1 content item; pass force to delete anyway");
+            expect(await files.exists(item.file_path)).toBe(true);
+
+            const result = await media.deleteFolder({ id: root.id, strategy: "cascade", force: true }, editor);
+
+            expect(result.deleted_media).toBe(1);
+            expect(result.broken_references).toEqual([
+                { media_id: item.id, content_id: article.id, title: article.title, usage: "body" }
+            ]);
+        });
+    });
+});
@@ -0,0 +1,363 @@
+import { api, APIError } from "encore.dev/api";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { requirePermission } from "../auth/permissions";
+import { db, findReferences, removeStoredFiles } from "./media";
+import {
+    MediaFolder,
+    MediaFolderWithCounts,
+    CreateFolderRequest,
+    RenameFolderRequest,
+    MoveFolderRequest,
+    DeleteFolderRequest,
+    DeleteFolderResponse,
+    MediaReference,
+    ListFoldersResponse,
+    BreadcrumbsResponse,
+    MoveMediaRequest,
+    MoveMediaResponse
+} from "./types";
+
+export const listFolders = api(
+    { method: "GET", path: "/media/folders", auth: true, expose: true },
+    async (): Promise<ListFoldersResponse> => {
+        requirePermission("media.read");
+
+        const rows = db.query<MediaFolderWithCounts>`
+            SELECT f.id, f.name, f.parent_id, f.created_by, f.created_at,
+                   (SELECT COUNT(*)::int FROM media_folder_items WHERE folder_id = f.id) AS item_count,
+                   (SELECT COUNT(*)::int FROM media_folders WHERE parent_id = f.id) AS child_count
+            FROM media_folders f
+            ORDER BY f.name
+        `;
+
+        const folders: MediaFolderWithCounts[] = [];
+        for await (const row of rows) {
+            folders.push(row);
+        }
+
+        return { folders };
+    }
+);
+
+export const createFolder = api(
+    { method: "POST", path: "/media/folders", auth: true, expose: true },
+    async (req: CreateFolderRequest): Promise<MediaFolder> => {
+        const createdBy = requirePermission("media.update").userID;
+
+        const name = normalizeFolderName(req.name);
+        if (req.parent_id) {
+            await findFolder(req.parent_id, "Parent folder not found");
+        }
+        await assertNameFree(db, name, req.parent_id);
+
+        const folder = await db.queryRow<MediaFolder>`
+            INSERT INTO media_folders (name, parent_id, created_by)
+            VALUES (${name}, ${req.parent_id ?? null}, ${createdBy})
+            RETURNING id, name, parent_id, created_by, created_at
+        `;
+
+        if (!folder) {
+            throw new Error("Failed to create folder");
+        }
+        return folder;
+    }
+);
+
+export const renameFolder = api(
+    { method: "PUT", path: "/media/folders/:id", auth: true, expose: true },
+    async ({ id, name }: { id: string } & RenameFolderRequest): Promise<MediaFolder> => {
+        requirePermission("media.update");
+
+        const folder = await findFolder(id);
+        const newName = normalizeFolderName(name);
+        await assertNameFree(db, newName, folder.parent_id, id);
+
+        await db.exec`UPDATE media_folders SET name = ${newName} WHERE id = ${id}`;
+
+        return { ...folder, name: newName };
+    }
+);
+
+// Reparent a folder; moving it under itself or one of its descendants is rejected
+export const moveFolder = api(
+    { method: "POST", path: "/media/folders/:id/move", auth: true, expose: true },
+    async ({ id, parent_id }: { id: string } & MoveFolderRequest): Promise<MediaFolder> => {
+        requirePermission("media.update");
+
+        const folder = await findFolder(id);
+
+        if (parent_id) {
+            await findFolder(parent_id, "Parent folder not found");
+        }
+
+        const tx = await db.begin();
+        try {
+            await lockFolderTree(tx);
+
+            if (parent_id) {
+                const cycle = await tx.queryRow<{ id: string }>`
+                    WITH RECURSIVE ancestors AS (
+                        SELECT id, parent_id FROM media_folders WHERE id = ${parent_id}
+                        UNION
+                        SELECT f.id, f.parent_id
+                        FROM media_folders f
+                        JOIN ancestors a ON f.id = a.parent_id
+                    )
+                    SELECT id FROM ancestors WHERE id = ${id}
+                `;
+
+                if (cycle) {
+                    throw APIError.failedPrecondition("Cannot move a folder into itself or one of its subfolders");
+                }
+            }
+
+            await assertNameFree(tx, folder.name, parent_id, id);
+
+            await tx.exec`
+                UPDATE media_folders SET parent_id = ${parent_id ?? null} WHERE id = ${id}
+            `;
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        return { ...folder, parent_id: parent_id ?? undefined };
+    }
+);
+
+export const getFolderBreadcrumbs = api(
+    { method: "GET", path: "/media/folders/:id/breadcrumbs", auth: true, expose: true },
+    async ({ id }: { id: string }): Promise<BreadcrumbsResponse> => {
+        requirePermission("media.read");
+
+        await findFolder(id);
+
+        const rows = db.query<MediaFolder>`
+            WITH RECURSIVE ancestors AS (
+                SELECT id, name, parent_id, created_by, created_at, 0 AS depth
+                FROM media_folders WHERE id = ${id}
+                UNION ALL
+                SELECT f.id, f.name, f.parent_id, f.created_by, f.created_at, a.depth + 1
+                FROM media_folders f
+                JOIN ancestors a ON f.id = a.parent_id
+            )
+            SELECT id, name, parent_id, created_by, created_at
+            FROM ancestors
+            ORDER BY depth DESC
+        `;
+
+        const breadcrumbs: MediaFolder[] = [];
+        for await (const row of rows) {
+            breadcrumbs.push(row);
+        }
+
+        return { breadcrumbs };
+    }
+);
+
+// A non-empty folder needs a strategy: cascade deletes subfolders and their
+// media, move_to_parent hands the contents to the folder's parent. Like
+// deleteMedia, cascade refuses while content references the media unless forced.
+export const deleteFolder = api(
+    { method: "DELETE", path: "/media/folders/:id", auth: true, expose: true },
+    async ({ id, strategy, force }: { id: string } & DeleteFolderRequest): Promise<DeleteFolderResponse> => {
+        requirePermission("media.delete");
+
+        const folder = await findFolder(id);
+
+        const contents = await db.queryRow<{ items: number; children: number }>`
+            SELECT (SELECT COUNT(*)::int FROM media_folder_items WHERE folder_id = ${id}) AS items,
+                   (SELECT COUNT(*)::int FROM media_folders WHERE parent_id = ${id}) AS children
+        `;
+        const empty = !contents || (contents.items === 0 && contents.children === 0);
+
+        if (!empty && !strategy) {
+            throw APIError.failedPrecondition("Folder is not empty; choose a delete strategy: cascade or move_to_parent");
+        }
+
+        if (empty || strategy === 'move_to_parent') {
+            await deleteMovingContents(folder);
+            return { success: true, deleted_folders: 1, deleted_media: 0, broken_references: [] };
+        }
+
+        return await deleteWithContents(id, force ?? false);
+    }
+);
+
+// Refile media into a folder, or take it out of folders altogether
+export const moveMedia = api(
+    { method: "POST", path: "/media/move", auth: true, expose: true },
+    async ({ media_ids, folder_id }: MoveMediaRequest): Promise<MoveMediaResponse> => {
+        requirePermission("media.update");
+
+        const ids = [...new Set(media_ids ?? [])];
+        if (ids.length === 0) {
+            throw APIError.invalidArgument("No media selected");
+        }
+        if (folder_id) {
+            await findFolder(folder_id);
+        }
+
+        const found = await db.queryRow<{ count: number }>`
+            SELECT COUNT(*)::int AS count FROM media_items WHERE id = ANY(${ids}::uuid[])
+        `;
+        if (found?.count !== ids.length) {
+            throw APIError.notFound("Some of the selected media was not found");
+        }
+
+        const tx = await db.begin();
+        try {
+            await tx.exec`DELETE FROM media_folder_items WHERE media_id = ANY(${ids}::uuid[])`;
+            if (folder_id) {
+                await tx.exec`
+                    INSERT INTO media_folder_items (media_id, folder_id)
+                    SELECT unnest(${ids}::uuid[]), ${folder_id}
+                `;
+            }
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        return { moved: ids.length };
+    }
+);
+
+async function deleteMovingContents(folder: MediaFolder): Promise<void> {
+    const parentId = folder.parent_id ?? null;
+
+    const tx = await db.begin();
+    try {
+        await lockFolderTree(tx);
+        await tx.exec`UPDATE media_folders SET parent_id = ${parentId} WHERE parent_id = ${folder.id}`;
+        if (parentId) {
+            // Media already in the parent keeps a single link
+            await tx.exec`
+                INSERT INTO media_folder_items (media_id, folder_id)
+                SELECT media_id, ${parentId} FROM media_folder_items WHERE folder_id = ${folder.id}
+                ON CONFLICT DO NOTHING
+            `;
+        }
+        // Links to the deleted folder go with it (ON DELETE CASCADE)
+        await tx.exec`DELETE FROM media_folders WHERE id = ${folder.id}`;
+
+        await tx.commit();
+    } catch (error) {
+        await tx.rollback();
+        throw error;
+    }
+}
+
+async function deleteWithContents(id: string, force: boolean): Promise<DeleteFolderResponse> {
+    const subtree = await db.queryRow<{ ids: string[] }>`
+        WITH RECURSIVE subtree AS (
+            SELECT id FROM media_folders WHERE id = ${id}
+            UNION
+            SELECT f.id FROM media_folders f JOIN subtree s ON f.parent_id = s.id
+        )
+        SELECT array_agg(id) AS ids FROM subtree
+    `;
+    const folderIds = subtree?.ids ?? [id];
+
+    const contained = db.query<{ media_id: string }>`
+        SELECT DISTINCT media_id FROM media_folder_items WHERE folder_id = ANY(${folderIds}::uuid[])
+    `;
+    const mediaIds: string[] = [];
+    for await (const row of contained) {
+        mediaIds.push(row.media_id);
+    }
+
+    const references: MediaReference[] = [];
+    for (const mediaId of mediaIds) {
+        references.push(...await findReferences(mediaId));
+    }
+
+    if (references.length > 0 && !force) {
+        const used = new Set(references.map(r => r.media_id)).size;
+        const items = new Set(references.map(r => r.content_id)).size;
+        throw APIError.failedPrecondition(
+            `${used} media ${used === 1 ? 'item' : 'items'} in this folder ${used === 1 ? 'is' : 'are'} used by ` +
+            `${items} content ${items === 1 ? 'item' : 'items'}; pass force to delete anyway`
+        );
+    }
+
+    const stored: { id: string; file_path: string }[] = [];
+    const tx = await db.begin();
+    try {
+        // Only media whose references were checked; anything filed meanwhile is unfiled instead (ON DELETE CASCADE)
+        const deleted = tx.query<{ id: string; file_path: string }>`
+            DELETE FROM media_items
+            WHERE id = ANY(${mediaIds}::uuid[])
+            RETURNING id, file_path
+        `;
+        for await (const row of deleted) {
+            stored.push(row);
+        }
+
+        // One statement, so the parent_id references inside the subtree are checked only at the end
+        await tx.exec`DELETE FROM media_folders WHERE id = ANY(${folderIds}::uuid[])`;
+
+        await tx.commit();
+    } catch (error) {
+        await tx.rollback();
+        throw error;
+    }
+
+    // Bytes are removed only once the rows are gone for good
+    for (const item of stored) {
+        await removeStoredFiles(item.id, item.file_path);
+    }
+
+    return {
+        success: true,
+        deleted_folders: folderIds.length,
+        deleted_media: stored.length,
+        broken_references: references.filter(r => stored.some(item => item.id === r.media_id)),
+    };
+}
+
+function normalizeFolderName(name: string): string {
+    const trimmed = name?.trim() ?? '';
+    if (!trimmed) {
+        throw APIError.invalidArgument("Folder name is required");
+    }
+    if (trimmed.length > 100) {
+        throw APIError.invalidArgument("Folder name must be at most 100 characters");
+    }
+    return trimmed;
+}
+
+// Sibling folders must have distinct names so paths stay unambiguous
+async function assertNameFree(conn: SQLDatabase | Transaction, name: string, parentId: string | undefined, folderId?: string): Promise<void> {
+    const clash = await conn.queryRow<{ id: string }>`
+        SELECT id FROM media_folders
+        WHERE lower(name) = lower(${name})
+          AND parent_id IS NOT DISTINCT FROM ${parentId ?? null}::uuid
+          AND id IS DISTINCT FROM ${folderId ?? null}::uuid
+    `;
+
+    if (clash) {
+        throw APIError.alreadyExists(`A folder named "${name}" already exists here`);
+    }
+}
+
+// Reparenting runs one transaction at a time: two concurrent moves could each
+// pass the cycle check and together form a loop
+async function lockFolderTree(tx: Transaction): Promise<void> {
+    await tx.exec`SELECT pg_advisory_xact_lock(hashtext('media.move_folder'))`;
+}
+
+async function findFolder(id: string, message = "Folder not found"): Promise<MediaFolder> {
+    const folder = await db.queryRow<MediaFolder>`
+        SELECT id, name, parent_id, created_by, created_at FROM media_folders WHERE id = ${id}
+    `;
+
+    if (!folder) {
+        throw APIError.notFound(message);
+    }
+    return folder;
+}
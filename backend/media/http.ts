@@ -0,0 +1,29 @@
+import type { ServerResponse } from "http";
+import { APIError, ErrCode } from "encore.dev/api";
+
+// Raw endpoints write their own responses, so errors are mapped to statuses here
+const STATUS_BY_CODE: Partial<Record<ErrCode, number>> = {
+    [ErrCode.InvalidArgument]: 400,
+    [ErrCode.Unauthenticated]: 401,
+    [ErrCode.PermissionDenied]: 403,
+    [ErrCode.NotFound]: 404,
+    [ErrCode.AlreadyExists]: 409,
+    [ErrCode.FailedPrecondition]: 412,
+    [ErrCode.OutOfRange]: 416,
+    [ErrCode.ResourceExhausted]: 429,
+};
+
+export function sendJSON(resp: ServerResponse, status: number, body: unknown): void {
+    resp.writeHead(status, { 'Content-Type': 'application/json' });
+    resp.end(JSON.stringify(body));
+}
+
+export function sendError(resp: ServerResponse, error: unknown): void {
+    if (error instanceof APIError) {
+        sendJSON(resp, STATUS_BY_CODE[error.code] ?? 500, { code: error.code, message: error.message });
+        return;
+    }
+
+    console.error("Unhandled error in raw endpoint:", error);
+    sendJSON(resp, 500, { code: ErrCode.Internal, message: "Internal error" });
+}
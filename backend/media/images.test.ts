@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import sharp from "sharp";
+import { content, media } from "~encore/clients";
+import { db, files } from "./media";
+import { uploadFile } from "./testing";
+import { processImage } from "./images";
+import { randomUUID } from "crypto";
+
+// uploadMedia is a raw endpoint and runs in-process; see ./testing
+vi.mock("~encore/auth", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("~encore/auth")>();
+    const { rawCaller } = await import("./testing");
+    return { ...actual, getAuthData: () => rawCaller.getStore() ?? actual.getAuthData() };
+});
+
+const authAs = (userID: string, roles: string[] = ["editor"]) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
+
+const jpeg = (width: number, height: number, orientation?: number) => {
+    const image = sharp({ create: { width, height, channels: 3, background: "#3366cc" } }).jpeg();
+    return (orientation ? image.withMetadata({ orientation }) : image).toBuffer();
+};
+
+describe("Image processing", () => {
+    const uploadedBy = randomUUID();
+
+    beforeEach(async () => {
+        await db.exec`DELETE FROM media_renditions`;
+        await db.exec`DELETE FROM media_folder_items`;
+        await db.exec`DELETE FROM media_items`;
+    });
+
+    it("should mark new images as pending", async () => {
+        const item = await uploadFile({ file: await jpeg(64, 48), filename: "pending.jpg" }, uploadedBy);
+
+        expect(item.processing_status).toBe("pending");
+        expect(item.width).toBeNull();
+    });
+
+    it("should record dimensions and generate renditions in both formats", async () => {
+        const item = await uploadFile({ file: await jpeg(1200, 800), filename: "wide.jpg" }, uploadedBy);
+
+        await processImage(item.id);
+
+        const processed = await db.queryRow<{ width: number; height: number; processing_status: string }>`
+            SELECT width, height, processing_status FROM media_items WHERE id = ${item.id}
+        `;
+        expect(processed).toEqual({ width: 1200, height: 800, processing_status: "ready" });
+
+        const renditions = await db.queryAll<{ variant: string; format: string; width: number; file_path: string }>`
+            SELECT variant, format, width, file_path FROM media_renditions
+            WHERE media_id = ${item.id}
+            ORDER BY width, format
+        `;
+        expect(renditions.map(r => `${r.variant}.${r.format}@${r.width}`)).toEqual([
+            "thumbnail.avif@320", "thumbnail.webp@320",
+            "medium.avif@960", "medium.webp@960",
+            "large.avif@1200", "large.webp@1200",
+        ]);
+
+        const webp = await sharp(await files.download(renditions[1].file_path)).metadata();
+        expect(webp.format).toBe("webp");
+        expect(webp.width).toBe(320);
+    });
+
+    it("should apply EXIF orientation", async () => {
+        const item = await uploadFile({ file: await jpeg(400, 200, 6), filename: "rotated.jpg" }, uploadedBy);
+
+        await processImage(item.id);
+
+        const processed = await db.queryRow<{ width: number; height: number; orientation: number }>`
+            SELECT width, height, orientation FROM media_items WHERE id = ${item.id}
+        `;
+        expect(processed).toEqual({ width: 200, height: 400, orientation: 6 });
+
+        const thumbnail = await db.queryRow<{ width: number; height: number }>`
+            SELECT width, height FROM media_renditions WHERE media_id = ${item.id} AND variant = 'thumbnail' AND format = 'webp'
+        `;
+        expect(thumbnail).toEqual({ width: 200, height: 400 });
+    });
+
+    it("should be safe to process the same image twice", async () => {
+        const item = await uploadFile({ file: await jpeg(100, 100), filename: "again.jpg" }, uploadedBy);
+
+        await processImage(item.id);
+        await processImage(item.id);
+
+        const { count } = (await db.queryRow<{ count: number }>`
+            SELECT COUNT(*)::int AS count FROM media_renditions WHERE media_id = ${item.id}
+        `)!;
+        expect(count).toBe(2);
+    });
+
+    it("should mark images that cannot be decoded as failed", async () => {
+        const broken = Buffer.alloc(512);
+        Buffer.from([0xff, 0xd8, 0xff, 0xe0]).copy(broken);
+        const item = await uploadFile({ file: broken, filename: "broken.jpg" }, uploadedBy);
+
+        await expect(processImage(item.id)).rejects.toThrow();
+
+        const failed = await db.queryRow<{ processing_status: string }>`
+            SELECT processing_status FROM media_items WHERE id = ${item.id}
+        `;
+        expect(failed!.processing_status).toBe("failed");
+    });
+
+    describe("getMediaSrcset", () => {
+        const viewer = authAs(randomUUID(), ["viewer"]);
+
+        it("should list avif before webp with width descriptors", async () => {
+            const item = await uploadFile({ file: await jpeg(1000, 500), filename: "srcset.jpg" }, uploadedBy);
+            await processImage(item.id);
+
+            const result = await media.getMediaSrcset({ id: item.id }, viewer);
+
+            expect(result.processing_status).toBe("ready");
+            expect(result.width).toBe(1000);
+            expect(result.sources.map(s => s.mime_type)).toEqual(["image/avif", "image/webp"]);
+            expect(result.sources[1].srcset).toMatch(/^\S+ 320w, \S+ 960w, \S+ 1000w$/);
+        });
+
+        it("should return no sources before processing", async () => {
+            const item = await uploadFile({ file: await jpeg(64, 64), filename: "early.jpg" }, uploadedBy);
+
+            const result = await media.getMediaSrcset({ id: item.id }, viewer);
+
+            expect(result.processing_status).toBe("pending");
+            expect(result.sources).toEqual([]);
+        });
+
+        it("should reject missing media and non-images", async () => {
+            await expect(media.getMediaSrcset({ id: randomUUID() }, viewer)).rejects.toThrow("Media not found");
+
+            const pdf = await uploadFile({ file: Buffer.from("%PDF-1.7\n"), filename: "doc.pdf" }, uploadedBy);
+            await expect(media.getMediaSrcset({ id: pdf.id }, viewer)).rejects.toThrow("Only images have responsive renditions");
+        });
+
+        it("should only serve published images to anonymous callers", async () => {
+            const editor = authAs(uploadedBy);
+            const item = await uploadFile({ file: await jpeg(64, 64), filename: "hero.jpg" }, uploadedBy);
+            const article = await content.createContent({
+                title: `Hero ${randomUUID()}`,
+                type: "article",
+                content: `![Hero](/media/${item.id}/srcset)`
+            }, editor);
+
+            await expect(media.getMediaSrcset({ id: item.id })).rejects.toThrow("Media not found");
+
+            await content.updateContent({ id: article.id, status: "review" }, editor);
+            await content.updateContent({ id: article.id, status: "published" }, editor);
+            expect((await media.getMediaSrcset({ id: item.id })).media_id).toBe(item.id);
+        });
+    });
+});
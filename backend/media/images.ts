@@ -0,0 +1,142 @@
+import { api, APIError } from "encore.dev/api";
+import { Subscription } from "encore.dev/pubsub";
+import sharp from "sharp";
+import { getAuthData } from "~encore/auth";
+import { requirePermission } from "../auth/permissions";
+import { db, files } from "./media";
+import { isPublished } from "./delivery";
+import { mediaUploaded } from "./events";
+import { MediaRendition, MediaType, ProcessingStatus, SrcsetResponse } from "./types";
+import {
+    RENDITION_FORMATS,
+    RENDITION_MIME_TYPES,
+    planRenditions,
+    displayDimensions,
+    renditionPath,
+    buildSrcset
+} from "./renditions";
+
+// Signed rendition URLs handed out by the srcset endpoint stay valid this long
+const SRCSET_URL_TTL_SECONDS = 60 * 60;
+
+const _ = new Subscription(mediaUploaded, "process-uploaded-images", {
+    handler: async (event) => {
+        if (event.type === 'image') {
+            await processImage(event.media_id);
+        }
+    },
+});
+
+/**
+ * Read dimensions and orientation from an uploaded image and generate its
+ * renditions. Safe to run again for the same item: renditions are overwritten.
+ */
+export async function processImage(mediaId: string): Promise<void> {
+    const item = await db.queryRow<{ file_path: string; type: MediaType }>`
+        SELECT file_path, type FROM media_items WHERE id = ${mediaId}
+    `;
+
+    // Deleted since the upload, or not an image
+    if (!item || item.type !== 'image') {
+        return;
+    }
+
+    try {
+        const original = await files.download(item.file_path);
+        const metadata = await sharp(original).metadata();
+        if (!metadata.width || !metadata.height) {
+            throw new Error(`Could not read the dimensions of media ${mediaId}`);
+        }
+
+        const { width, height } = displayDimensions(metadata.width, metadata.height, metadata.orientation);
+        // rotate() with no angle applies the EXIF orientation, so renditions come out upright
+        const upright = sharp(original).rotate();
+
+        for (const planned of planRenditions(width, height)) {
+            for (const format of RENDITION_FORMATS) {
+                const { data, info } = await upright.clone()
+                    .resize({ width: planned.width, withoutEnlargement: true })
+                    .toFormat(format)
+                    .toBuffer({ resolveWithObject: true });
+
+                const file_path = renditionPath(mediaId, planned.variant, format);
+                await files.upload(file_path, data, { contentType: RENDITION_MIME_TYPES[format] });
+
+                await db.exec`
+                    INSERT INTO media_renditions (media_id, variant, format, file_path, file_size, width, height)
+                    VALUES (${mediaId}, ${planned.variant}, ${format}, ${file_path}, ${data.length}, ${info.width}, ${info.height})
+                    ON CONFLICT (media_id, variant, format) DO UPDATE
+                    SET file_path = EXCLUDED.file_path,
+                        file_size = EXCLUDED.file_size,
+                        width = EXCLUDED.width,
+                        height = EXCLUDED.height,
+                        created_at = NOW()
+                `;
+            }
+        }
+
+        await db.exec`
+            UPDATE media_items
+            SET width = ${width}, height = ${height}, orientation = ${metadata.orientation ?? null},
+                processing_status = 'ready'
+            WHERE id = ${mediaId}
+        `;
+    } catch (error) {
+        await db.exec`UPDATE media_items SET processing_status = 'failed' WHERE id = ${mediaId}`;
+        throw error;
+    }
+}
+
+// Responsive image sources for <picture>; empty until processing has finished.
+// Anyone may ask for published media, everything else needs media.read.
+export const getMediaSrcset = api(
+    { method: "GET", path: "/media/:id/srcset", expose: true },
+    async ({ id }: { id: string }): Promise<SrcsetResponse> => {
+        if (!(await isPublished(id))) {
+            // Like getPublicMediaUrl, unpublished media looks missing to anonymous callers
+            if (!getAuthData()) {
+                throw APIError.notFound("Media not found");
+            }
+            requirePermission("media.read");
+        }
+
+        const item = await db.queryRow<{ type: MediaType; width: number | null; height: number | null; processing_status: ProcessingStatus | null }>`
+            SELECT type, width, height, processing_status FROM media_items WHERE id = ${id}
+        `;
+
+        if (!item) {
+            throw APIError.notFound("Media not found");
+        }
+        if (item.type !== 'image') {
+            throw APIError.invalidArgument("Only images have responsive renditions");
+        }
+
+        const rows = db.query<MediaRendition>`
+            SELECT id, media_id, variant, format, file_path, file_size, width, height, created_at
+            FROM media_renditions
+            WHERE media_id = ${id}
+        `;
+
+        const candidates = new Map<string, { url: string; width: number }[]>();
+        for await (const rendition of rows) {
+            const { url } = await files.signedDownloadUrl(rendition.file_path, { ttl: SRCSET_URL_TTL_SECONDS });
+            const list = candidates.get(rendition.format) ?? [];
+            list.push({ url, width: rendition.width });
+            candidates.set(rendition.format, list);
+        }
+
+        return {
+            media_id: id,
+            processing_status: item.processing_status ?? undefined,
+            width: item.width ?? undefined,
+            height: item.height ?? undefined,
+            sources: RENDITION_FORMATS
+                .filter(format => candidates.has(format))
+                .map(format => ({
+                    format,
+                    mime_type: RENDITION_MIME_TYPES[format],
+                    srcset: buildSrcset(candidates.get(format)!)
+                }))
+        };
+    }
+);
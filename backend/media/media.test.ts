@@ -1,7 +1,52 @@
-import { describe, it, expect, beforeEach } from "vitest";
-import { uploadMedia, getMedia, listMedia, db } from "./media";
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { content, media } from "~encore/clients";
+import { getMedia, listMedia, db, files } from "./media";
+import { postUpload, uploadFile } from "./testing";
 import { MediaType } from "./types";
-import { randomUUID } from "crypto";
+import { createHash, randomUUID } from "crypto";
+
+// uploadMedia is a raw endpoint and runs in-process; see ./testing
+vi.mock("~encore/auth", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("~encore/auth")>();
+    const { rawCaller } = await import("./testing");
+    return { ...actual, getAuthData: () => rawCaller.getStore() ?? actual.getAuthData() };
+});
+
+// Leading bytes that type sniffing recognises; files without one are filled with text
+const SIGNATURES: Record<string, Buffer> = {
+    "image/jpeg": Buffer.from([0xff, 0xd8, 0xff, 0xe0]),
+    "image/png": Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    "video/mp4": Buffer.from("\0\0\0\x18ftypisom", "latin1"),
+    "audio/mp3": Buffer.from("ID3"),
+    "audio/mpeg": Buffer.from("ID3"),
+    "application/pdf": Buffer.from("%PDF-1.7\n"),
+};
+
+const fileOf = (mimeType: string, size: number) => {
+    const signature = SIGNATURES[mimeType];
+    if (!signature) {
+        return Buffer.alloc(size, "a");
+    }
+    const file = Buffer.alloc(size);
+    signature.copy(file);
+    return file;
+};
+
+interface TestUpload {
+    filename: string;
+    mime_type: string;
+    file_size?: number;
+    alt_text?: string;
+    caption?: string;
+    folder_id?: string;
+}
+
+const upload = ({ mime_type, file_size = 1000, ...rest }: TestUpload, uploadedBy: string) =>
+    uploadFile({ file: fileOf(mime_type, file_size), mime_type, ...rest }, uploadedBy);
+
+const authAs = (userID: string, roles: string[] = ["editor"]) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
 
 describe("Media Service", () => {
     beforeEach(async () => {
@@ -21,11 +66,10 @@ describe("Media Service", () => {
                 mime_type: "image/jpeg",
                 file_size: 1024000,
                 alt_text: "Test image",
-                caption: "A test image for testing",
-                uploaded_by: uploadedBy
+                caption: "A test image for testing"
             };
 
-            const result = await uploadMedia(request);
+            const result = await upload(request, uploadedBy);
 
             expect(result).toBeDefined();
             expect(result.original_filename).toBe("test-image.jpg");
@@ -36,11 +80,76 @@ describe("Media Service", () => {
             expect(result.caption).toBe("A test image for testing");
             expect(result.uploaded_by).toBe(uploadedBy);
             expect(result.filename).toContain("test-image.jpg");
-            expect(result.file_path).toContain("/uploads/");
+            expect(result.file_path).toBe(`originals/${result.filename}`);
             expect(result.id).toBeDefined();
             expect(result.created_at).toBeDefined();
         });
 
+        it("should store the bytes with a server-side checksum", async () => {
+            const file = fileOf("image/png", 2048);
+
+            const result = await uploadFile({ file, filename: "stored.png" }, randomUUID());
+
+            expect(result.file_size).toBe(2048);
+            expect(result.checksum).toBe(createHash("sha256").update(file).digest("hex"));
+            expect(await files.download(result.file_path)).toEqual(file);
+        });
+
+        it("should sniff the type instead of trusting the declared one", async () => {
+            const result = await uploadFile({
+                file: fileOf("application/pdf", 1000),
+                filename: "invoice.jpg",
+                mime_type: "image/jpeg"
+            }, randomUUID());
+
+            expect(result.mime_type).toBe("application/pdf");
+            expect(result.type).toBe("document");
+        });
+
+        it("should reject unsupported, empty and oversized files", async () => {
+            const uploadedBy = randomUUID();
+
+            await expect(uploadFile({ file: Buffer.from([0x00, 0x01, 0x02]), filename: "blob.bin" }, uploadedBy))
+                .rejects.toThrow("Unsupported file type");
+            await expect(uploadFile({ file: Buffer.alloc(0), filename: "empty.txt", mime_type: "text/plain" }, uploadedBy))
+                .rejects.toThrow("File is empty");
+            await expect(upload({ filename: "huge.jpg", mime_type: "image/jpeg", file_size: 21 * 1024 * 1024 }, uploadedBy))
+                .rejects.toThrow("Image files are limited to 20 MB");
+
+            const { total } = await listMedia({});
+            expect(total).toBe(0);
+        });
+
+        it("should require media.upload and a declared length", async () => {
+            const file = fileOf("image/png", 100);
+            const viewer = { userID: randomUUID(), email: "viewer@example.com", is_verified: true, roles: ["viewer"] };
+            const editor = { ...viewer, roles: ["editor"] };
+
+            expect(await postUpload(file, { filename: "anonymous.png" })).toMatchObject({ status: 401 });
+            expect(await postUpload(file, { filename: "viewer.png" }, viewer))
+                .toEqual({ status: 403, body: { code: "permission_denied", message: "Missing permission: media.upload" } });
+            expect(await postUpload(file, { filename: "unsized.png" }, editor, { "content-length": "" }))
+                .toEqual({ status: 400, body: { code: "invalid_argument", message: "Content-Length is required" } });
+
+            const { total } = await listMedia({});
+            expect(total).toBe(0);
+        });
+
+        it("should place the upload in a folder", async () => {
+            const uploadedBy = randomUUID();
+            const folder = await db.queryRow<{ id: string }>`
+                INSERT INTO media_folders (name, created_by) VALUES ('Uploads', ${uploadedBy}) RETURNING id
+            `;
+
+            const result = await upload({ filename: "filed.jpg", mime_type: "image/jpeg", folder_id: folder!.id }, uploadedBy);
+
+            const listed = await listMedia({ folder_id: folder!.id });
+            expect(listed.items.map(item => item.id)).toEqual([result.id]);
+
+            await expect(upload({ filename: "lost.jpg", mime_type: "image/jpeg", folder_id: randomUUID() }, uploadedBy))
+                .rejects.toThrow("Folder not found");
+        });
+
         it("should detect media type from MIME type", async () => {
             const uploadedBy = randomUUID();
             
@@ -52,12 +161,11 @@ describe("Media Service", () => {
             ];
 
             for (const testCase of testCases) {
-                const result = await uploadMedia({
+                const result = await upload({
                     filename: "test-file",
                     mime_type: testCase.mime_type,
-                    file_size: 1000,
-                    uploaded_by: uploadedBy
-                });
+                    file_size: 1000
+                }, uploadedBy);
 
                 expect(result.type).toBe(testCase.expected_type);
                 
@@ -71,11 +179,10 @@ describe("Media Service", () => {
             const request = {
                 filename: "minimal-file.txt",
                 mime_type: "text/plain",
-                file_size: 500,
-                uploaded_by: uploadedBy
+                file_size: 500
             };
 
-            const result = await uploadMedia(request);
+            const result = await upload(request, uploadedBy);
 
             expect(result.original_filename).toBe("minimal-file.txt");
             expect(result.alt_text).toBeNull();
@@ -90,12 +197,11 @@ describe("Media Service", () => {
             const baseRequest = {
                 filename: "duplicate.jpg",
                 mime_type: "image/jpeg",
-                file_size: 1000,
-                uploaded_by: uploadedBy
+                file_size: 1000
             };
 
-            const result1 = await uploadMedia(baseRequest);
-            const result2 = await uploadMedia(baseRequest);
+            const result1 = await upload(baseRequest, uploadedBy);
+            const result2 = await upload(baseRequest, uploadedBy);
 
             expect(result1.filename).not.toBe(result2.filename);
             expect(result1.filename).toContain("duplicate.jpg");
@@ -114,13 +220,12 @@ describe("Media Service", () => {
             const uploadedBy = randomUUID();
             
             // Create media first
-            const created = await uploadMedia({
+            const created = await upload({
                 filename: "test-get.jpg",
                 mime_type: "image/jpeg",
                 file_size: 2048000,
-                alt_text: "Get test image",
-                uploaded_by: uploadedBy
-            });
+                alt_text: "Get test image"
+            }, uploadedBy);
 
             const result = await getMedia({ id: created.id });
 
@@ -136,14 +241,13 @@ describe("Media Service", () => {
         it("should return all media fields", async () => {
             const uploadedBy = randomUUID();
             
-            const created = await uploadMedia({
+            const created = await upload({
                 filename: "complete-test.mp4",
                 mime_type: "video/mp4",
                 file_size: 5000000,
                 alt_text: "Complete test video",
-                caption: "A complete test",
-                uploaded_by: uploadedBy
-            });
+                caption: "A complete test"
+            }, uploadedBy);
 
             const result = await getMedia({ id: created.id });
 
@@ -171,26 +275,23 @@ describe("Media Service", () => {
             const uploadedBy2 = randomUUID();
             
             // Create test media items
-            await uploadMedia({
+            await upload({
                 filename: "image1.jpg",
                 mime_type: "image/jpeg",
-                file_size: 1000,
-                uploaded_by: uploadedBy1
-            });
+                file_size: 1000
+            }, uploadedBy1);
 
-            await uploadMedia({
+            await upload({
                 filename: "video1.mp4",
                 mime_type: "video/mp4",
-                file_size: 5000,
-                uploaded_by: uploadedBy2
-            });
+                file_size: 5000
+            }, uploadedBy2);
 
-            await uploadMedia({
+            await upload({
                 filename: "document1.pdf",
                 mime_type: "application/pdf",
-                file_size: 2000,
-                uploaded_by: uploadedBy1
-            });
+                file_size: 2000
+            }, uploadedBy1);
         });
 
         it("should list all media with default pagination", async () => {
@@ -265,6 +366,131 @@ describe("Media Service", () => {
                 expect(timestamps[i-1]).toBeGreaterThanOrEqual(timestamps[i]);
             }
         });
+
+        it("should filter by exact mime type and mime family", async () => {
+            const exact = await listMedia({ mime_type: "application/pdf" });
+            expect(exact.items.map(item => item.original_filename)).toEqual(["document1.pdf"]);
+
+            const family = await listMedia({ mime_type: "video/*" });
+            expect(family.items.map(item => item.original_filename)).toEqual(["video1.mp4"]);
+        });
+
+        it("should filter by uploader", async () => {
+            const { items: [image] } = await listMedia({ type: "image" });
+
+            const result = await listMedia({ uploaded_by: image.uploaded_by });
+
+            expect(result.total).toBe(2);
+            expect(result.items.every(item => item.uploaded_by === image.uploaded_by)).toBe(true);
+        });
+
+        it("should sort by file size", async () => {
+            const largest = await listMedia({ sort: "file_size" });
+            expect(largest.items.map(item => item.file_size)).toEqual([5000, 2000, 1000]);
+
+            const smallest = await listMedia({ sort: "file_size", order: "asc" });
+            expect(smallest.items[0].file_size).toBe(1000);
+        });
+
+        it("should page through with cursors", async () => {
+            const first = await listMedia({ limit: 2, sort: "filename" });
+            expect(first.items.map(item => item.original_filename)).toEqual(["document1.pdf", "image1.jpg"]);
+
+            const second = await listMedia({ limit: 2, sort: "filename", cursor: first.next_cursor });
+
+            expect(second.items.map(item => item.original_filename)).toEqual(["video1.mp4"]);
+            expect(second.total).toBe(3);
+            expect(second.next_cursor).toBeUndefined();
+        });
+
+        it("should reject a malformed cursor", async () => {
+            await expect(listMedia({ cursor: "garbage" })).rejects.toThrow("Invalid cursor");
+        });
+    });
+
+    describe("updateMedia", () => {
+        it("should update alt text and caption, clearing them with empty strings", async () => {
+            const editor = authAs(randomUUID());
+            const item = await upload({ filename: "photo.jpg", mime_type: "image/jpeg", alt_text: "Old", caption: "Kept" }, randomUUID());
+
+            const updated = await media.updateMedia({ id: item.id, alt_text: "A red bicycle" }, editor);
+            expect(updated.alt_text).toBe("A red bicycle");
+            expect(updated.caption).toBe("Kept");
+
+            const cleared = await media.updateMedia({ id: item.id, caption: "" }, editor);
+            expect(cleared.caption).toBeNull();
+        });
+
+        it("should move the item into a folder and out again", async () => {
+            const editor = authAs(randomUUID());
+            const folder = await media.createFolder({ name: "Press" }, editor);
+            const item = await upload({ filename: "kit.pdf", mime_type: "application/pdf" }, randomUUID());
+
+            await media.updateMedia({ id: item.id, folder_id: folder.id }, editor);
+            expect((await listMedia({ folder_id: folder.id })).items.map(m => m.id)).toEqual([item.id]);
+
+            await media.updateMedia({ id: item.id, folder_id: null }, editor);
+            expect((await listMedia({ folder_id: folder.id })).items).toEqual([]);
+        });
+
+        it("should reject unknown media, unknown folders and contributors", async () => {
+            const item = await upload({ filename: "a.pdf", mime_type: "application/pdf" }, randomUUID());
+
+            await expect(media.updateMedia({ id: randomUUID(), alt_text: "x" }, authAs(randomUUID())))
+                .rejects.toThrow("Media not found");
+            await expect(media.updateMedia({ id: item.id, folder_id: randomUUID() }, authAs(randomUUID())))
+                .rejects.toThrow("Folder not found");
+            await expect(media.updateMedia({ id: item.id, alt_text: "x" }, authAs(randomUUID(), ["contributor"])))
+                .rejects.toThrow("Missing permission: media.update");
+        });
+    });
+
+    describe("deleteMedia", () => {
+        it("should delete the row, the original and its renditions", async () => {
+            const item = await upload({ filename: "gone.jpg", mime_type: "image/jpeg" }, randomUUID());
+            await files.upload(`renditions/${item.id}/thumbnail.webp`, Buffer.from("webp"));
+
+            const result = await media.deleteMedia({ id: item.id }, authAs(randomUUID()));
+
+            expect(result).toEqual({ success: true, broken_references: [] });
+            expect((await getMedia({ id: item.id })).media).toBeNull();
+            expect(await files.exists(item.file_path)).toBe(false);
+            expect(await files.exists(`renditions/${item.id}/thumbnail.webp`)).toBe(false);
+        });
+
+        it("should refuse while content references the item unless forced", async () => {
+            const editorId = randomUUID();
+            const item = await upload({ filename: "hero.jpg", mime_type: "image/jpeg" }, editorId);
+            const article = await content.createContent({
+                title: "Launch",
+                type: "article",
+                content: `![Hero](/media/${item.id}/srcset)`,
+                featured_media_id: item.id
+            }, authAs(editorId));
+
+            await expect(media.deleteMedia({ id: item.id }, authAs(editorId)))
+                .rejects.toThrow("Media is used by 1 content item; pass force to delete it anyway");
+            expect(await files.exists(item.file_path)).toBe(true);
+
+            const result = await media.deleteMedia({ id: item.id, force: true }, authAs(editorId));
+
+            expect(result.broken_references.map(r => [r.content_id, r.usage]).sort()).toEqual([
+                [article.id, "body"],
+                [article.id, "featured"],
+            ]);
+            expect(await files.exists(item.file_path)).toBe(false);
+
+            await content.deleteContent({ id: article.id }, authAs(editorId));
+        });
+
+        it("should require media.delete", async () => {
+            const item = await upload({ filename: "keep.pdf", mime_type: "application/pdf" }, randomUUID());
+
+            await expect(media.deleteMedia({ id: item.id }, authAs(randomUUID(), ["contributor"])))
+                .rejects.toThrow("Missing permission: media.delete");
+            await expect(media.deleteMedia({ id: randomUUID() }, authAs(randomUUID())))
+                .rejects.toThrow("Media not found");
+        });
     });
 
     describe("Database Schema Validation", () => {
@@ -392,28 +618,27 @@ describe("Media Service", () => {
             `;
 
             // Create media
-            const media = await uploadMedia({
+            const item = await upload({
                 filename: "folder-test.jpg",
                 mime_type: "image/jpeg",
-                file_size: 1000,
-                uploaded_by: uploadedBy
-            });
+                file_size: 1000
+            }, uploadedBy);
 
             // Link media to folder
             await db.exec`
                 INSERT INTO media_folder_items (media_id, folder_id)
-                VALUES (${media.id}, ${folder!.id})
+                VALUES (${item.id}, ${folder!.id})
             `;
 
             // Verify link
             const link = await db.queryRow`
                 SELECT media_id, folder_id
                 FROM media_folder_items 
-                WHERE media_id = ${media.id} AND folder_id = ${folder!.id}
+                WHERE media_id = ${item.id} AND folder_id = ${folder!.id}
             `;
 
             expect(link).toBeDefined();
-            expect(link!.media_id).toBe(media.id);
+            expect(link!.media_id).toBe(item.id);
             expect(link!.folder_id).toBe(folder!.id);
         });
     });
@@ -423,14 +648,13 @@ describe("Media Service", () => {
             const uploadedBy = randomUUID();
             
             // Upload media
-            const uploaded = await uploadMedia({
+            const uploaded = await upload({
                 filename: "workflow-test.png",
                 mime_type: "image/png",
                 file_size: 1500000,
                 alt_text: "Workflow test image",
-                caption: "Testing complete workflow",
-                uploaded_by: uploadedBy
-            });
+                caption: "Testing complete workflow"
+            }, uploadedBy);
 
             expect(uploaded.type).toBe("image");
             expect(uploaded.original_filename).toBe("workflow-test.png");
@@ -455,26 +679,23 @@ describe("Media Service", () => {
             const uploadedBy = randomUUID();
             
             // Upload different media types
-            await uploadMedia({
+            await upload({
                 filename: "test.jpg",
                 mime_type: "image/jpeg",
-                file_size: 1000,
-                uploaded_by: uploadedBy
-            });
+                file_size: 1000
+            }, uploadedBy);
 
-            await uploadMedia({
+            await upload({
                 filename: "test.mp4",
                 mime_type: "video/mp4",
-                file_size: 5000,
-                uploaded_by: uploadedBy
-            });
+                file_size: 5000
+            }, uploadedBy);
 
-            await uploadMedia({
+            await upload({
                 filename: "test.mp3",
                 mime_type: "audio/mpeg",
-                file_size: 3000,
-                uploaded_by: uploadedBy
-            });
+                file_size: 3000
+            }, uploadedBy);
 
             // List all media
             const allMedia = await listMedia({});
@@ -1,73 +1,240 @@
 import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { Bucket, ObjectNotFound } from "encore.dev/storage/objects";
 
 const db = new SQLDatabase("media", {
     migrations: "./migrations",
 });
 
-export { db };
+// Original uploads live under originals/, generated image renditions under renditions/
+const files = new Bucket("media-files", {
+    versioned: false,
+});
+
+export { db, files };
 
-import { api } from "encore.dev/api";
-import { MediaItem, MediaType, ListMediaRequest, ListMediaResponse, GetMediaResponse } from "./types";
+import { api, APIError } from "encore.dev/api";
+import { requirePermission } from "../auth/permissions";
+import { content } from "~encore/clients";
+import {
+    MediaItem,
+    MediaSortKey,
+    ListMediaRequest,
+    ListMediaResponse,
+    GetMediaResponse,
+    UploadMediaRequest,
+    UpdateMediaRequest,
+    DeleteMediaRequest,
+    DeleteMediaResponse,
+    MediaReference,
+    MediaType
+} from "./types";
+import { QueryBuilder, SortKey, paginate } from "../shared/query";
+import { MAX_REQUEST_BYTES, assertUploadSize, receiveUpload } from "./upload";
+import { sendError, sendJSON } from "./http";
+import { mediaUploaded } from "./events";
+import http from "http";
+import https from "https";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { v4 as uuidv4 } from "uuid";
 
-function getMediaTypeFromMime(mimeType: string): MediaType {
-    if (mimeType.startsWith('image/')) return 'image';
-    if (mimeType.startsWith('video/')) return 'video';
-    if (mimeType.startsWith('audio/')) return 'audio';
-    return 'document';
-}
+// Signed URLs for streamed uploads are used straight away
+const UPLOAD_URL_TTL_SECONDS = 5 * 60;
+
+// Streams the request body into storage; the metadata travels in the query string
+// (?filename=...&alt_text=...&caption=...&folder_id=...). Only the first
+// SNIFF_BYTES are held in memory, and the request must declare its Content-Length.
+export const uploadMedia = api.raw(
+    { method: "POST", path: "/upload", auth: true, expose: true, bodyLimit: MAX_REQUEST_BYTES },
+    async (req, resp) => {
+        let stored: string | undefined;
+        try {
+            const uploadedBy = requirePermission("media.upload").userID;
+            const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+            const details = {
+                filename: params.get("filename") ?? "",
+                alt_text: params.get("alt_text") ?? undefined,
+                caption: params.get("caption") ?? undefined,
+                folder_id: params.get("folder_id") ?? undefined
+            };
+
+            const length = Number(req.headers["content-length"]);
+            if (!req.headers["content-length"] || !Number.isSafeInteger(length)) {
+                throw APIError.invalidArgument("Content-Length is required");
+            }
+
+            const target = await prepareUpload(details);
+            const body = await receiveUpload(req, req.headers["content-type"]);
+            // The declared length is checked up front; UploadStream still counts what actually arrives
+            assertUploadSize(body.detected.type, length);
+
+            stored = target.file_path;
+            await uploadStream(target.file_path, body, body.detected.mime_type, length);
+            // From here recordUpload removes the object itself unless its row is committed
+            stored = undefined;
 
-interface UploadRequest {
+            const media = await recordUpload(target, details, uploadedBy, {
+                ...body.detected,
+                file_size: body.size,
+                checksum: body.checksum(),
+            });
+
+            sendJSON(resp, 201, media);
+        } catch (error) {
+            if (stored) {
+                await files.remove(stored).catch(() => undefined);
+            }
+            // The rest of a rejected body is not worth reading
+            resp.setHeader("Connection", "close");
+            sendError(resp, error);
+        }
+    }
+);
+
+type UploadDetails = Omit<UploadMediaRequest, 'file' | 'mime_type'>;
+
+interface UploadTarget {
+    id: string;
+    original_filename: string;
     filename: string;
+    file_path: string;
+}
+
+interface StoredFile {
     mime_type: string;
+    type: MediaType;
     file_size: number;
-    alt_text?: string;
-    caption?: string;
-    uploaded_by: string;
+    checksum: string;
 }
 
-export const uploadMedia = api(
-    { method: "POST", path: "/upload", auth: true },
-    async (req: UploadRequest): Promise<MediaItem> => {
-        const id = uuidv4();
-        const type = getMediaTypeFromMime(req.mime_type);
-        const filename = `${id}_${req.filename}`;
-        const file_path = `/uploads/${filename}`;
-        
-        // Insert media item
-        await db.exec`
+// Everything that can be checked before the bytes arrive, and where they will go
+async function prepareUpload(req: UploadDetails): Promise<UploadTarget> {
+    const originalName = req.filename?.trim();
+    if (!originalName) {
+        throw APIError.invalidArgument("Filename is required");
+    }
+
+    if (req.folder_id) {
+        const folder = await db.queryRow`SELECT id FROM media_folders WHERE id = ${req.folder_id}`;
+        if (!folder) {
+            throw APIError.notFound("Folder not found");
+        }
+    }
+
+    const id = uuidv4();
+    const filename = `${id}_${safeFilename(originalName)}`;
+    return { id, original_filename: originalName, filename, file_path: `originals/${filename}` };
+}
+
+/**
+ * The bucket client only uploads whole buffers, so a streamed body is PUT to
+ * a short-lived signed upload URL instead. A failure while reading the body
+ * (e.g. the size limit) aborts the PUT and is rethrown as is.
+ */
+async function uploadStream(filePath: string, body: AsyncIterable<Buffer>, contentType: string, length: number): Promise<void> {
+    const { url } = await files.signedUploadUrl(filePath, { ttl: UPLOAD_URL_TTL_SECONDS });
+    const target = new URL(url);
+
+    const request = (target.protocol === "https:" ? https : http).request(target, {
+        method: "PUT",
+        headers: { "Content-Type": contentType, "Content-Length": length },
+    });
+    const response = new Promise<http.IncomingMessage>((resolve, reject) => {
+        request.once("response", resolve);
+        request.once("error", reject);
+    });
+    // Awaited only once the body is through; a failed pipeline reports the error instead
+    response.catch(() => undefined);
+
+    await pipeline(Readable.from(body), request);
+
+    const result = await response;
+    result.resume();
+    if (!result.statusCode || result.statusCode >= 300) {
+        throw new Error(`Storing upload failed with status ${result.statusCode}`);
+    }
+}
+
+async function recordUpload(target: UploadTarget, req: UploadDetails, uploadedBy: string, file: StoredFile): Promise<MediaItem> {
+    const { id, filename, file_path } = target;
+    const { mime_type, type } = file;
+
+    const tx = await db.begin();
+    try {
+        await tx.exec`
             INSERT INTO media_items (
-                id, filename, original_filename, file_path, file_size, 
-                mime_type, type, alt_text, caption, uploaded_by
+                id, filename, original_filename, file_path, file_size,
+                mime_type, type, checksum, processing_status, alt_text, caption, uploaded_by
             )
             VALUES (
-                ${id}, ${filename}, ${req.filename}, ${file_path}, ${req.file_size},
-                ${req.mime_type}, ${type}, ${req.alt_text || null}, ${req.caption || null}, ${req.uploaded_by}
+                ${id}, ${filename}, ${target.original_filename}, ${file_path}, ${file.file_size},
+                ${mime_type}, ${type}, ${file.checksum}, ${type === 'image' ? 'pending' : null},
+                ${req.alt_text || null}, ${req.caption || null}, ${uploadedBy}
             )
         `;
-        
-        // Get created media item
-        const media = await db.queryRow<MediaItem>`
-            SELECT id, filename, original_filename, file_path, file_size, mime_type, type, 
-                   width, height, duration, alt_text, caption, uploaded_by, created_at
-            FROM media_items 
-            WHERE id = ${id}
-        `;
-        
-        if (!media) {
-            throw new Error("Failed to create media item");
+
+        if (req.folder_id) {
+            await tx.exec`
+                INSERT INTO media_folder_items (media_id, folder_id) VALUES (${id}, ${req.folder_id})
+            `;
         }
-        
-        return media;
+
+        await tx.commit();
+    } catch (error) {
+        await tx.rollback();
+        await files.remove(file_path).catch(() => undefined);
+        throw error;
     }
-);
+
+    await mediaUploaded.publish({ media_id: id, filename: target.original_filename, type, mime_type, uploaded_by: uploadedBy });
+
+    const media = await db.queryRow<MediaItem>`
+        SELECT id, filename, original_filename, file_path, file_size, mime_type, type, checksum,
+               width, height, duration, orientation, processing_status, alt_text, caption, uploaded_by, created_at
+        FROM media_items
+        WHERE id = ${id}
+    `;
+    if (!media) {
+        throw new Error("Failed to create media item");
+    }
+
+    return media;
+}
+
+// Content that still points at a media item, as reported to callers of a delete
+export async function findReferences(mediaId: string): Promise<MediaReference[]> {
+    const { usages } = await content.getMediaUsage({ mediaId });
+    return usages.map(({ content_id, title, usage }) => ({ media_id: mediaId, content_id, title, usage }));
+}
+
+// Remove an item's original and all of its renditions from the bucket; objects already gone are ignored
+export async function removeStoredFiles(mediaId: string, filePath: string): Promise<void> {
+    const names = [filePath];
+    for await (const entry of files.list({ prefix: `renditions/${mediaId}/` })) {
+        names.push(entry.name);
+    }
+
+    for (const name of names) {
+        await files.remove(name).catch((error) => {
+            if (!(error instanceof ObjectNotFound)) {
+                throw error;
+            }
+        });
+    }
+}
+
+// Keep stored names to a portable character set; the original name is kept separately
+function safeFilename(name: string): string {
+    const base = name.split(/[\\/]/).pop() ?? "";
+    return base.replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^[-.]+/, "").slice(-100) || "file";
+}
 
 export const getMedia = api(
     { method: "GET", path: "/media/:id" },
     async ({ id }: { id: string }): Promise<GetMediaResponse> => {
         const media = await db.queryRow<MediaItem>`
-            SELECT id, filename, original_filename, file_path, file_size, mime_type, type, 
-                   width, height, duration, alt_text, caption, uploaded_by, created_at
+            SELECT id, filename, original_filename, file_path, file_size, mime_type, type, checksum,
+                   width, height, duration, orientation, processing_status, alt_text, caption, uploaded_by, created_at
             FROM media_items 
             WHERE id = ${id}
         `;
@@ -76,95 +243,120 @@ export const getMedia = api(
     }
 );
 
+export const updateMedia = api(
+    { method: "PATCH", path: "/media/:id", auth: true, expose: true },
+    async ({ id, ...updates }: { id: string } & UpdateMediaRequest): Promise<MediaItem> => {
+        requirePermission("media.update");
+
+        const current = await db.queryRow<{ alt_text: string | null; caption: string | null }>`
+            SELECT alt_text, caption FROM media_items WHERE id = ${id}
+        `;
+        if (!current) {
+            throw APIError.notFound("Media not found");
+        }
+        if (updates.folder_id) {
+            const folder = await db.queryRow`SELECT id FROM media_folders WHERE id = ${updates.folder_id}`;
+            if (!folder) {
+                throw APIError.notFound("Folder not found");
+            }
+        }
+
+        const altText = updates.alt_text === undefined ? current.alt_text : updates.alt_text.trim() || null;
+        const caption = updates.caption === undefined ? current.caption : updates.caption.trim() || null;
+
+        const tx = await db.begin();
+        try {
+            await tx.exec`
+                UPDATE media_items SET alt_text = ${altText}, caption = ${caption} WHERE id = ${id}
+            `;
+
+            if (updates.folder_id !== undefined) {
+                await tx.exec`DELETE FROM media_folder_items WHERE media_id = ${id}`;
+                if (updates.folder_id) {
+                    await tx.exec`
+                        INSERT INTO media_folder_items (media_id, folder_id) VALUES (${id}, ${updates.folder_id})
+                    `;
+                }
+            }
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        const { media } = await getMedia({ id });
+        if (!media) {
+            throw APIError.notFound("Media not found");
+        }
+        return media;
+    }
+);
+
+// Refuses while content still references the item unless forced; a forced
+// delete reports the references it leaves dangling
+export const deleteMedia = api(
+    { method: "DELETE", path: "/media/:id", auth: true, expose: true },
+    async ({ id, force }: { id: string } & DeleteMediaRequest): Promise<DeleteMediaResponse> => {
+        requirePermission("media.delete");
+
+        const item = await db.queryRow<{ file_path: string }>`SELECT file_path FROM media_items WHERE id = ${id}`;
+        if (!item) {
+            throw APIError.notFound("Media not found");
+        }
+
+        const references = await findReferences(id);
+
+        if (references.length > 0 && !force) {
+            const items = new Set(references.map(r => r.content_id)).size;
+            throw APIError.failedPrecondition(
+                `Media is used by ${items} content ${items === 1 ? 'item' : 'items'}; pass force to delete it anyway`
+            );
+        }
+
+        // Renditions and folder links go with the row (ON DELETE CASCADE)
+        await db.exec`DELETE FROM media_items WHERE id = ${id}`;
+        await removeStoredFiles(id, item.file_path);
+
+        return { success: true, broken_references: references };
+    }
+);
+
+const MEDIA_SORT_KEYS: Record<MediaSortKey, SortKey> = {
+    created_at: { expression: 'created_at', type: 'timestamp', defaultOrder: 'desc' },
+    file_size: { expression: 'file_size', type: 'bigint', defaultOrder: 'desc' },
+    filename: { expression: 'original_filename', type: 'text', defaultOrder: 'asc' },
+};
+
 export const listMedia = api(
     { method: "GET", path: "/media" },
     async (req: ListMediaRequest): Promise<ListMediaResponse> => {
         const page = req.page || 1;
         const limit = Math.min(req.limit || 20, 50);
-        const offset = (page - 1) * limit;
-        
-        let countResult: { total: number } | null;
-        let itemsQuery: AsyncIterable<MediaItem>;
-        
-        // Handle different filtering cases
-        if (req.type && req.folder_id) {
-            // Filter by both type and folder
-            countResult = await db.queryRow<{ total: number }>`
-                SELECT COUNT(*) as total
-                FROM media_items
-                WHERE type = ${req.type}
-                AND id IN (SELECT media_id FROM media_folder_items WHERE folder_id = ${req.folder_id})
-            `;
-            
-            itemsQuery = await db.query<MediaItem>`
-                SELECT id, filename, original_filename, file_path, file_size, mime_type, type, 
-                       width, height, duration, alt_text, caption, uploaded_by, created_at
-                FROM media_items
-                WHERE type = ${req.type}
-                AND id IN (SELECT media_id FROM media_folder_items WHERE folder_id = ${req.folder_id})
-                ORDER BY created_at DESC
-                LIMIT ${limit} OFFSET ${offset}
-            `;
-        } else if (req.type) {
-            // Filter by type only
-            countResult = await db.queryRow<{ total: number }>`
-                SELECT COUNT(*) as total
-                FROM media_items
-                WHERE type = ${req.type}
-            `;
-            
-            itemsQuery = await db.query<MediaItem>`
-                SELECT id, filename, original_filename, file_path, file_size, mime_type, type, 
-                       width, height, duration, alt_text, caption, uploaded_by, created_at
-                FROM media_items
-                WHERE type = ${req.type}
-                ORDER BY created_at DESC
-                LIMIT ${limit} OFFSET ${offset}
-            `;
-        } else if (req.folder_id) {
-            // Filter by folder only
-            countResult = await db.queryRow<{ total: number }>`
-                SELECT COUNT(*) as total
-                FROM media_items
-                WHERE id IN (SELECT media_id FROM media_folder_items WHERE folder_id = ${req.folder_id})
-            `;
-            
-            itemsQuery = await db.query<MediaItem>`
-                SELECT id, filename, original_filename, file_path, file_size, mime_type, type, 
-                       width, height, duration, alt_text, caption, uploaded_by, created_at
-                FROM media_items
-                WHERE id IN (SELECT media_id FROM media_folder_items WHERE folder_id = ${req.folder_id})
-                ORDER BY created_at DESC
-                LIMIT ${limit} OFFSET ${offset}
-            `;
-        } else {
-            // No filters - get all media
-            countResult = await db.queryRow<{ total: number }>`
-                SELECT COUNT(*) as total
-                FROM media_items
-            `;
-            
-            itemsQuery = await db.query<MediaItem>`
-                SELECT id, filename, original_filename, file_path, file_size, mime_type, type, 
-                       width, height, duration, alt_text, caption, uploaded_by, created_at
-                FROM media_items
-                ORDER BY created_at DESC
-                LIMIT ${limit} OFFSET ${offset}
-            `;
+
+        const sort = req.sort ?? 'created_at';
+        if (!MEDIA_SORT_KEYS[sort]) {
+            throw APIError.invalidArgument(`Cannot sort media by "${sort}"`);
         }
-        
-        const total = countResult?.total || 0;
-        
-        const items = [];
-        for await (const item of itemsQuery) {
-            items.push(item);
+
+        const query = new QueryBuilder(
+            'id, filename, original_filename, file_path, file_size, mime_type, type, checksum, width, height, duration, orientation, processing_status, alt_text, caption, uploaded_by, created_at',
+            'media_items'
+        )
+            .filter('type = ?', req.type)
+            .filter('id IN (SELECT media_id FROM media_folder_items WHERE folder_id = ?)', req.folder_id)
+            .filter('uploaded_by = ?', req.uploaded_by)
+            .filter('created_at >= ?', req.from)
+            .filter('created_at <= ?', req.to);
+
+        if (req.mime_type?.endsWith('/*')) {
+            query.where('mime_type LIKE ?', `${req.mime_type.slice(0, -1)}%`);
+        } else {
+            query.filter('mime_type = ?', req.mime_type);
         }
-        
-        return {
-            items,
-            total,
-            page,
-            limit
-        };
+
+        query.orderBy(sort, MEDIA_SORT_KEYS[sort], req.order);
+
+        return await paginate<MediaItem>(db, query, { page, limit, cursor: req.cursor });
     }
 ); 
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- SHA-256 of the stored bytes, computed server-side on upload
+ALTER TABLE media_items ADD COLUMN checksum CHAR(64);
+
+CREATE INDEX idx_media_items_checksum ON media_items(checksum);
@@ -0,0 +1,17 @@
+-- Image processing state; NULL for media that is never processed
+ALTER TABLE media_items ADD COLUMN processing_status VARCHAR(20);
+-- EXIF orientation of the original (1-8); width and height are stored as displayed
+ALTER TABLE media_items ADD COLUMN orientation SMALLINT;
+
+CREATE TABLE media_renditions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    media_id UUID NOT NULL REFERENCES media_items(id) ON DELETE CASCADE,
+    variant VARCHAR(20) NOT NULL,
+    format VARCHAR(10) NOT NULL,
+    file_path TEXT NOT NULL,
+    file_size BIGINT NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (media_id, variant, format)
+);
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { planRenditions, displayDimensions, renditionPath, buildSrcset } from "./renditions";
+
+describe("planRenditions", () => {
+    it("should plan every variant for a large image", () => {
+        expect(planRenditions(4000, 3000)).toEqual([
+            { variant: "thumbnail", width: 320, height: 240 },
+            { variant: "medium", width: 960, height: 720 },
+            { variant: "large", width: 1920, height: 1440 },
+        ]);
+    });
+
+    it("should not upscale and stop once the original width is reached", () => {
+        expect(planRenditions(1200, 600)).toEqual([
+            { variant: "thumbnail", width: 320, height: 160 },
+            { variant: "medium", width: 960, height: 480 },
+            { variant: "large", width: 1200, height: 600 },
+        ]);
+
+        expect(planRenditions(800, 800)).toEqual([
+            { variant: "thumbnail", width: 320, height: 320 },
+            { variant: "medium", width: 800, height: 800 },
+        ]);
+    });
+
+    it("should always produce a thumbnail, even for tiny images", () => {
+        expect(planRenditions(16, 16)).toEqual([{ variant: "thumbnail", width: 16, height: 16 }]);
+    });
+
+    it("should keep very wide images at least one pixel tall", () => {
+        expect(planRenditions(10000, 10)[0]).toEqual({ variant: "thumbnail", width: 320, height: 1 });
+    });
+});
+
+describe("displayDimensions", () => {
+    it("should swap axes for quarter-turn orientations", () => {
+        expect(displayDimensions(4000, 3000, 6)).toEqual({ width: 3000, height: 4000 });
+        expect(displayDimensions(4000, 3000, 8)).toEqual({ width: 3000, height: 4000 });
+    });
+
+    it("should keep axes for upright, flipped or unknown orientations", () => {
+        expect(displayDimensions(4000, 3000, 1)).toEqual({ width: 4000, height: 3000 });
+        expect(displayDimensions(4000, 3000, 3)).toEqual({ width: 4000, height: 3000 });
+        expect(displayDimensions(4000, 3000)).toEqual({ width: 4000, height: 3000 });
+    });
+});
+
+describe("renditionPath", () => {
+    it("should group renditions under the media id", () => {
+        expect(renditionPath("abc", "medium", "webp")).toBe("renditions/abc/medium.webp");
+    });
+});
+
+describe("buildSrcset", () => {
+    it("should list candidates by ascending width", () => {
+        const srcset = buildSrcset([
+            { url: "https://cdn/large.avif", width: 1920 },
+            { url: "https://cdn/thumb.avif", width: 320 },
+        ]);
+
+        expect(srcset).toBe("https://cdn/thumb.avif 320w, https://cdn/large.avif 1920w");
+    });
+
+    it("should be empty without candidates", () => {
+        expect(buildSrcset([])).toBe("");
+    });
+});
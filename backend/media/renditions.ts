@@ -0,0 +1,62 @@
+import { RenditionFormat, RenditionVariant } from "./types";
+
+// Most efficient first; browsers pick the first <source> they support
+export const RENDITION_FORMATS: RenditionFormat[] = ['avif', 'webp'];
+
+export const RENDITION_MIME_TYPES: Record<RenditionFormat, string> = {
+    avif: 'image/avif',
+    webp: 'image/webp',
+};
+
+// Target widths, smallest first
+export const RENDITION_WIDTHS: Record<RenditionVariant, number> = {
+    thumbnail: 320,
+    medium: 960,
+    large: 1920,
+};
+
+export interface PlannedRendition {
+    variant: RenditionVariant;
+    width: number;
+    height: number;
+}
+
+/**
+ * Pick the renditions worth generating for an image of the given display size.
+ * Images are never upscaled, so a variant that would come out the same width
+ * as the previous one is skipped; the thumbnail is always produced.
+ */
+export function planRenditions(width: number, height: number): PlannedRendition[] {
+    const planned: PlannedRendition[] = [];
+
+    for (const [variant, target] of Object.entries(RENDITION_WIDTHS) as [RenditionVariant, number][]) {
+        const renditionWidth = Math.min(target, width);
+        if (planned.length && planned[planned.length - 1].width === renditionWidth) {
+            break;
+        }
+
+        planned.push({
+            variant,
+            width: renditionWidth,
+            height: Math.max(1, Math.round(height * renditionWidth / width)),
+        });
+    }
+
+    return planned;
+}
+
+// EXIF orientations 5-8 are rotated a quarter turn, so the stored axes are swapped
+export function displayDimensions(width: number, height: number, orientation?: number): { width: number; height: number } {
+    return orientation && orientation >= 5 ? { width: height, height: width } : { width, height };
+}
+
+export function renditionPath(mediaId: string, variant: RenditionVariant, format: RenditionFormat): string {
+    return `renditions/${mediaId}/${variant}.${format}`;
+}
+
+export function buildSrcset(candidates: { url: string; width: number }[]): string {
+    return [...candidates]
+        .sort((a, b) => a.width - b.width)
+        .map(({ url, width }) => `${url} ${width}w`)
+        .join(', ');
+}
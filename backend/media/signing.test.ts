@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { signMediaGrant, checkMediaGrant, mediaDeliveryPath } from "./signing";
+
+const KEY = "test-signing-key";
+const NOW = Date.UTC(2026, 0, 1);
+const grant = { mediaId: "0b7f3c1e-5d2a-4f8b-9c6d-1e2f3a4b5c6d", expires: NOW / 1000 + 600 };
+
+describe("checkMediaGrant", () => {
+    it("should accept a signature it produced before the expiry", () => {
+        expect(checkMediaGrant(grant, signMediaGrant(grant, KEY), KEY, undefined, NOW)).toBe("valid");
+    });
+
+    it("should reject tampered grants and other keys", () => {
+        const signature = signMediaGrant(grant, KEY);
+
+        expect(checkMediaGrant({ ...grant, expires: grant.expires + 1 }, signature, KEY, undefined, NOW)).toBe("invalid");
+        expect(checkMediaGrant({ ...grant, mediaId: "other" }, signature, KEY, undefined, NOW)).toBe("invalid");
+        expect(checkMediaGrant(grant, signature, "another-key", undefined, NOW)).toBe("invalid");
+        expect(checkMediaGrant(grant, "short", KEY, undefined, NOW)).toBe("invalid");
+    });
+
+    it("should report expiry only for genuine signatures", () => {
+        const later = (grant.expires + 1) * 1000;
+
+        expect(checkMediaGrant(grant, signMediaGrant(grant, KEY), KEY, undefined, later)).toBe("expired");
+    });
+
+    it("should bind a grant to its user", () => {
+        const bound = { ...grant, userId: "user-1" };
+        const signature = signMediaGrant(bound, KEY);
+
+        expect(checkMediaGrant(bound, signature, KEY, "user-1", NOW)).toBe("valid");
+        expect(checkMediaGrant(bound, signature, KEY, "user-2", NOW)).toBe("wrong_user");
+        expect(checkMediaGrant(bound, signature, KEY, undefined, NOW)).toBe("wrong_user");
+        // Dropping the user from the URL breaks the signature
+        expect(checkMediaGrant(grant, signature, KEY, undefined, NOW)).toBe("invalid");
+    });
+});
+
+describe("mediaDeliveryPath", () => {
+    it("should carry the expiry, user and signature", () => {
+        const path = mediaDeliveryPath({ ...grant, userId: "user-1" }, KEY);
+        const url = new URL(path, "http://localhost");
+
+        expect(url.pathname).toBe(`/media/${grant.mediaId}/file`);
+        expect(url.searchParams.get("expires")).toBe(String(grant.expires));
+        expect(url.searchParams.get("user")).toBe("user-1");
+        expect(url.searchParams.get("sig")).toBe(signMediaGrant({ ...grant, userId: "user-1" }, KEY));
+    });
+
+    it("should leave the user out of unbound URLs", () => {
+        expect(mediaDeliveryPath(grant, KEY)).not.toContain("user=");
+    });
+});
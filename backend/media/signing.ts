@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// What a delivery URL grants: one media item until a point in time, optionally to one user only
+export interface MediaGrant {
+    mediaId: string;
+    // Unix time in seconds
+    expires: number;
+    userId?: string;
+}
+
+export type GrantCheck = 'valid' | 'invalid' | 'expired' | 'wrong_user';
+
+export function signMediaGrant(grant: MediaGrant, key: string): string {
+    return createHmac("sha256", key)
+        .update(`${grant.mediaId}\n${grant.expires}\n${grant.userId ?? ''}`)
+        .digest("base64url");
+}
+
+/**
+ * Check a delivery URL's signature, then its expiry and user binding.
+ * requesterId is the authenticated caller, if any.
+ */
+export function checkMediaGrant(
+    grant: MediaGrant,
+    signature: string,
+    key: string,
+    requesterId?: string,
+    now: number = Date.now()
+): GrantCheck {
+    const expected = Buffer.from(signMediaGrant(grant, key));
+    const given = Buffer.from(signature);
+    if (!Number.isSafeInteger(grant.expires) || given.length !== expected.length || !timingSafeEqual(given, expected)) {
+        return 'invalid';
+    }
+    if (grant.expires * 1000 <= now) {
+        return 'expired';
+    }
+    if (grant.userId && grant.userId !== requesterId) {
+        return 'wrong_user';
+    }
+    return 'valid';
+}
+
+// Path and query of the delivery endpoint for a grant
+export function mediaDeliveryPath(grant: MediaGrant, key: string): string {
+    const query = new URLSearchParams({ expires: String(grant.expires) });
+    if (grant.userId) {
+        query.set("user", grant.userId);
+    }
+    query.set("sig", signMediaGrant(grant, key));
+    return `/media/${encodeURIComponent(grant.mediaId)}/file?${query}`;
+}
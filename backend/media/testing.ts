@@ -0,0 +1,68 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { Readable } from "stream";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { AuthData } from "../auth/gateway";
+import type { MediaItem, UploadMediaRequest } from "./types";
+
+/**
+ * Test helpers for the raw upload endpoint. Service clients can't call raw
+ * endpoints, so tests run the handler in-process. Test files route
+ * getAuthData() through rawCaller so the handler sees the uploader:
+ *
+ *     vi.mock("~encore/auth", async (importOriginal) => {
+ *         const actual = await importOriginal<typeof import("~encore/auth")>();
+ *         const { rawCaller } = await import("./testing");
+ *         return { ...actual, getAuthData: () => rawCaller.getStore() ?? actual.getAuthData() };
+ *     });
+ *
+ * Nothing here imports ~encore/auth up front, so the mock can load it.
+ */
+export const rawCaller = new AsyncLocalStorage<AuthData>();
+
+export interface RawResponse {
+    status: number;
+    body: any;
+}
+
+// POST a body to uploadMedia as the given caller, as the gateway would hand it over
+export async function postUpload(file: Buffer, params: Record<string, string | undefined>, caller?: AuthData, headers: Record<string, string> = {}): Promise<RawResponse> {
+    const { uploadMedia } = await import("./media");
+
+    const query = new URLSearchParams(Object.entries(params).filter((entry): entry is [string, string] => entry[1] !== undefined));
+    const req = Object.assign(Readable.from(file.length ? [file] : []), {
+        method: "POST",
+        url: `/upload?${query}`,
+        headers: { "content-length": String(file.length), ...headers },
+    });
+
+    let status = 0;
+    let body = "";
+    const resp = {
+        setHeader: () => resp,
+        writeHead: (code: number) => {
+            status = code;
+            return resp;
+        },
+        end: (chunk?: string) => {
+            body += chunk ?? "";
+            return resp;
+        },
+    };
+
+    const handle = () => uploadMedia(req as unknown as IncomingMessage, resp as unknown as ServerResponse);
+    await (caller ? rawCaller.run(caller, handle) : handle());
+
+    return { status, body: body ? JSON.parse(body) : undefined };
+}
+
+// Upload a file as a signed-in editor and return the stored item, throwing the endpoint's error message on failure
+export async function uploadFile(req: UploadMediaRequest, uploadedBy: string): Promise<MediaItem> {
+    const { file, mime_type, ...details } = req;
+    const caller = { userID: uploadedBy, email: `${uploadedBy}@example.com`, is_verified: true, roles: ["editor"] };
+
+    const { status, body } = await postUpload(file, details, caller, mime_type ? { "content-type": mime_type } : {});
+    if (status !== 201) {
+        throw new Error(body?.message ?? `Upload failed with status ${status}`);
+    }
+    return body;
+}
@@ -1,24 +1,48 @@
 // Media management types will be defined here 
 
+import { Page, SortOrder } from "../shared/query";
+
 export type MediaType = 'image' | 'video' | 'document' | 'audio';
+export type ProcessingStatus = 'pending' | 'ready' | 'failed';
+export type RenditionVariant = 'thumbnail' | 'medium' | 'large';
+export type RenditionFormat = 'avif' | 'webp';
 
 export interface MediaItem {
     id: string;
     filename: string;
     original_filename: string;
+    // Object key in the media files bucket
     file_path: string;
     file_size: number;
     mime_type: string;
     type: MediaType;
+    // SHA-256 of the stored bytes, hex encoded
+    checksum?: string;
     width?: number;
     height?: number;
     duration?: number;
+    // EXIF orientation of the original; width and height are as displayed
+    orientation?: number;
+    // Set for images, which get renditions generated after upload
+    processing_status?: ProcessingStatus;
     alt_text?: string;
     caption?: string;
     uploaded_by: string;
     created_at: Date;
 }
 
+export interface MediaRendition {
+    id: string;
+    media_id: string;
+    variant: RenditionVariant;
+    format: RenditionFormat;
+    file_path: string;
+    file_size: number;
+    width: number;
+    height: number;
+    created_at: Date;
+}
+
 export interface MediaFolder {
     id: string;
     name: string;
@@ -27,33 +51,147 @@ export interface MediaFolder {
     created_at: Date;
 }
 
+export interface MediaFolderWithCounts extends MediaFolder {
+    // Media filed directly in this folder, not counting subfolders
+    item_count: number;
+    child_count: number;
+}
+
+export interface CreateFolderRequest {
+    name: string;
+    parent_id?: string;
+}
+
+export interface RenameFolderRequest {
+    name: string;
+}
+
+export interface MoveFolderRequest {
+    // Omit to move the folder to the top level
+    parent_id?: string;
+}
+
+// What happens to the contents of a folder that is deleted while not empty
+export type DeleteFolderStrategy = 'cascade' | 'move_to_parent';
+
+export interface DeleteFolderRequest {
+    strategy?: DeleteFolderStrategy;
+    // Cascade even though content still references media in the folder
+    force?: boolean;
+}
+
+export interface DeleteFolderResponse {
+    success: boolean;
+    deleted_folders: number;
+    deleted_media: number;
+    // References left dangling by a forced cascade
+    broken_references: MediaReference[];
+}
+
+export interface ListFoldersResponse {
+    folders: MediaFolderWithCounts[];
+}
+
+export interface BreadcrumbsResponse {
+    // From the top-level folder down to the requested one
+    breadcrumbs: MediaFolder[];
+}
+
+export interface MoveMediaRequest {
+    media_ids: string[];
+    // Omit to take the media out of any folder
+    folder_id?: string;
+}
+
+export interface MoveMediaResponse {
+    moved: number;
+}
+
 export interface UploadMediaRequest {
     file: Buffer;
     filename: string;
-    mime_type: string;
+    // As declared by the client; the stored type is sniffed from the file itself
+    mime_type?: string;
     alt_text?: string;
     caption?: string;
     folder_id?: string;
 }
 
 export interface UpdateMediaRequest {
+    // An empty string clears the field
     alt_text?: string;
     caption?: string;
-    folder_id?: string;
+    // null takes the item out of its folder
+    folder_id?: string | null;
+}
+
+export interface DeleteMediaRequest {
+    // Delete even though content still references the item
+    force?: boolean;
+}
+
+export interface MediaReference {
+    media_id: string;
+    content_id: string;
+    title: string;
+    usage: 'body' | 'featured';
 }
 
+export interface DeleteMediaResponse {
+    success: boolean;
+    // References left dangling by a forced delete
+    broken_references: MediaReference[];
+}
+
+export type MediaSortKey = 'created_at' | 'file_size' | 'filename';
+
 export interface ListMediaRequest {
     folder_id?: string;
     type?: MediaType;
+    // Exact MIME type, or a family such as "image/*"
+    mime_type?: string;
+    uploaded_by?: string;
+    from?: Date;
+    to?: Date;
+    sort?: MediaSortKey;
+    order?: SortOrder;
     page?: number;
     limit?: number;
+    // Opaque token from a previous response's next_cursor; takes precedence over page
+    cursor?: string;
+}
+
+export type ListMediaResponse = Page<MediaItem>;
+
+export interface SrcsetSource {
+    format: RenditionFormat;
+    mime_type: string;
+    // Ready for a <source srcset> attribute, e.g. "https://... 320w, https://... 960w"
+    srcset: string;
+}
+
+export interface SrcsetResponse {
+    media_id: string;
+    processing_status?: ProcessingStatus;
+    width?: number;
+    height?: number;
+    // Most efficient format first, as <picture> expects
+    sources: SrcsetSource[];
+}
+
+export interface GetMediaUrlRequest {
+    // Lifetime of a private URL in seconds; ignored for published media
+    expires_in?: number;
+    // Make a private URL usable only by the caller
+    bind_to_user?: boolean;
 }
 
-export interface ListMediaResponse {
-    items: MediaItem[];
-    total: number;
-    page: number;
-    limit: number;
+export interface MediaUrlResponse {
+    // Delivery endpoint path with its signature, relative to the API base URL
+    url: string;
+    expires_at: Date;
+    // Long-lived and shareable because published content uses the item
+    public: boolean;
 }
 
 // Response wrapper interfaces for Encore.ts compatibility
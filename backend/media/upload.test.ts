@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "crypto";
+import { receiveUpload, detectFile, assertUploadSize, MAX_UPLOAD_BYTES, MAX_REQUEST_BYTES } from "./upload";
+import { SNIFF_BYTES } from "./filetype";
+
+const MB = 1024 * 1024;
+
+async function* chunked(head: Buffer, chunkSize: number, totalSize: number, counter?: { chunks: number }) {
+    let sent = 0;
+    while (sent < totalSize) {
+        const size = Math.min(chunkSize, totalSize - sent);
+        const chunk = sent === 0 ? Buffer.concat([head, Buffer.alloc(Math.max(size - head.length, 0))]) : Buffer.alloc(size);
+        sent += chunk.length;
+        if (counter) counter.chunks++;
+        yield chunk;
+    }
+}
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+
+const drain = async (upload: AsyncIterable<Buffer>) => {
+    let size = 0;
+    for await (const chunk of upload) {
+        size += chunk.length;
+    }
+    return size;
+};
+
+describe("receiveUpload", () => {
+    it("should pass the whole body through, counting and hashing it", async () => {
+        const upload = await receiveUpload(chunked(JPEG, 1000, 10_000));
+
+        expect(upload.detected).toEqual({ mime_type: "image/jpeg", type: "image" });
+        expect(await drain(upload)).toBe(10_000);
+        expect(upload.size).toBe(10_000);
+        const expected = createHash("sha256");
+        for await (const chunk of chunked(JPEG, 1000, 10_000)) {
+            expected.update(chunk);
+        }
+        expect(upload.checksum()).toBe(expected.digest("hex"));
+    });
+
+    it("should only read the head before the body is consumed", async () => {
+        const counter = { chunks: 0 };
+
+        await receiveUpload(chunked(JPEG, 1000, 100_000, counter));
+
+        expect(counter.chunks).toBe(Math.ceil(SNIFF_BYTES / 1000));
+    });
+
+    it("should stop reading once the limit for the sniffed type is exceeded", async () => {
+        const counter = { chunks: 0 };
+        const totalSize = MAX_UPLOAD_BYTES.image + 10 * MB;
+
+        const upload = await receiveUpload(chunked(JPEG, MB, totalSize, counter));
+        await expect(drain(upload)).rejects.toThrow("Image files are limited to 20 MB");
+        expect(counter.chunks).toBe(MAX_UPLOAD_BYTES.image / MB + 1);
+    });
+
+    it("should reject unsupported content as soon as it can be sniffed", async () => {
+        const counter = { chunks: 0 };
+
+        await expect(receiveUpload(chunked(Buffer.from("MZ"), 8192, 1 * MB, counter)))
+            .rejects.toThrow("Unsupported file type");
+        expect(counter.chunks).toBe(1);
+    });
+
+    it("should sniff files smaller than the head and reject empty ones", async () => {
+        await expect(receiveUpload(chunked(Buffer.from("MZ"), 100, 100))).rejects.toThrow("Unsupported file type");
+        await expect(receiveUpload(chunked(JPEG, 100, 0))).rejects.toThrow("File is empty");
+    });
+});
+
+describe("limits", () => {
+    it("should cap requests at the largest per-type limit", () => {
+        expect(MAX_REQUEST_BYTES).toBe(MAX_UPLOAD_BYTES.video);
+    });
+
+    it("should enforce the limit for each media type", () => {
+        expect(() => assertUploadSize("document", MAX_UPLOAD_BYTES.document)).not.toThrow();
+        expect(() => assertUploadSize("document", MAX_UPLOAD_BYTES.document + 1))
+            .toThrow("Document files are limited to 25 MB");
+    });
+
+    it("should classify detected files", () => {
+        expect(detectFile(JPEG)).toEqual({ mime_type: "image/jpeg", type: "image" });
+        expect(() => detectFile(Buffer.from("???"))).toThrow("Unsupported file type");
+    });
+});
@@ -0,0 +1,98 @@
+import { APIError } from "encore.dev/api";
+import { createHash } from "crypto";
+import { MediaType } from "./types";
+import { SNIFF_BYTES, detectMimeType, mediaTypeFromMime } from "./filetype";
+
+const MB = 1024 * 1024;
+
+export const MAX_UPLOAD_BYTES: Record<MediaType, number> = {
+    image: 20 * MB,
+    video: 250 * MB,
+    audio: 100 * MB,
+    document: 25 * MB,
+};
+
+// Request body cap for the upload endpoint; per-type limits apply once the type is sniffed
+export const MAX_REQUEST_BYTES = Math.max(...Object.values(MAX_UPLOAD_BYTES));
+
+export interface DetectedFile {
+    mime_type: string;
+    type: MediaType;
+}
+
+export function detectFile(head: Buffer, declared?: string): DetectedFile {
+    const mime_type = detectMimeType(head, declared);
+    if (!mime_type) {
+        throw APIError.invalidArgument("Unsupported file type");
+    }
+    return { mime_type, type: mediaTypeFromMime(mime_type) };
+}
+
+export function assertUploadSize(type: MediaType, size: number): void {
+    if (size > MAX_UPLOAD_BYTES[type]) {
+        const label = type.charAt(0).toUpperCase() + type.slice(1);
+        throw APIError.invalidArgument(`${label} files are limited to ${MAX_UPLOAD_BYTES[type] / MB} MB`);
+    }
+}
+
+/**
+ * A request body on its way to storage. Iterating it yields the sniffed head
+ * and then the rest of the body as it arrives, hashing and counting the bytes
+ * and failing as soon as the limit for the sniffed type is exceeded.
+ */
+export class UploadStream implements AsyncIterable<Buffer> {
+    size = 0;
+    private readonly hash = createHash("sha256");
+
+    constructor(
+        readonly detected: DetectedFile,
+        private readonly head: Buffer,
+        private readonly rest: AsyncIterator<Buffer>
+    ) {}
+
+    async *[Symbol.asyncIterator](): AsyncGenerator<Buffer> {
+        yield this.take(this.head);
+        for (let next = await this.rest.next(); !next.done; next = await this.rest.next()) {
+            yield this.take(next.value);
+        }
+    }
+
+    // Only meaningful once the stream has been read to the end
+    checksum(): string {
+        return this.hash.copy().digest("hex");
+    }
+
+    private take(chunk: Buffer): Buffer {
+        this.size += chunk.length;
+        assertUploadSize(this.detected.type, this.size);
+        this.hash.update(chunk);
+        return chunk;
+    }
+}
+
+/**
+ * Read just the first SNIFF_BYTES of a request body to work out its type,
+ * so an unsupported upload is rejected before anything is stored. Nothing
+ * beyond that head is held in memory.
+ */
+export async function receiveUpload(chunks: AsyncIterable<Buffer>, declared?: string): Promise<UploadStream> {
+    const rest = chunks[Symbol.asyncIterator]();
+    const head: Buffer[] = [];
+    let headSize = 0;
+
+    while (headSize < SNIFF_BYTES) {
+        const next = await rest.next();
+        if (next.done) {
+            break;
+        }
+        head.push(next.value);
+        headSize += next.value.length;
+    }
+
+    if (headSize === 0) {
+        throw APIError.invalidArgument("File is empty");
+    }
+
+    const first = Buffer.concat(head, headSize);
+    return new UploadStream(detectFile(first.subarray(0, SNIFF_BYTES), declared), first, rest);
+}
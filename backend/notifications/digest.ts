@@ -0,0 +1,70 @@
+import { api } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import { auth, mailer } from "~encore/clients";
+import { db } from "./notifications";
+import { SendDigestsResponse } from "./types";
+
+interface PendingItem {
+    id: string;
+    user_id: string;
+    title: string;
+    message: string;
+    created_at: Date;
+}
+
+// Email each user one digest of their digest-channel notifications since the last run (Cron Job)
+export const sendNotificationDigests = api(
+    { method: "POST", path: "/internal/notifications/digest" },
+    async (): Promise<SendDigestsResponse> => {
+        const rows = db.query<PendingItem>`
+            SELECT id, user_id, title, message, created_at
+            FROM notifications
+            WHERE digested_at IS NULL AND 'digest' = ANY(channels)
+            ORDER BY user_id, created_at
+        `;
+
+        const pending = new Map<string, PendingItem[]>();
+        for await (const row of rows) {
+            const items = pending.get(row.user_id) ?? [];
+            items.push(row);
+            pending.set(row.user_id, items);
+        }
+
+        if (pending.size === 0) {
+            return { digests: 0, notifications: 0 };
+        }
+
+        const { users } = await auth.getUserEmails({ user_ids: [...pending.keys()] });
+        const emails = new Map(users.map(user => [user.id, user.email]));
+
+        let digests = 0;
+        let notifications = 0;
+        for (const [userId, items] of pending) {
+            const email = emails.get(userId);
+            // Accounts that no longer exist are marked done without sending anything
+            if (email) {
+                await mailer.sendEmail({
+                    to: email,
+                    message: {
+                        template: 'notification_digest',
+                        items: items.map(({ title, message, created_at }) => ({ title, message, created_at })),
+                    },
+                });
+                digests++;
+                notifications += items.length;
+            }
+
+            await db.exec`
+                UPDATE notifications SET digested_at = NOW() WHERE id = ANY(${items.map(item => item.id)}::uuid[])
+            `;
+        }
+
+        return { digests, notifications };
+    }
+);
+
+const _ = new CronJob("notification-digest", {
+    title: "Email daily notification digests",
+    every: "24h",
+    endpoint: sendNotificationDigests,
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { StreamHub } from "./hub";
+
+const recorder = () => {
+    const received: string[] = [];
+    return { received, deliver: async (message: string) => { received.push(message); } };
+};
+
+describe("StreamHub", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should deliver to every session of the target user only", async () => {
+        const hub = new StreamHub<string>();
+        const laptop = recorder();
+        const phone = recorder();
+        const other = recorder();
+        hub.connect("alice", laptop.deliver);
+        hub.connect("alice", phone.deliver);
+        hub.connect("bob", other.deliver);
+
+        const reached = await hub.broadcast("alice", "hello");
+
+        expect(reached).toBe(2);
+        expect(laptop.received).toEqual(["hello"]);
+        expect(phone.received).toEqual(["hello"]);
+        expect(other.received).toEqual([]);
+    });
+
+    it("should drop a session whose delivery fails and resolve closed", async () => {
+        const hub = new StreamHub<string>();
+        const connection = hub.connect("alice", async () => { throw new Error("socket closed"); });
+
+        await hub.broadcast("alice", "hello");
+
+        await expect(connection.closed).resolves.toBeUndefined();
+        expect(hub.isConnected("alice")).toBe(false);
+        expect(await hub.broadcast("alice", "again")).toBe(0);
+    });
+
+    it("should keep other sessions when one is closed", async () => {
+        const hub = new StreamHub<string>();
+        const stays = recorder();
+        const leaving = hub.connect("alice", recorder().deliver);
+        hub.connect("alice", stays.deliver);
+
+        leaving.close();
+        await hub.broadcast("alice", "still here");
+
+        expect(stays.received).toEqual(["still here"]);
+    });
+
+    it("should send heartbeats until the connection closes", async () => {
+        vi.useFakeTimers();
+        const hub = new StreamHub<string>();
+        const session = recorder();
+
+        const connection = hub.connect("alice", session.deliver, { heartbeat: () => "ping", heartbeatMs: 1000 });
+        await vi.advanceTimersByTimeAsync(2500);
+        connection.close();
+        await vi.advanceTimersByTimeAsync(5000);
+
+        expect(session.received).toEqual(["ping", "ping"]);
+    });
+});
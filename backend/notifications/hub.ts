@@ -0,0 +1,75 @@
+import { NotificationStreamMessage } from "./types";
+
+// Delivers a message to one open stream; rejects once the client has gone away
+export type Deliver<T> = (message: T) => Promise<void>;
+
+export interface HubConnection<T> {
+    // Resolves when the connection drops or is closed
+    readonly closed: Promise<void>;
+    send(message: T): Promise<void>;
+    close(): void;
+}
+
+export interface ConnectOptions<T> {
+    // Sent every heartbeatMs so proxies keep the socket open and dead clients are noticed
+    heartbeat?: () => T;
+    heartbeatMs?: number;
+}
+
+/**
+ * Open streams per user within this process. A user may have several
+ * sessions (tabs, devices); each one receives every message for that user.
+ */
+export class StreamHub<T> {
+    private readonly connections = new Map<string, Set<HubConnection<T>>>();
+
+    connect(userId: string, deliver: Deliver<T>, options: ConnectOptions<T> = {}): HubConnection<T> {
+        let timer: ReturnType<typeof setInterval> | undefined;
+        let markClosed!: () => void;
+        const closed = new Promise<void>(resolve => { markClosed = resolve; });
+
+        const connection: HubConnection<T> = {
+            closed,
+            send: async (message) => {
+                try {
+                    await deliver(message);
+                } catch {
+                    connection.close();
+                }
+            },
+            close: () => {
+                clearInterval(timer);
+                this.connections.get(userId)?.delete(connection);
+                if (this.connections.get(userId)?.size === 0) {
+                    this.connections.delete(userId);
+                }
+                markClosed();
+            },
+        };
+
+        const sessions = this.connections.get(userId) ?? new Set();
+        sessions.add(connection);
+        this.connections.set(userId, sessions);
+
+        const heartbeat = options.heartbeat;
+        if (heartbeat && options.heartbeatMs) {
+            timer = setInterval(() => void connection.send(heartbeat()), options.heartbeatMs);
+        }
+
+        return connection;
+    }
+
+    // Send to every open session of the user; returns how many there were
+    async broadcast(userId: string, message: T): Promise<number> {
+        const sessions = [...(this.connections.get(userId) ?? [])];
+        await Promise.all(sessions.map(connection => connection.send(message)));
+        return sessions.length;
+    }
+
+    isConnected(userId: string): boolean {
+        return this.connections.has(userId);
+    }
+}
+
+// Open notification streams of this instance
+export const inbox = new StreamHub<NotificationStreamMessage>();
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+    contentPublishedNotifications,
+    contentUnpublishedNotifications,
+    submittedForReviewNotifications,
+    mediaUploadedNotifications,
+    userRegisteredNotifications,
+    passwordChangedNotifications,
+    accountLockedNotifications,
+    refreshTokenReusedNotifications
+} from "./messages";
+
+const contentEvent = (overrides = {}) => ({
+    content_id: "c1",
+    title: "Spring launch",
+    slug: "spring-launch",
+    author_id: "author",
+    actor_id: "editor",
+    trigger: "manual" as const,
+    occurred_at: new Date(),
+    ...overrides,
+});
+
+describe("content notifications", () => {
+    it("should tell the author when someone else publishes their item", () => {
+        expect(contentPublishedNotifications(contentEvent())).toEqual([{
+            user_id: "author",
+            event: "content_published",
+            type: "success",
+            title: "Content published",
+            message: '"Spring launch" is now live',
+        }]);
+    });
+
+    it("should stay quiet when authors publish or unpublish their own items", () => {
+        expect(contentPublishedNotifications(contentEvent({ actor_id: "author" }))).toEqual([]);
+        expect(contentUnpublishedNotifications(contentEvent({ actor_id: "author" }))).toEqual([]);
+    });
+
+    it("should always report scheduled runs to the author", () => {
+        const [notification] = contentPublishedNotifications(contentEvent({ actor_id: "author", trigger: "schedule" }));
+
+        expect(notification.message).toBe('"Spring launch" went live as scheduled');
+    });
+
+    it("should notify every reviewer except the submitter", () => {
+        const notifications = submittedForReviewNotifications(contentEvent({ actor_id: "editor-2" }), ["editor-1", "editor-2", "admin"]);
+
+        expect(notifications.map(n => n.user_id)).toEqual(["editor-1", "admin"]);
+        expect(notifications[0].message).toBe('"Spring launch" was submitted for review');
+    });
+});
+
+describe("account and media notifications", () => {
+    it("should welcome new users and tell admins", () => {
+        const notifications = userRegisteredNotifications(
+            { user_id: "new", email: "new@example.com", registered_at: new Date() },
+            ["admin-1", "admin-2"]
+        );
+
+        expect(notifications.map(n => [n.user_id, n.title])).toEqual([
+            ["new", "Welcome"],
+            ["admin-1", "New user"],
+            ["admin-2", "New user"],
+        ]);
+    });
+
+    it("should warn the owner about password changes and resets", () => {
+        const [changed] = passwordChangedNotifications({ user_id: "u1", method: "change", changed_at: new Date() });
+        const [reset] = passwordChangedNotifications({ user_id: "u1", method: "reset", changed_at: new Date() });
+
+        expect(changed).toMatchObject({ user_id: "u1", type: "warning", title: "Password changed" });
+        expect(reset.message).toContain("reset link");
+    });
+
+    it("should tell the owner their account was locked", () => {
+        const [locked] = accountLockedNotifications({
+            user_id: "u1",
+            email: "u1@example.com",
+            failed_attempts: 10,
+            locked_until: new Date(Date.now() + 15 * 60 * 1000),
+        });
+
+        expect(locked).toMatchObject({ user_id: "u1", event: "account_locked", type: "error", title: "Account locked" });
+        expect(locked.message).toContain("15 minutes after 10 failed attempts");
+    });
+
+    it("should tell the owner a session was signed out after token reuse", () => {
+        const [reused] = refreshTokenReusedNotifications({
+            user_id: "u1",
+            family_id: "f1",
+            ip_address: "203.0.113.7",
+            detected_at: new Date(),
+        });
+
+        expect(reused).toMatchObject({ user_id: "u1", event: "session_compromised", type: "error", title: "Session signed out" });
+        expect(reused.message).toContain("from 203.0.113.7");
+    });
+
+    it("should confirm uploads to the uploader", () => {
+        const [image] = mediaUploadedNotifications({ media_id: "m1", filename: "hero.jpg", type: "image", mime_type: "image/jpeg", uploaded_by: "u1" });
+        const [pdf] = mediaUploadedNotifications({ media_id: "m2", filename: "kit.pdf", type: "document", mime_type: "application/pdf", uploaded_by: "u1" });
+
+        expect(image.user_id).toBe("u1");
+        expect(image.message).toContain("responsive versions");
+        expect(pdf.message).toBe('"kit.pdf" was uploaded');
+    });
+});
@@ -0,0 +1,122 @@
+import type { ContentStatusEvent } from "../content/events";
+import type { MediaUploadedEvent } from "../media/events";
+import type { UserRegisteredEvent, PasswordChangedEvent, AccountLockedEvent, RefreshTokenReusedEvent } from "../auth/events";
+import { SendNotificationRequest } from "./types";
+
+// Turn domain events into per-user notifications. Content and review changes
+// are not echoed back to whoever made them; uploads, the welcome message and
+// security notices go to the user they concern, since telling them is the point.
+
+export function contentPublishedNotifications(event: ContentStatusEvent): SendNotificationRequest[] {
+    if (event.trigger === 'manual' && event.actor_id === event.author_id) {
+        return [];
+    }
+
+    return [{
+        user_id: event.author_id,
+        event: 'content_published',
+        type: 'success',
+        title: "Content published",
+        message: event.trigger === 'schedule'
+            ? `"${event.title}" went live as scheduled`
+            : `"${event.title}" is now live`,
+    }];
+}
+
+export function contentUnpublishedNotifications(event: ContentStatusEvent): SendNotificationRequest[] {
+    if (event.trigger === 'manual' && event.actor_id === event.author_id) {
+        return [];
+    }
+
+    return [{
+        user_id: event.author_id,
+        event: 'content_unpublished',
+        type: 'warning',
+        title: "Content taken offline",
+        message: `"${event.title}" is no longer live`,
+    }];
+}
+
+export function submittedForReviewNotifications(event: ContentStatusEvent, reviewerIds: string[]): SendNotificationRequest[] {
+    return reviewerIds
+        .filter(id => id !== event.actor_id)
+        .map(user_id => ({
+            user_id,
+            event: 'review_requested' as const,
+            type: 'info' as const,
+            title: "Review requested",
+            message: `"${event.title}" was submitted for review`,
+        }));
+}
+
+export function mediaUploadedNotifications(event: MediaUploadedEvent): SendNotificationRequest[] {
+    return [{
+        user_id: event.uploaded_by,
+        event: 'media_uploaded',
+        type: 'success',
+        title: "Upload complete",
+        message: event.type === 'image'
+            ? `"${event.filename}" was uploaded; responsive versions are being generated`
+            : `"${event.filename}" was uploaded`,
+    }];
+}
+
+export function userRegisteredNotifications(event: UserRegisteredEvent, adminIds: string[]): SendNotificationRequest[] {
+    return [
+        {
+            user_id: event.user_id,
+            event: 'user_registered',
+            type: 'info',
+            title: "Welcome",
+            message: "Your account is ready.",
+        },
+        ...adminIds
+            .filter(id => id !== event.user_id)
+            .map(user_id => ({
+                user_id,
+                event: 'user_registered' as const,
+                type: 'info' as const,
+                title: "New user",
+                message: `${event.email} just signed up`,
+            })),
+    ];
+}
+
+// Always sent: an unexpected change is exactly what the owner needs to hear about
+export function passwordChangedNotifications(event: PasswordChangedEvent): SendNotificationRequest[] {
+    return [{
+        user_id: event.user_id,
+        event: 'password_changed',
+        type: 'warning',
+        title: "Password changed",
+        message: event.method === 'reset'
+            ? "Your password was reset with a reset link. If this wasn't you, contact an administrator."
+            : "Your password was changed. If this wasn't you, contact an administrator.",
+    }];
+}
+
+// Always sent: someone may be guessing the owner's password
+export function accountLockedNotifications(event: AccountLockedEvent): SendNotificationRequest[] {
+    const minutes = Math.max(1, Math.ceil((new Date(event.locked_until).getTime() - Date.now()) / 60000));
+    return [{
+        user_id: event.user_id,
+        event: 'account_locked',
+        type: 'error',
+        title: "Account locked",
+        message: `Sign-in was locked for ${minutes} minutes after ${event.failed_attempts} failed attempts. ` +
+            "If this wasn't you, change your password or contact an administrator.",
+    }];
+}
+
+// Always sent: a stolen refresh token is the likeliest reason for a replay
+export function refreshTokenReusedNotifications(event: RefreshTokenReusedEvent): SendNotificationRequest[] {
+    const origin = event.ip_address ? ` from ${event.ip_address}` : "";
+    return [{
+        user_id: event.user_id,
+        event: 'session_compromised',
+        type: 'error',
+        title: "Session signed out",
+        message: `An old sign-in token was used again${origin}, so that session was signed out everywhere. ` +
+            "If this wasn't you, change your password.",
+    }];
+}
@@ -0,0 +1,17 @@
+CREATE TABLE notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('info', 'success', 'warning', 'error')),
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    read BOOLEAN NOT NULL DEFAULT false,
+    read_at TIMESTAMP,
+    archived_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Inbox listing: newest first per user
+CREATE INDEX idx_notifications_user_created ON notifications(user_id, created_at DESC, id DESC);
+
+-- Keeps the unread badge count cheap
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE NOT read AND archived_at IS NULL;
@@ -0,0 +1,17 @@
+-- What each notification was about, and which channels it went out on after preferences were applied
+ALTER TABLE notifications ADD COLUMN event VARCHAR(50) NOT NULL DEFAULT 'announcement';
+ALTER TABLE notifications ADD COLUMN channels TEXT[] NOT NULL DEFAULT '{in_app}';
+
+DROP INDEX idx_notifications_unread;
+CREATE INDEX idx_notifications_unread ON notifications(user_id)
+    WHERE NOT read AND archived_at IS NULL AND 'in_app' = ANY(channels);
+
+-- Only choices that differ from the defaults need a row
+CREATE TABLE notification_preferences (
+    user_id UUID NOT NULL,
+    event VARCHAR(50) NOT NULL,
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('in_app', 'email', 'digest')),
+    enabled BOOLEAN NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, event, channel)
+);
@@ -0,0 +1,5 @@
+-- Set once a digest-channel notification has gone out in a digest email
+ALTER TABLE notifications ADD COLUMN digested_at TIMESTAMP;
+
+CREATE INDEX idx_notifications_digest_pending ON notifications(user_id, created_at)
+    WHERE digested_at IS NULL AND 'digest' = ANY(channels);
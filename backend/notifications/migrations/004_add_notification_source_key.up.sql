@@ -0,0 +1,5 @@
+-- The event message a notification was created from, so a redelivered message doesn't notify twice
+ALTER TABLE notifications ADD COLUMN source_key TEXT;
+
+-- NULLs never conflict, so notifications sent directly are unaffected
+ALTER TABLE notifications ADD CONSTRAINT notifications_user_source_key UNIQUE (user_id, source_key);
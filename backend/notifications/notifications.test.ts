@@ -1,15 +1,33 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { sendNotification, getNotifications, notifications } from "./notifications";
-import { NotificationType } from "./types";
+import { notifications as notificationsClient } from "~encore/clients";
+import { db, createNotification } from "./notifications";
+import { inbox } from "./hub";
+import { NotificationStreamMessage, NotificationType } from "./types";
 import { randomUUID } from "crypto";
 
+// getNotifications only serves the caller's own inbox
+const authAs = (userID: string) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles: [] as string[] }
+});
+
+// Sending requires the notifications.send permission (editor and up)
+const asSender = {
+    authData: { userID: randomUUID(), email: "sender@example.com", is_verified: true, roles: ["editor"] }
+};
+
 describe("Notifications Service", () => {
-    // Clear in-memory storage before each test
-    beforeEach(() => {
-        // Clear the notifications Map before each test
-        notifications.clear();
+    beforeEach(async () => {
+        await db.exec`DELETE FROM notifications`;
+        await db.exec`DELETE FROM notification_preferences`;
     });
 
+    const notify = (userId: string, title = "Hello") => notificationsClient.sendNotification({
+        type: "info" as NotificationType,
+        title,
+        message: `${title} message`,
+        user_id: userId
+    }, asSender);
+
     describe("sendNotification", () => {
         it("should send a new notification", async () => {
             const userId = randomUUID();
@@ -20,7 +38,7 @@ describe("Notifications Service", () => {
                 user_id: userId
             };
 
-            const result = await sendNotification(request);
+            const result = await notificationsClient.sendNotification(request, asSender);
 
             expect(result).toBeDefined();
             expect(result.id).toBeDefined();
@@ -42,10 +60,10 @@ describe("Notifications Service", () => {
             ];
 
             for (const testCase of testCases) {
-                const result = await sendNotification({
+                const result = await notificationsClient.sendNotification({
                     ...testCase,
                     user_id: userId
-                });
+                }, asSender);
 
                 expect(result.type).toBe(testCase.type);
                 expect(result.title).toBe(testCase.title);
@@ -63,8 +81,8 @@ describe("Notifications Service", () => {
                 user_id: userId
             };
 
-            const result1 = await sendNotification(baseRequest);
-            const result2 = await sendNotification(baseRequest);
+            const result1 = await notificationsClient.sendNotification(baseRequest, asSender);
+            const result2 = await notificationsClient.sendNotification(baseRequest, asSender);
 
             expect(result1.id).not.toBe(result2.id);
             expect(result1.id).toBeDefined();
@@ -80,7 +98,7 @@ describe("Notifications Service", () => {
                 user_id: userId
             };
 
-            const result = await sendNotification(request);
+            const result = await notificationsClient.sendNotification(request, asSender);
 
             expect(result.read).toBe(false);
         });
@@ -89,12 +107,12 @@ describe("Notifications Service", () => {
             const userId = randomUUID();
             const beforeTime = new Date();
             
-            const result = await sendNotification({
+            const result = await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: "Timestamp Test",
                 message: "Testing timestamp",
                 user_id: userId
-            });
+            }, asSender);
 
             const afterTime = new Date();
 
@@ -102,12 +120,33 @@ describe("Notifications Service", () => {
             expect(result.created_at.getTime()).toBeGreaterThanOrEqual(beforeTime.getTime());
             expect(result.created_at.getTime()).toBeLessThanOrEqual(afterTime.getTime());
         });
+
+        it("should reject senders without the notifications.send permission", async () => {
+            const userId = randomUUID();
+
+            await expect(notificationsClient.sendNotification({
+                type: "info" as NotificationType,
+                title: "Not allowed",
+                message: "Viewers cannot send notifications",
+                user_id: userId
+            }, authAs(userId))).rejects.toThrow("Missing permission: notifications.send");
+        });
+
+        it("should reject security events that recipients cannot mute", async () => {
+            await expect(notificationsClient.sendNotification({
+                type: "warning" as NotificationType,
+                title: "Your password was changed",
+                message: "Spoofed security notice",
+                user_id: randomUUID(),
+                event: "password_changed"
+            }, asSender)).rejects.toThrow("password_changed notifications can only be sent by the system");
+        });
     });
 
     describe("getNotifications", () => {
         it("should return empty array for user with no notifications", async () => {
             const userId = randomUUID();
-            const result = await getNotifications({ userId });
+            const result = await notificationsClient.getNotifications({ userId }, authAs(userId));
 
             expect(result.notifications).toEqual([]);
             expect(Array.isArray(result.notifications)).toBe(true);
@@ -117,14 +156,14 @@ describe("Notifications Service", () => {
             const userId = randomUUID();
             
             // Send a notification first
-            const sentNotification = await sendNotification({
+            const sentNotification = await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: "Test Notification",
                 message: "Test message",
                 user_id: userId
-            });
+            }, asSender);
 
-            const result = await getNotifications({ userId });
+            const result = await notificationsClient.getNotifications({ userId }, authAs(userId));
 
             expect(result.notifications).toHaveLength(1);
             expect(result.notifications[0].id).toBe(sentNotification.id);
@@ -137,33 +176,33 @@ describe("Notifications Service", () => {
             const userId = randomUUID();
             
             // Send multiple notifications with slight delays
-            const notification1 = await sendNotification({
+            const notification1 = await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: "First Notification",
                 message: "First message",
                 user_id: userId
-            });
+            }, asSender);
 
             // Small delay to ensure different timestamps
             await new Promise(resolve => setTimeout(resolve, 10));
 
-            const notification2 = await sendNotification({
+            const notification2 = await notificationsClient.sendNotification({
                 type: "success" as NotificationType,
                 title: "Second Notification",
                 message: "Second message",
                 user_id: userId
-            });
+            }, asSender);
 
             await new Promise(resolve => setTimeout(resolve, 10));
 
-            const notification3 = await sendNotification({
+            const notification3 = await notificationsClient.sendNotification({
                 type: "warning" as NotificationType,
                 title: "Third Notification",
                 message: "Third message",
                 user_id: userId
-            });
+            }, asSender);
 
-            const result = await getNotifications({ userId });
+            const result = await notificationsClient.getNotifications({ userId }, authAs(userId));
 
             expect(result.notifications).toHaveLength(3);
             expect(result.notifications[0].id).toBe(notification3.id); // Most recent first
@@ -176,22 +215,22 @@ describe("Notifications Service", () => {
             const user2Id = randomUUID();
             
             // Send notifications to different users
-            await sendNotification({
+            await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: "User 1 Notification",
                 message: "Message for user 1",
                 user_id: user1Id
-            });
+            }, asSender);
 
-            await sendNotification({
+            await notificationsClient.sendNotification({
                 type: "success" as NotificationType,
                 title: "User 2 Notification",
                 message: "Message for user 2",
                 user_id: user2Id
-            });
+            }, asSender);
 
-            const user1Notifications = await getNotifications({ userId: user1Id });
-            const user2Notifications = await getNotifications({ userId: user2Id });
+            const user1Notifications = await notificationsClient.getNotifications({ userId: user1Id }, authAs(user1Id));
+            const user2Notifications = await notificationsClient.getNotifications({ userId: user2Id }, authAs(user2Id));
 
             expect(user1Notifications.notifications).toHaveLength(1);
             expect(user2Notifications.notifications).toHaveLength(1);
@@ -199,25 +238,32 @@ describe("Notifications Service", () => {
             expect(user2Notifications.notifications[0].title).toBe("User 2 Notification");
         });
 
+        it("should refuse to read another user's notifications", async () => {
+            await expect(notificationsClient.getNotifications(
+                { userId: randomUUID() },
+                authAs(randomUUID())
+            )).rejects.toThrow("Cannot read another user's notifications");
+        });
+
         it("should handle multiple notifications for same user", async () => {
             const userId = randomUUID();
             
             // Send multiple notifications
             const notifications = [];
             for (let i = 1; i <= 5; i++) {
-                const notification = await sendNotification({
+                const notification = await notificationsClient.sendNotification({
                     type: "info" as NotificationType,
                     title: `Notification ${i}`,
                     message: `Message ${i}`,
                     user_id: userId
-                });
+                }, asSender);
                 notifications.push(notification);
                 
                 // Small delay to ensure different timestamps
                 await new Promise(resolve => setTimeout(resolve, 5));
             }
 
-            const result = await getNotifications({ userId });
+            const result = await notificationsClient.getNotifications({ userId }, authAs(userId));
 
             expect(result.notifications).toHaveLength(5);
             
@@ -230,20 +276,220 @@ describe("Notifications Service", () => {
         });
     });
 
+    describe("pagination", () => {
+        it("should page through the inbox newest first with totals", async () => {
+            const userId = randomUUID();
+            for (let i = 1; i <= 5; i++) {
+                await notify(userId, `N${i}`);
+            }
+
+            const first = await notificationsClient.getNotifications({ userId, limit: 2 }, authAs(userId));
+            const second = await notificationsClient.getNotifications({ userId, limit: 2, cursor: first.next_cursor }, authAs(userId));
+            const third = await notificationsClient.getNotifications({ userId, limit: 2, page: 3 }, authAs(userId));
+
+            expect(first.total).toBe(5);
+            expect(first.notifications.map(n => n.title)).toEqual(["N5", "N4"]);
+            expect(second.notifications.map(n => n.title)).toEqual(["N3", "N2"]);
+            expect(third.notifications.map(n => n.title)).toEqual(["N1"]);
+            expect(third.next_cursor).toBeUndefined();
+        });
+
+        it("should list only unread notifications on request", async () => {
+            const userId = randomUUID();
+            const read = await notify(userId, "Read");
+            await notify(userId, "Unread");
+            await notificationsClient.markNotificationRead({ userId, id: read.id }, authAs(userId));
+
+            const result = await notificationsClient.getNotifications({ userId, unread_only: true }, authAs(userId));
+
+            expect(result.notifications.map(n => n.title)).toEqual(["Unread"]);
+        });
+    });
+
+    describe("read state", () => {
+        it("should mark one notification read and keep the first read time", async () => {
+            const userId = randomUUID();
+            const sent = await notify(userId);
+
+            const read = await notificationsClient.markNotificationRead({ userId, id: sent.id }, authAs(userId));
+            const again = await notificationsClient.markNotificationRead({ userId, id: sent.id }, authAs(userId));
+
+            expect(read.read).toBe(true);
+            expect(read.read_at).toBeInstanceOf(Date);
+            expect(again.read_at).toEqual(read.read_at);
+        });
+
+        it("should mark everything read and count unread notifications", async () => {
+            const userId = randomUUID();
+            await notify(userId, "One");
+            await notify(userId, "Two");
+            await notify(randomUUID(), "Someone else's");
+
+            expect(await notificationsClient.getUnreadCount({ userId }, authAs(userId))).toEqual({ count: 2 });
+
+            const result = await notificationsClient.markAllNotificationsRead({ userId }, authAs(userId));
+
+            expect(result.updated).toBe(2);
+            expect(await notificationsClient.getUnreadCount({ userId }, authAs(userId))).toEqual({ count: 0 });
+        });
+
+        it("should not touch other users' notifications", async () => {
+            const owner = randomUUID();
+            const intruder = randomUUID();
+            const sent = await notify(owner);
+
+            await expect(notificationsClient.markNotificationRead({ userId: intruder, id: sent.id }, authAs(intruder)))
+                .rejects.toThrow("Notification not found");
+            await expect(notificationsClient.markNotificationRead({ userId: owner, id: sent.id }, authAs(intruder)))
+                .rejects.toThrow("Cannot change another user's notifications");
+            await expect(notificationsClient.getUnreadCount({ userId: owner }, authAs(intruder)))
+                .rejects.toThrow("Cannot read another user's notifications");
+        });
+    });
+
+    describe("archive and delete", () => {
+        it("should move archived notifications out of the inbox and the unread count", async () => {
+            const userId = randomUUID();
+            const archived = await notify(userId, "Old news");
+            await notify(userId, "Fresh");
+
+            const result = await notificationsClient.archiveNotification({ userId, id: archived.id }, authAs(userId));
+
+            expect(result.archived_at).toBeInstanceOf(Date);
+            expect(result.read).toBe(true);
+            const inbox = await notificationsClient.getNotifications({ userId }, authAs(userId));
+            expect(inbox.notifications.map(n => n.title)).toEqual(["Fresh"]);
+            const archive = await notificationsClient.getNotifications({ userId, archived: true }, authAs(userId));
+            expect(archive.notifications.map(n => n.title)).toEqual(["Old news"]);
+            expect(await notificationsClient.getUnreadCount({ userId }, authAs(userId))).toEqual({ count: 1 });
+        });
+
+        it("should delete a notification", async () => {
+            const userId = randomUUID();
+            const sent = await notify(userId);
+
+            expect(await notificationsClient.deleteNotification({ userId, id: sent.id }, authAs(userId))).toEqual({ success: true });
+            await expect(notificationsClient.deleteNotification({ userId, id: sent.id }, authAs(userId)))
+                .rejects.toThrow("Notification not found");
+            expect((await notificationsClient.getNotifications({ userId }, authAs(userId))).total).toBe(0);
+        });
+    });
+
+    describe("live delivery", () => {
+        it("should push new notifications and unread counts to open sessions", async () => {
+            const userId = randomUUID();
+            const received: NotificationStreamMessage[] = [];
+            const connection = inbox.connect(userId, async (message) => { received.push(message); });
+
+            const sent = await notify(userId, "Live");
+            await notificationsClient.markNotificationRead({ userId, id: sent.id }, authAs(userId));
+            connection.close();
+
+            expect(received.map(m => m.event)).toEqual(["notification", "unread_count", "unread_count"]);
+            expect(received[0].notification!.id).toBe(sent.id);
+            expect(received.map(m => m.unread_count).slice(1)).toEqual([1, 0]);
+        });
+
+        it("should not notify twice for a redelivered event message", async () => {
+            const userId = randomUUID();
+            const received: NotificationStreamMessage[] = [];
+            const connection = inbox.connect(userId, async (message) => { received.push(message); });
+            const request = { type: "info" as NotificationType, title: "Once", message: "Once message", user_id: userId };
+
+            const first = await createNotification(request, "content-published:msg-1");
+            const again = await createNotification(request, "content-published:msg-1");
+            connection.close();
+
+            expect(again.id).toBe(first.id);
+            expect(received.filter(m => m.event === "notification")).toHaveLength(1);
+            const stored = await db.queryRow<{ count: number }>`SELECT COUNT(*)::int AS count FROM notifications WHERE user_id = ${userId}`;
+            expect(stored!.count).toBe(1);
+        });
+    });
+
+    describe("preferences", () => {
+        it("should start from the defaults", async () => {
+            const userId = randomUUID();
+
+            const { preferences } = await notificationsClient.getPreferences({ userId }, authAs(userId));
+
+            const review = preferences.filter(p => p.event === "review_requested");
+            expect(review.map(p => [p.channel, p.enabled])).toEqual([["in_app", true], ["email", true], ["digest", false]]);
+        });
+
+        it("should keep notifications out of the inbox when in-app is turned off", async () => {
+            const userId = randomUUID();
+            await notificationsClient.updatePreferences({
+                userId,
+                preferences: [{ event: "announcement", channel: "in_app", enabled: false }]
+            }, authAs(userId));
+
+            const sent = await notify(userId, "Quiet");
+
+            expect(sent.channels).toEqual([]);
+            expect((await notificationsClient.getNotifications({ userId }, authAs(userId))).total).toBe(0);
+            expect(await notificationsClient.getUnreadCount({ userId }, authAs(userId))).toEqual({ count: 0 });
+        });
+
+        it("should record the channels a notification went out on", async () => {
+            const userId = randomUUID();
+            await notificationsClient.updatePreferences({
+                userId,
+                preferences: [{ event: "announcement", channel: "digest", enabled: true }]
+            }, authAs(userId));
+
+            const sent = await notify(userId);
+
+            expect(sent.event).toBe("announcement");
+            expect(sent.channels).toEqual(["in_app", "digest"]);
+        });
+
+        it("should collect digest notifications once", async () => {
+            const userId = randomUUID();
+            await notificationsClient.updatePreferences({
+                userId,
+                preferences: [{ event: "announcement", channel: "digest", enabled: true }]
+            }, authAs(userId));
+            const digested = await notify(userId, "In the digest");
+            const skipped = await notify(randomUUID(), "Inbox only");
+
+            await notificationsClient.sendNotificationDigests();
+
+            const rows = await db.queryAll<{ id: string; digested: boolean }>`
+                SELECT id, digested_at IS NOT NULL AS digested FROM notifications
+            `;
+            expect(Object.fromEntries(rows.map(r => [r.id, r.digested]))).toEqual({ [digested.id]: true, [skipped.id]: false });
+        });
+
+        it("should refuse to turn off security notifications", async () => {
+            const userId = randomUUID();
+
+            await expect(notificationsClient.updatePreferences({
+                userId,
+                preferences: [{ event: "password_changed", channel: "email", enabled: false }]
+            }, authAs(userId))).rejects.toThrow("password_changed notifications cannot be turned off for email");
+        });
+
+        it("should only manage the caller's own preferences", async () => {
+            await expect(notificationsClient.getPreferences({ userId: randomUUID() }, authAs(randomUUID())))
+                .rejects.toThrow("Cannot read another user's notification preferences");
+        });
+    });
+
     describe("Data Persistence", () => {
-        it("should persist notifications in memory between API calls", async () => {
+        it("should persist notifications between API calls", async () => {
             const userId = randomUUID();
             
             // Send notification
-            const sentNotification = await sendNotification({
+            const sentNotification = await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: "Persistence Test",
                 message: "Testing persistence",
                 user_id: userId
-            });
+            }, asSender);
 
             // Retrieve notifications
-            const retrievedNotifications = await getNotifications({ userId });
+            const retrievedNotifications = await notificationsClient.getNotifications({ userId }, authAs(userId));
 
             expect(retrievedNotifications.notifications).toHaveLength(1);
             expect(retrievedNotifications.notifications[0].id).toBe(sentNotification.id);
@@ -254,39 +500,39 @@ describe("Notifications Service", () => {
             const userId = randomUUID();
             
             // Send first notification
-            await sendNotification({
+            await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: "First",
                 message: "First message",
                 user_id: userId
-            });
+            }, asSender);
 
             // Check count
-            let notificationsResult = await getNotifications({ userId });
+            let notificationsResult = await notificationsClient.getNotifications({ userId }, authAs(userId));
             expect(notificationsResult.notifications).toHaveLength(1);
 
             // Send second notification
-            await sendNotification({
+            await notificationsClient.sendNotification({
                 type: "success" as NotificationType,
                 title: "Second",
                 message: "Second message",
                 user_id: userId
-            });
+            }, asSender);
 
             // Check count again
-            notificationsResult = await getNotifications({ userId });
+            notificationsResult = await notificationsClient.getNotifications({ userId }, authAs(userId));
             expect(notificationsResult.notifications).toHaveLength(2);
 
             // Send third notification
-            await sendNotification({
+            await notificationsClient.sendNotification({
                 type: "warning" as NotificationType,
                 title: "Third",
                 message: "Third message",
                 user_id: userId
-            });
+            }, asSender);
 
             // Final check
-            notificationsResult = await getNotifications({ userId });
+            notificationsResult = await notificationsClient.getNotifications({ userId }, authAs(userId));
             expect(notificationsResult.notifications).toHaveLength(3);
         });
     });
@@ -296,19 +542,19 @@ describe("Notifications Service", () => {
             const userId = randomUUID();
             
             // Send notification
-            const sent = await sendNotification({
+            const sent = await notificationsClient.sendNotification({
                 type: "success" as NotificationType,
                 title: "Workflow Test",
                 message: "Testing complete workflow",
                 user_id: userId
-            });
+            }, asSender);
 
             expect(sent.type).toBe("success");
             expect(sent.title).toBe("Workflow Test");
             expect(sent.read).toBe(false);
 
             // Retrieve notifications
-            const retrieved = await getNotifications({ userId });
+            const retrieved = await notificationsClient.getNotifications({ userId }, authAs(userId));
 
             expect(retrieved.notifications).toHaveLength(1);
             expect(retrieved.notifications[0].id).toBe(sent.id);
@@ -323,38 +569,38 @@ describe("Notifications Service", () => {
             const user2Id = randomUUID();
             
             // Send different types to different users
-            await sendNotification({
+            await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: "Info for User 1",
                 message: "Information message",
                 user_id: user1Id
-            });
+            }, asSender);
 
-            await sendNotification({
+            await notificationsClient.sendNotification({
                 type: "error" as NotificationType,
                 title: "Error for User 2",
                 message: "Error message",
                 user_id: user2Id
-            });
+            }, asSender);
 
             // Small delay to ensure different timestamps
             await new Promise(resolve => setTimeout(resolve, 10));
 
-            await sendNotification({
+            await notificationsClient.sendNotification({
                 type: "warning" as NotificationType,
                 title: "Warning for User 1",
                 message: "Warning message",
                 user_id: user1Id
-            });
+            }, asSender);
 
             // Check user 1 notifications
-            const user1Notifications = await getNotifications({ userId: user1Id });
+            const user1Notifications = await notificationsClient.getNotifications({ userId: user1Id }, authAs(user1Id));
             expect(user1Notifications.notifications).toHaveLength(2);
             expect(user1Notifications.notifications[0].type).toBe("warning"); // Most recent
             expect(user1Notifications.notifications[1].type).toBe("info");
 
             // Check user 2 notifications
-            const user2Notifications = await getNotifications({ userId: user2Id });
+            const user2Notifications = await notificationsClient.getNotifications({ userId: user2Id }, authAs(user2Id));
             expect(user2Notifications.notifications).toHaveLength(1);
             expect(user2Notifications.notifications[0].type).toBe("error");
         });
@@ -369,8 +615,8 @@ describe("Notifications Service", () => {
                 user_id: userId
             };
 
-            const sent = await sendNotification(originalNotification);
-            const retrieved = await getNotifications({ userId });
+            const sent = await notificationsClient.sendNotification(originalNotification, asSender);
+            const retrieved = await notificationsClient.getNotifications({ userId }, authAs(userId));
 
             expect(retrieved.notifications[0]).toMatchObject({
                 id: sent.id,
@@ -388,12 +634,12 @@ describe("Notifications Service", () => {
         it("should handle empty strings in notification content", async () => {
             const userId = randomUUID();
             
-            const result = await sendNotification({
+            const result = await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: "",
                 message: "",
                 user_id: userId
-            });
+            }, asSender);
 
             expect(result.title).toBe("");
             expect(result.message).toBe("");
@@ -405,12 +651,12 @@ describe("Notifications Service", () => {
             const longTitle = "A".repeat(1000);
             const longMessage = "B".repeat(5000);
             
-            const result = await sendNotification({
+            const result = await notificationsClient.sendNotification({
                 type: "info" as NotificationType,
                 title: longTitle,
                 message: longMessage,
                 user_id: userId
-            });
+            }, asSender);
 
             expect(result.title).toBe(longTitle);
             expect(result.message).toBe(longMessage);
@@ -421,12 +667,12 @@ describe("Notifications Service", () => {
             const specialTitle = "🚀 Special Title with émojis & symbols!";
             const specialMessage = "Message with\nnewlines\tand\ttabs & unicode: 你好世界";
             
-            const result = await sendNotification({
+            const result = await notificationsClient.sendNotification({
                 type: "success" as NotificationType,
                 title: specialTitle,
                 message: specialMessage,
                 user_id: userId
-            });
+            }, asSender);
 
             expect(result.title).toBe(specialTitle);
             expect(result.message).toBe(specialMessage);
@@ -1,47 +1,306 @@
-import { api } from "encore.dev/api";
-import { SendNotificationRequest, Notification, GetNotificationsResponse } from "./types";
-import { v4 as uuidv4 } from "uuid";
+import { api, APIError } from "encore.dev/api";
+import { SQLDatabase } from "encore.dev/storage/sqldb";
+import { getAuthData } from "~encore/auth";
+import { auth, mailer } from "~encore/clients";
+import { requirePermission } from "../auth/permissions";
+import { QueryBuilder, SortKey, paginate } from "../shared/query";
+import { inbox } from "./hub";
+import { NOTIFICATION_CHANNELS, NOTIFICATION_EVENTS, enabledChannels, isLocked, isReserved, resolvePreferences } from "./preferences";
+import {
+    SendNotificationRequest,
+    Notification,
+    GetNotificationsRequest,
+    GetNotificationsResponse,
+    UnreadCountResponse,
+    MarkAllReadResponse,
+    DeleteNotificationResponse,
+    PreferenceSetting,
+    PreferencesResponse,
+    UpdatePreferencesRequest
+} from "./types";
 
-// In-memory storage for demo (in production, use Redis or database)
-const notifications: Map<string, Notification[]> = new Map();
+const db = new SQLDatabase("notifications", {
+    migrations: "./migrations",
+});
 
-// Export for testing purposes
-export { notifications };
+export { db };
+
+const NOTIFICATION_COLUMNS = 'id, type, title, message, user_id, event, channels, read, read_at, archived_at, created_at';
+
+const NEWEST_FIRST: SortKey = { expression: 'created_at', type: 'timestamp', defaultOrder: 'desc' };
+
+/**
+ * Store a notification for a user. Everything that notifies someone goes
+ * through here, whether it comes from the send endpoint or another service.
+ * The recipient's preferences decide the channels; with in_app off the
+ * notification is kept but never shows up in their inbox.
+ *
+ * sourceKey names the event message a notification comes from. A redelivered
+ * message gets back the notification stored the first time, which is not
+ * sent again.
+ */
+export async function createNotification(req: SendNotificationRequest, sourceKey?: string): Promise<Notification> {
+    const event = req.event ?? 'announcement';
+    const channels = enabledChannels(event, await storedPreferences(req.user_id));
+
+    const notification = await db.queryRow<Notification>`
+        INSERT INTO notifications (user_id, type, title, message, event, channels, source_key)
+        VALUES (${req.user_id}, ${req.type}, ${req.title}, ${req.message}, ${event}, ${channels}::text[], ${sourceKey ?? null})
+        ON CONFLICT (user_id, source_key) DO NOTHING
+        RETURNING id, type, title, message, user_id, event, channels, read, read_at, archived_at, created_at
+    `;
+
+    if (!notification) {
+        const delivered = sourceKey && await db.queryRow<Notification>`
+            SELECT id, type, title, message, user_id, event, channels, read, read_at, archived_at, created_at
+            FROM notifications
+            WHERE user_id = ${req.user_id} AND source_key = ${sourceKey}
+        `;
+        if (!delivered) {
+            throw new Error("Failed to create notification");
+        }
+        return delivered;
+    }
+
+    if (channels.includes('in_app')) {
+        await inbox.broadcast(req.user_id, { event: 'notification', notification, timestamp: new Date() });
+        await announceUnreadCount(req.user_id);
+    }
+    if (channels.includes('email')) {
+        await emailNotification(notification);
+    }
+
+    return notification;
+}
+
+// Mail trouble never fails the notification itself; the mailer retries failed sends on its own
+async function emailNotification(notification: Notification): Promise<void> {
+    try {
+        const { users } = await auth.getUserEmails({ user_ids: [notification.user_id] });
+        if (users.length === 0) {
+            return;
+        }
+
+        await mailer.sendEmail({
+            to: users[0].email,
+            message: { template: 'notification', title: notification.title, message: notification.message },
+        });
+    } catch (error) {
+        console.error(`Failed to email notification ${notification.id}:`, error);
+    }
+}
+
+export async function countUnread(userId: string): Promise<number> {
+    const row = await db.queryRow<{ count: number }>`
+        SELECT COUNT(*)::int AS count
+        FROM notifications
+        WHERE user_id = ${userId} AND NOT read AND archived_at IS NULL AND 'in_app' = ANY(channels)
+    `;
+
+    return row?.count ?? 0;
+}
+
+// Keep badges in every open session in step after the inbox changes
+async function announceUnreadCount(userId: string): Promise<void> {
+    if (!inbox.isConnected(userId)) {
+        return;
+    }
+
+    await inbox.broadcast(userId, { event: 'unread_count', unread_count: await countUnread(userId), timestamp: new Date() });
+}
 
 export const sendNotification = api(
-    { method: "POST", path: "/send", auth: true },
+    { method: "POST", path: "/send", auth: true, expose: true },
     async (req: SendNotificationRequest): Promise<Notification> => {
-        const notification: Notification = {
-            id: uuidv4(),
-            type: req.type,
-            title: req.title,
-            message: req.message,
-            user_id: req.user_id,
-            read: false,
-            created_at: new Date()
-        };
-        
-        // Store notification
-        const userNotifications = notifications.get(req.user_id) || [];
-        userNotifications.push(notification);
-        notifications.set(req.user_id, userNotifications);
-        
-        // TODO: Send via WebSocket in next step
-        
-        return notification;
+        requirePermission("notifications.send");
+
+        if (req.event && isReserved(req.event)) {
+            throw APIError.invalidArgument(`${req.event} notifications can only be sent by the system`);
+        }
+
+        return await createNotification(req);
     }
 );
 
 export const getNotifications = api(
-    { method: "GET", path: "/notifications/:userId", auth: true },
-    async ({ userId }: { userId: string }): Promise<GetNotificationsResponse> => {
-        const userNotifications = notifications.get(userId) || [];
-        
-        // Return most recent first
-        const sortedNotifications = userNotifications.sort((a, b) => 
-            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        );
-        
-        return { notifications: sortedNotifications };
-    }
-); 
\ No newline at end of file
+    { method: "GET", path: "/notifications/:userId", auth: true, expose: true },
+    async ({ userId, ...req }: { userId: string } & GetNotificationsRequest): Promise<GetNotificationsResponse> => {
+        // Users may only read their own inbox
+        requireOwnInbox(userId, "Cannot read another user's notifications");
+
+        const page = req.page || 1;
+        const limit = Math.min(req.limit || 20, 100);
+
+        const query = new QueryBuilder(NOTIFICATION_COLUMNS, 'notifications')
+            .where('user_id = ?', userId)
+            .where("'in_app' = ANY(channels)")
+            .where(req.archived ? 'archived_at IS NOT NULL' : 'archived_at IS NULL')
+            .orderBy('created_at', NEWEST_FIRST);
+        if (req.unread_only) {
+            query.where('NOT read');
+        }
+
+        const { items, ...rest } = await paginate<Notification>(db, query, { page, limit, cursor: req.cursor });
+
+        return { notifications: items, ...rest };
+    }
+);
+
+// Unread notifications still in the inbox, for the header badge
+export const getUnreadCount = api(
+    { method: "GET", path: "/notifications/:userId/unread-count", auth: true, expose: true },
+    async ({ userId }: { userId: string }): Promise<UnreadCountResponse> => {
+        requireOwnInbox(userId, "Cannot read another user's notifications");
+
+        return { count: await countUnread(userId) };
+    }
+);
+
+export const markNotificationRead = api(
+    { method: "POST", path: "/notifications/:userId/:id/read", auth: true, expose: true },
+    async ({ userId, id }: { userId: string; id: string }): Promise<Notification> => {
+        requireOwnInbox(userId, "Cannot change another user's notifications");
+
+        // read_at keeps the first time it was read
+        const notification = await db.queryRow<Notification>`
+            UPDATE notifications
+            SET read = true, read_at = COALESCE(read_at, NOW())
+            WHERE id = ${id} AND user_id = ${userId}
+            RETURNING id, type, title, message, user_id, event, channels, read, read_at, archived_at, created_at
+        `;
+
+        const updated = found(notification);
+        await announceUnreadCount(userId);
+        return updated;
+    }
+);
+
+export const markAllNotificationsRead = api(
+    { method: "POST", path: "/notifications/:userId/read-all", auth: true, expose: true },
+    async ({ userId }: { userId: string }): Promise<MarkAllReadResponse> => {
+        requireOwnInbox(userId, "Cannot change another user's notifications");
+
+        const row = await db.queryRow<{ updated: number }>`
+            WITH updated AS (
+                UPDATE notifications
+                SET read = true, read_at = NOW()
+                WHERE user_id = ${userId} AND NOT read AND 'in_app' = ANY(channels)
+                RETURNING id
+            )
+            SELECT COUNT(*)::int AS updated FROM updated
+        `;
+
+        await announceUnreadCount(userId);
+        return { updated: row?.updated ?? 0 };
+    }
+);
+
+// Archiving takes a notification out of the inbox without deleting it; it also counts as read
+export const archiveNotification = api(
+    { method: "POST", path: "/notifications/:userId/:id/archive", auth: true, expose: true },
+    async ({ userId, id }: { userId: string; id: string }): Promise<Notification> => {
+        requireOwnInbox(userId, "Cannot change another user's notifications");
+
+        const notification = await db.queryRow<Notification>`
+            UPDATE notifications
+            SET archived_at = COALESCE(archived_at, NOW()),
+                read = true,
+                read_at = COALESCE(read_at, NOW())
+            WHERE id = ${id} AND user_id = ${userId}
+            RETURNING id, type, title, message, user_id, event, channels, read, read_at, archived_at, created_at
+        `;
+
+        const updated = found(notification);
+        await announceUnreadCount(userId);
+        return updated;
+    }
+);
+
+export const deleteNotification = api(
+    { method: "DELETE", path: "/notifications/:userId/:id", auth: true, expose: true },
+    async ({ userId, id }: { userId: string; id: string }): Promise<DeleteNotificationResponse> => {
+        requireOwnInbox(userId, "Cannot change another user's notifications");
+
+        const deleted = await db.queryRow`
+            DELETE FROM notifications WHERE id = ${id} AND user_id = ${userId} RETURNING id
+        `;
+
+        if (!deleted) {
+            throw APIError.notFound("Notification not found");
+        }
+
+        await announceUnreadCount(userId);
+        return { success: true };
+    }
+);
+
+export const getPreferences = api(
+    { method: "GET", path: "/notifications/:userId/preferences", auth: true, expose: true },
+    async ({ userId }: { userId: string }): Promise<PreferencesResponse> => {
+        requireOwnInbox(userId, "Cannot read another user's notification preferences");
+
+        return { preferences: resolvePreferences(await storedPreferences(userId)) };
+    }
+);
+
+// Settings not mentioned keep their current value
+export const updatePreferences = api(
+    { method: "PUT", path: "/notifications/:userId/preferences", auth: true, expose: true },
+    async ({ userId, preferences }: { userId: string } & UpdatePreferencesRequest): Promise<PreferencesResponse> => {
+        requireOwnInbox(userId, "Cannot change another user's notification preferences");
+
+        for (const setting of preferences ?? []) {
+            if (!NOTIFICATION_EVENTS.includes(setting.event) || !NOTIFICATION_CHANNELS.includes(setting.channel)) {
+                throw APIError.invalidArgument(`Unknown notification setting ${setting.event}/${setting.channel}`);
+            }
+            if (!setting.enabled && isLocked(setting.event, setting.channel)) {
+                throw APIError.invalidArgument(`${setting.event} notifications cannot be turned off for ${setting.channel}`);
+            }
+        }
+
+        const tx = await db.begin();
+        try {
+            for (const setting of preferences ?? []) {
+                await tx.exec`
+                    INSERT INTO notification_preferences (user_id, event, channel, enabled)
+                    VALUES (${userId}, ${setting.event}, ${setting.channel}, ${setting.enabled})
+                    ON CONFLICT (user_id, event, channel) DO UPDATE
+                    SET enabled = EXCLUDED.enabled, updated_at = NOW()
+                `;
+            }
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        return { preferences: resolvePreferences(await storedPreferences(userId)) };
+    }
+);
+
+async function storedPreferences(userId: string): Promise<PreferenceSetting[]> {
+    const rows = db.query<PreferenceSetting>`
+        SELECT event, channel, enabled FROM notification_preferences WHERE user_id = ${userId}
+    `;
+
+    const settings: PreferenceSetting[] = [];
+    for await (const row of rows) {
+        settings.push(row);
+    }
+    return settings;
+}
+
+function requireOwnInbox(userId: string, message: string): void {
+    if (getAuthData()!.userID !== userId) {
+        throw APIError.permissionDenied(message);
+    }
+}
+
+// Other users' notifications look the same as missing ones
+function found(notification: Notification | null): Notification {
+    if (!notification) {
+        throw APIError.notFound("Notification not found");
+    }
+    return notification;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { resolvePreferences, enabledChannels, isLocked, isReserved, NOTIFICATION_EVENTS, NOTIFICATION_CHANNELS } from "./preferences";
+
+describe("resolvePreferences", () => {
+    it("should cover every event and channel", () => {
+        expect(resolvePreferences([])).toHaveLength(NOTIFICATION_EVENTS.length * NOTIFICATION_CHANNELS.length);
+    });
+
+    it("should prefer stored choices over defaults", () => {
+        const resolved = resolvePreferences([{ event: "media_uploaded", channel: "in_app", enabled: false }]);
+
+        const upload = resolved.filter(p => p.event === "media_uploaded");
+        expect(upload.map(p => [p.channel, p.enabled])).toEqual([["in_app", false], ["email", false], ["digest", false]]);
+    });
+
+    it("should keep locked combinations on", () => {
+        const resolved = resolvePreferences([{ event: "password_changed", channel: "email", enabled: false }]);
+
+        expect(resolved.find(p => p.event === "password_changed" && p.channel === "email"))
+            .toEqual({ event: "password_changed", channel: "email", enabled: true, locked: true });
+    });
+});
+
+describe("enabledChannels", () => {
+    it("should only use the choices for the given event", () => {
+        const stored = [
+            { event: "announcement" as const, channel: "email" as const, enabled: true },
+            { event: "content_published" as const, channel: "in_app" as const, enabled: false },
+        ];
+
+        expect(enabledChannels("announcement", stored)).toEqual(["in_app", "email"]);
+        expect(enabledChannels("content_published", stored)).toEqual([]);
+    });
+});
+
+describe("isLocked", () => {
+    it("should only lock security notices", () => {
+        expect(isLocked("password_changed", "in_app")).toBe(true);
+        expect(isLocked("password_changed", "digest")).toBe(false);
+        expect(isLocked("announcement", "in_app")).toBe(false);
+    });
+});
+
+describe("isReserved", () => {
+    it("should reserve only security notices", () => {
+        expect(isReserved("session_compromised")).toBe(true);
+        expect(isReserved("account_locked")).toBe(true);
+        expect(isReserved("announcement")).toBe(false);
+    });
+});
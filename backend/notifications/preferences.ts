@@ -0,0 +1,67 @@
+import { NotificationChannel, NotificationEvent, NotificationPreference, PreferenceSetting } from "./types";
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+    'announcement',
+    'content_published',
+    'content_unpublished',
+    'review_requested',
+    'media_uploaded',
+    'user_registered',
+    'password_changed',
+    'account_locked',
+    'session_compromised',
+];
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'digest'];
+
+// Everything shows up in the app; email is reserved for things that need a reaction
+const EMAIL_BY_DEFAULT: NotificationEvent[] = ['review_requested', 'password_changed', 'account_locked', 'session_compromised'];
+
+// Security notices reach the user whatever they chose
+const LOCKED: Partial<Record<NotificationEvent, NotificationChannel[]>> = {
+    password_changed: ['in_app', 'email'],
+    account_locked: ['in_app', 'email'],
+    session_compromised: ['in_app', 'email'],
+};
+
+export function isLocked(event: NotificationEvent, channel: NotificationChannel): boolean {
+    return LOCKED[event]?.includes(channel) ?? false;
+}
+
+// Security notices can't be muted, so only the system itself may raise them
+export function isReserved(event: NotificationEvent): boolean {
+    return event in LOCKED;
+}
+
+function defaultEnabled(event: NotificationEvent, channel: NotificationChannel): boolean {
+    switch (channel) {
+        case 'in_app': return true;
+        case 'email': return EMAIL_BY_DEFAULT.includes(event);
+        case 'digest': return false;
+    }
+}
+
+/**
+ * The full event-by-channel matrix for a user: stored choices over defaults,
+ * with locked combinations always on.
+ */
+export function resolvePreferences(stored: PreferenceSetting[]): NotificationPreference[] {
+    const choices = new Map(stored.map(s => [`${s.event}:${s.channel}`, s.enabled]));
+
+    return NOTIFICATION_EVENTS.flatMap(event => NOTIFICATION_CHANNELS.map(channel => {
+        const locked = isLocked(event, channel);
+        return {
+            event,
+            channel,
+            enabled: locked || (choices.get(`${event}:${channel}`) ?? defaultEnabled(event, channel)),
+            locked,
+        };
+    }));
+}
+
+// Channels a notification for this event goes out on
+export function enabledChannels(event: NotificationEvent, stored: PreferenceSetting[]): NotificationChannel[] {
+    return resolvePreferences(stored.filter(s => s.event === event))
+        .filter(p => p.event === event && p.enabled)
+        .map(p => p.channel);
+}
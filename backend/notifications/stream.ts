@@ -0,0 +1,61 @@
+import { api } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import { db, countUnread } from "./notifications";
+import { inbox } from "./hub";
+import { Notification, NotificationStreamHandshake, NotificationStreamMessage } from "./types";
+
+// Below the usual 60s idle timeout of proxies and load balancers
+const HEARTBEAT_MS = 25_000;
+
+// Older misses are left to the paginated inbox
+const REPLAY_LIMIT = 100;
+
+// Live feed of the caller's notifications. On reconnect, pass the last id seen to
+// replay what was missed; messages can repeat around a reconnect, so clients skip
+// ids they already have. Only sessions connected to this instance get live pushes.
+export const streamNotifications = api.streamOut<NotificationStreamHandshake, NotificationStreamMessage>(
+    { path: "/notifications/stream", auth: true, expose: true },
+    async ({ last_seen_id }, stream) => {
+        const userId = getAuthData()!.userID;
+
+        // Registered before the replay query so nothing created in between is lost
+        const connection = inbox.connect(userId, message => stream.send(message), {
+            heartbeat: () => ({ event: 'heartbeat', timestamp: new Date() }),
+            heartbeatMs: HEARTBEAT_MS,
+        });
+
+        try {
+            if (last_seen_id) {
+                for (const notification of await missedSince(userId, last_seen_id)) {
+                    await connection.send({ event: 'notification', notification, timestamp: new Date() });
+                }
+            }
+            await connection.send({ event: 'unread_count', unread_count: await countUnread(userId), timestamp: new Date() });
+
+            await connection.closed;
+        } finally {
+            connection.close();
+        }
+    }
+);
+
+// Inbox notifications newer than the given one, oldest first; nothing when the id is unknown
+async function missedSince(userId: string, lastSeenId: string): Promise<Notification[]> {
+    const rows = db.query<Notification>`
+        SELECT n.id, n.type, n.title, n.message, n.user_id, n.event, n.channels, n.read, n.read_at, n.archived_at, n.created_at
+        FROM notifications n
+        JOIN notifications seen ON seen.id = ${lastSeenId} AND seen.user_id = ${userId}
+        WHERE n.user_id = ${userId}
+          AND n.archived_at IS NULL
+          AND 'in_app' = ANY(n.channels)
+          AND (n.created_at, n.id) > (seen.created_at, seen.id)
+        ORDER BY n.created_at, n.id
+        LIMIT ${REPLAY_LIMIT}
+    `;
+
+    const missed: Notification[] = [];
+    for await (const row of rows) {
+        missed.push(row);
+    }
+    return missed;
+}
@@ -0,0 +1,71 @@
+import { currentRequest } from "encore.dev";
+import { Subscription } from "encore.dev/pubsub";
+import { users } from "~encore/clients";
+import { Permission, ROLE_PERMISSIONS } from "../auth/permissions";
+import { contentPublished, contentUnpublished, contentSubmittedForReview } from "../content/events";
+import { mediaUploaded } from "../media/events";
+import { userRegistered, passwordChanged, accountLocked, refreshTokenReused } from "../auth/events";
+import { createNotification } from "./notifications";
+import { SendNotificationRequest } from "./types";
+import {
+    contentPublishedNotifications,
+    contentUnpublishedNotifications,
+    submittedForReviewNotifications,
+    mediaUploadedNotifications,
+    userRegisteredNotifications,
+    passwordChangedNotifications,
+    accountLockedNotifications,
+    refreshTokenReusedNotifications
+} from "./messages";
+
+const _published = new Subscription(contentPublished, "notify-content-published", {
+    handler: async (event) => deliver(contentPublishedNotifications(event)),
+});
+
+const _unpublished = new Subscription(contentUnpublished, "notify-content-unpublished", {
+    handler: async (event) => deliver(contentUnpublishedNotifications(event)),
+});
+
+// Everyone who could approve the item hears about it
+const _submitted = new Subscription(contentSubmittedForReview, "notify-review-requested", {
+    handler: async (event) => deliver(submittedForReviewNotifications(event, await usersWith("content.publish"))),
+});
+
+const _uploaded = new Subscription(mediaUploaded, "notify-media-uploaded", {
+    handler: async (event) => deliver(mediaUploadedNotifications(event)),
+});
+
+const _registered = new Subscription(userRegistered, "notify-user-registered", {
+    handler: async (event) => deliver(userRegisteredNotifications(event, await usersWith("users.manage"))),
+});
+
+const _passwordChanged = new Subscription(passwordChanged, "notify-password-changed", {
+    handler: async (event) => deliver(passwordChangedNotifications(event)),
+});
+
+const _accountLocked = new Subscription(accountLocked, "notify-account-locked", {
+    handler: async (event) => deliver(accountLockedNotifications(event)),
+});
+
+const _refreshTokenReused = new Subscription(refreshTokenReused, "notify-refresh-token-reused", {
+    handler: async (event) => deliver(refreshTokenReusedNotifications(event)),
+});
+
+// Delivery is at-least-once; keying on the message id keeps a retried message from notifying anyone twice
+async function deliver(notifications: SendNotificationRequest[]): Promise<void> {
+    const request = currentRequest();
+    const sourceKey = request?.type === 'pubsub-message' ? `${request.topic}:${request.messageId}` : undefined;
+
+    for (const notification of notifications) {
+        await createNotification(notification, sourceKey);
+    }
+}
+
+async function usersWith(permission: Permission): Promise<string[]> {
+    const roles = Object.entries(ROLE_PERMISSIONS)
+        .filter(([, permissions]) => permissions.includes(permission))
+        .map(([role]) => role);
+
+    const { user_ids } = await users.listRoleMembers({ roles });
+    return user_ids;
+}
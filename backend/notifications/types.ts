@@ -2,13 +2,33 @@
 
 export type NotificationType = 'info' | 'success' | 'warning' | 'error';
 
+// What a notification is about; preferences are chosen per event
+export type NotificationEvent =
+    | 'announcement'
+    | 'content_published'
+    | 'content_unpublished'
+    | 'review_requested'
+    | 'media_uploaded'
+    | 'user_registered'
+    | 'password_changed'
+    | 'account_locked'
+    | 'session_compromised';
+
+export type NotificationChannel = 'in_app' | 'email' | 'digest';
+
 export interface Notification {
     id: string;
     type: NotificationType;
     title: string;
     message: string;
     user_id: string;
+    event?: NotificationEvent;
+    // Where it was delivered; only in_app notifications appear in the inbox
+    channels?: NotificationChannel[];
     read: boolean;
+    read_at?: Date;
+    // Archived notifications leave the inbox but can still be listed
+    archived_at?: Date;
     created_at: Date;
 }
 
@@ -17,6 +37,8 @@ export interface SendNotificationRequest {
     title: string;
     message: string;
     user_id: string;
+    // Defaults to announcement
+    event?: NotificationEvent;
 }
 
 export interface WebSocketMessage {
@@ -25,7 +47,71 @@ export interface WebSocketMessage {
     timestamp: Date;
 }
 
+export type NotificationStreamEvent = 'notification' | 'unread_count' | 'heartbeat';
+
+export interface NotificationStreamHandshake {
+    // Id of the newest notification the client already has; anything after it is replayed
+    last_seen_id?: string;
+}
+
+export interface NotificationStreamMessage {
+    event: NotificationStreamEvent;
+    notification?: Notification;
+    unread_count?: number;
+    timestamp: Date;
+}
+
+export interface GetNotificationsRequest {
+    unread_only?: boolean;
+    // List the archive instead of the inbox
+    archived?: boolean;
+    page?: number;
+    limit?: number;
+    // Opaque token from a previous response's next_cursor; takes precedence over page
+    cursor?: string;
+}
+
+export interface PreferenceSetting {
+    event: NotificationEvent;
+    channel: NotificationChannel;
+    enabled: boolean;
+}
+
+export interface NotificationPreference extends PreferenceSetting {
+    // Cannot be turned off
+    locked: boolean;
+}
+
+export interface UpdatePreferencesRequest {
+    preferences: PreferenceSetting[];
+}
+
+export interface PreferencesResponse {
+    preferences: NotificationPreference[];
+}
+
 // Response wrapper interfaces for Encore.ts API compatibility
 export interface GetNotificationsResponse {
     notifications: Notification[];
-} 
\ No newline at end of file
+    total: number;
+    page: number;
+    limit: number;
+    next_cursor?: string;
+}
+
+export interface SendDigestsResponse {
+    digests: number;
+    notifications: number;
+}
+
+export interface UnreadCountResponse {
+    count: number;
+}
+
+export interface MarkAllReadResponse {
+    updated: number;
+}
+
+export interface DeleteNotificationResponse {
+    success: boolean;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { QueryBuilder, SortKey, assertPage, encodeCursor, decodeCursor } from "./query";
+
+const CREATED_AT: SortKey = { expression: 'created_at', type: 'timestamp', defaultOrder: 'desc' };
+const TITLE: SortKey = { expression: 'title', type: 'text', defaultOrder: 'asc' };
+
+const ID = '6f1c2e4a-8b3d-4f5e-9a7b-0c1d2e3f4a5b';
+
+const newQuery = () => new QueryBuilder('id, title', 'content_items');
+
+describe("QueryBuilder", () => {
+    it("should number placeholders across conditions", () => {
+        const query = newQuery()
+            .where('status = ?', 'published')
+            .where('created_at BETWEEN ? AND ?', '2024-01-01', '2024-12-31');
+
+        const { text, params } = query.count();
+
+        expect(text).toContain('WHERE status = $1\nAND created_at BETWEEN $2 AND $3');
+        expect(params).toEqual(['published', '2024-01-01', '2024-12-31']);
+    });
+
+    it("should skip filters without a value", () => {
+        const query = newQuery()
+            .filter('status = ?', undefined)
+            .filter('type = ?', '')
+            .filter('author_id = ?', null)
+            .filter('category_id = ?', 'cat-1');
+
+        const { text, params } = query.count();
+
+        expect(text).toBe('SELECT COUNT(*)::int AS total FROM content_items\nWHERE category_id = $1');
+        expect(params).toEqual(['cat-1']);
+    });
+
+    it("should leave out WHERE when there are no conditions", () => {
+        expect(newQuery().count().text).toBe('SELECT COUNT(*)::int AS total FROM content_items');
+    });
+
+    it("should reject a placeholder count mismatch", () => {
+        expect(() => newQuery().where('status = ? OR status = ?', 'draft')).toThrow("Expected 2 values");
+    });
+
+    it("should order by the sort key with the id as tie-breaker", () => {
+        const { text, params } = newQuery()
+            .where('status = ?', 'draft')
+            .orderBy('created_at', CREATED_AT)
+            .select(10, 20);
+
+        expect(text).toContain('(created_at)::text AS cursor_value');
+        expect(text).toContain('ORDER BY created_at DESC, id DESC');
+        expect(text).toContain('LIMIT $2 OFFSET $3');
+        expect(params).toEqual(['draft', 10, 20]);
+    });
+
+    it("should seek past the cursor row instead of using an offset", () => {
+        const query = newQuery().where('status = ?', 'draft').orderBy('title', TITLE);
+        const cursor = query.cursorAfter({ id: ID, cursor_value: 'Hello' });
+
+        const { text, params } = query.select(10, 20, cursor);
+
+        expect(text).toContain('(title, id) > ($2::text, $3::uuid)');
+        expect(text).toContain('ORDER BY title ASC, id ASC');
+        expect(params).toEqual(['draft', 'Hello', ID, 10, 0]);
+    });
+
+    it("should not leak cursor parameters into the count query", () => {
+        const query = newQuery().where('status = ?', 'draft').orderBy('created_at', CREATED_AT);
+        query.select(10, 0, query.cursorAfter({ id: ID, cursor_value: '2024-01-01 00:00:00' }));
+
+        expect(query.count().params).toEqual(['draft']);
+    });
+
+    it("should reject a cursor issued for a different sort", () => {
+        const byTitle = newQuery().orderBy('title', TITLE);
+        const cursor = byTitle.cursorAfter({ id: ID, cursor_value: 'Hello' });
+
+        expect(() => newQuery().orderBy('created_at', CREATED_AT).select(10, 0, cursor))
+            .toThrow("Cursor does not match the requested sort order");
+        expect(() => newQuery().orderBy('title', TITLE, 'desc').select(10, 0, cursor))
+            .toThrow("Cursor does not match the requested sort order");
+    });
+
+    it("should require a sort before selecting", () => {
+        expect(() => newQuery().select(10, 0)).toThrow("orderBy must be called");
+    });
+});
+
+describe("cursors", () => {
+    it("should round-trip through an opaque token", () => {
+        const cursor = { sort: 'created_at', order: 'desc' as const, value: '2024-05-01 10:00:00.123456', id: ID };
+
+        const token = encodeCursor(cursor);
+
+        expect(token).not.toContain('created_at');
+        expect(decodeCursor(token)).toEqual(cursor);
+    });
+
+    it("should reject malformed tokens", () => {
+        expect(() => decodeCursor('not a cursor')).toThrow("Invalid cursor");
+        expect(() => decodeCursor(Buffer.from('{"a":1}').toString('base64url'))).toThrow("Invalid cursor");
+        expect(() => decodeCursor(Buffer.from('["s","up","v","id"]').toString('base64url'))).toThrow("Invalid cursor");
+    });
+
+    it("should reject tampered ids and values before they reach a cast", () => {
+        const token = (value: string, id = ID) => encodeCursor({ sort: 'created_at', order: 'desc', value, id });
+
+        expect(() => decodeCursor(token('2024-05-01 10:00:00', 'abc'), 'timestamp')).toThrow("Invalid cursor");
+        expect(() => decodeCursor(token('yesterday'), 'timestamp')).toThrow("Invalid cursor");
+        expect(() => decodeCursor(token('2024-13-01 10:00:00'), 'timestamp')).toThrow("Invalid cursor");
+        expect(() => decodeCursor(token('12x'), 'bigint')).toThrow("Invalid cursor");
+        expect(decodeCursor(token('2024-05-01 10:00:00.123456'), 'timestamp').value).toBe('2024-05-01 10:00:00.123456');
+        expect(() => newQuery().orderBy('created_at', CREATED_AT).select(10, 0, token("'; DROP TABLE x"))).toThrow("Invalid cursor");
+    });
+});
+
+describe("assertPage", () => {
+    it("should only accept page numbers from 1", () => {
+        expect(() => assertPage(1)).not.toThrow();
+        expect(() => assertPage(0)).toThrow("page must be a positive integer");
+        expect(() => assertPage(-2)).toThrow("page must be a positive integer");
+        expect(() => assertPage(1.5)).toThrow("page must be a positive integer");
+    });
+});
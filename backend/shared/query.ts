@@ -0,0 +1,239 @@
+import { APIError } from "encore.dev/api";
+import { Primitive, SQLDatabase } from "encore.dev/storage/sqldb";
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortKey {
+    // SQL expression to order by; must never be NULL or keyset comparisons skip rows
+    expression: string;
+    // Postgres type the cursor value is cast back to
+    type: string;
+    defaultOrder: SortOrder;
+}
+
+export interface SQLQuery {
+    text: string;
+    params: Primitive[];
+}
+
+export interface PageOptions {
+    page: number;
+    limit: number;
+    cursor?: string;
+}
+
+export interface Page<T> {
+    items: T[];
+    total: number;
+    page: number;
+    limit: number;
+    // Opaque token for the next page; absent on the last page
+    next_cursor?: string;
+}
+
+interface Cursor {
+    sort: string;
+    order: SortOrder;
+    value: string;
+    id: string;
+}
+
+interface Sort {
+    name: string;
+    key: SortKey;
+    order: SortOrder;
+}
+
+// What a cursor value has to look like before it is cast to its sort key's type;
+// types not listed here are taken as they are
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d+)?([+-]\d{2}(:?\d{2})?|Z)?$/;
+const CURSOR_VALUE_CHECKS: Record<string, (value: string) => boolean> = {
+    timestamp: isTimestamp,
+    timestamptz: isTimestamp,
+    integer: value => /^-?\d{1,9}$/.test(value),
+    bigint: value => /^-?\d{1,18}$/.test(value),
+};
+
+// The pattern fixes the shape, parsing the date and time part rules out e.g. month 13
+function isTimestamp(value: string): boolean {
+    return TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value.slice(0, 19).replace(' ', 'T')));
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Composes a filtered, sorted listing query. Conditions use `?` placeholders
+ * that are bound in order, so filters can be added independently of each other.
+ */
+export class QueryBuilder {
+    private readonly conditions: string[] = [];
+    private readonly params: Primitive[] = [];
+    private sort?: Sort;
+
+    constructor(
+        private readonly columns: string,
+        private readonly from: string,
+        private readonly idColumn = 'id'
+    ) {}
+
+    where(condition: string, ...values: Primitive[]): this {
+        const parts = condition.split('?');
+        if (parts.length - 1 !== values.length) {
+            throw new Error(`Expected ${parts.length - 1} values for "${condition}", got ${values.length}`);
+        }
+
+        const sql = parts.reduce((text, part, i) => text + this.bind(values[i - 1]) + part);
+        this.conditions.push(sql);
+        return this;
+    }
+
+    // Adds the condition only when the value is set
+    filter(condition: string, value: Primitive | undefined): this {
+        if (value === undefined || value === null || value === '') {
+            return this;
+        }
+        return this.where(condition, value);
+    }
+
+    orderBy(name: string, key: SortKey, order: SortOrder = key.defaultOrder): this {
+        this.sort = { name, key, order };
+        return this;
+    }
+
+    count(): SQLQuery {
+        return {
+            text: `SELECT COUNT(*)::int AS total FROM ${this.from}${this.whereClause(this.conditions)}`,
+            params: [...this.params]
+        };
+    }
+
+    /**
+     * Select one page. With a cursor the page starts right after the cursor row
+     * instead of at an offset, which stays cheap and stable while rows are inserted.
+     */
+    select(limit: number, offset: number, cursor?: string): SQLQuery {
+        const sort = this.requireSort();
+        const query = this.fork();
+        const conditions = [...this.conditions];
+
+        if (cursor) {
+            const position = decodeCursor(cursor, sort.key.type);
+            if (position.sort !== sort.name || position.order !== sort.order) {
+                throw APIError.invalidArgument("Cursor does not match the requested sort order");
+            }
+
+            const comparator = sort.order === 'desc' ? '<' : '>';
+            conditions.push(
+                `(${sort.key.expression}, ${this.idColumn}) ${comparator} ` +
+                `(${query.bind(position.value)}::${sort.key.type}, ${query.bind(position.id)}::uuid)`
+            );
+            offset = 0;
+        }
+
+        const direction = sort.order.toUpperCase();
+        const text = [
+            `SELECT ${this.columns}, (${sort.key.expression})::text AS cursor_value`,
+            `FROM ${this.from}${this.whereClause(conditions)}`,
+            `ORDER BY ${sort.key.expression} ${direction}, ${this.idColumn} ${direction}`,
+            `LIMIT ${query.bind(limit)} OFFSET ${query.bind(offset)}`
+        ].join('\n');
+
+        return { text, params: query.params };
+    }
+
+    // Cursor pointing just past the given row under the current sort
+    cursorAfter(row: { id: string; cursor_value: string }): string {
+        const sort = this.requireSort();
+        return encodeCursor({ sort: sort.name, order: sort.order, value: row.cursor_value, id: row.id });
+    }
+
+    private bind(value: Primitive): string {
+        this.params.push(value);
+        return `$${this.params.length}`;
+    }
+
+    private fork(): QueryBuilder {
+        const copy = new QueryBuilder(this.columns, this.from, this.idColumn);
+        copy.params.push(...this.params);
+        return copy;
+    }
+
+    private requireSort(): Sort {
+        if (!this.sort) {
+            throw new Error("QueryBuilder.orderBy must be called before selecting");
+        }
+        return this.sort;
+    }
+
+    private whereClause(conditions: string[]): string {
+        return conditions.length ? `\nWHERE ${conditions.join('\nAND ')}` : '';
+    }
+}
+
+/**
+ * Run the count and page queries and attach a cursor for the following page.
+ * One extra row is fetched to tell whether there is a next page.
+ */
+export async function paginate<T extends { id: string }>(
+    db: SQLDatabase,
+    query: QueryBuilder,
+    { page, limit, cursor }: PageOptions
+): Promise<Page<T>> {
+    assertPage(page);
+
+    const count = query.count();
+    const countResult = await db.rawQueryRow<{ total: number }>(count.text, ...count.params);
+
+    const select = query.select(limit + 1, (page - 1) * limit, cursor);
+    const rows = await db.rawQueryAll<T & { cursor_value: string }>(select.text, ...select.params);
+
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit).map(({ cursor_value: _cursor, ...item }) => item as unknown as T);
+    const last = rows[limit - 1];
+
+    return {
+        items,
+        total: countResult?.total || 0,
+        page,
+        limit,
+        next_cursor: hasMore ? query.cursorAfter(last) : undefined
+    };
+}
+
+// Pages are numbered from 1; anything else would become a negative OFFSET
+export function assertPage(page: number): void {
+    if (!Number.isInteger(page) || page < 1) {
+        throw APIError.invalidArgument("page must be a positive integer");
+    }
+}
+
+export function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString('base64url');
+}
+
+// valueType is the Postgres type of the sort key the cursor was issued for
+export function decodeCursor(token: string, valueType?: string): Cursor {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch {
+        throw APIError.invalidArgument("Invalid cursor");
+    }
+
+    if (!Array.isArray(parsed) || parsed.length !== 4 || !parsed.every(part => typeof part === 'string')) {
+        throw APIError.invalidArgument("Invalid cursor");
+    }
+
+    const [sort, order, value, id] = parsed as string[];
+    if (order !== 'asc' && order !== 'desc') {
+        throw APIError.invalidArgument("Invalid cursor");
+    }
+
+    // Checked here so a tampered value fails as a bad request, not in the cast
+    const check = valueType ? CURSOR_VALUE_CHECKS[valueType] : undefined;
+    if (!UUID.test(id) || (check && !check(value))) {
+        throw APIError.invalidArgument("Invalid cursor");
+    }
+
+    return { sort, order, value, id };
+}
@@ -0,0 +1,12 @@
+-- Audit trail for role assignments and revocations
+CREATE TABLE role_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    role_id UUID NOT NULL REFERENCES roles(id),
+    action VARCHAR(20) NOT NULL CHECK (action IN ('assigned', 'revoked')),
+    performed_by UUID NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_role_audit_log_user_id ON role_audit_log(user_id);
+CREATE INDEX idx_role_audit_log_created_at ON role_audit_log(created_at);
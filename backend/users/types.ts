@@ -47,4 +47,33 @@ export interface GetProfileResponse {
 
 export interface GetUserRolesResponse {
     roles: Role[];
-} 
\ No newline at end of file
+}
+
+export interface GetRoleNamesResponse {
+    roles: string[];
+}
+
+export interface ListRoleMembersResponse {
+    user_ids: string[];
+}
+
+export interface AssignRoleRequest {
+    role_id: string;
+}
+
+export interface RoleAssignment {
+    user_id: string;
+    role_id: string;
+    role_name: string;
+    assigned_at: Date;
+    assigned_by?: string;
+}
+
+export interface ListRolesResponse {
+    roles: Role[];
+    assignments: RoleAssignment[];
+}
+
+export interface RevokeRoleResponse {
+    success: boolean;
+}
@@ -1,7 +1,14 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { db, getProfile, updateProfile, getUserRoles } from "./users";
+import { users } from "~encore/clients";
+import { db, getProfile } from "./users";
 import { UserProfile, Role } from "./types";
 
+// Profile edits and role lookups are restricted to the caller, so these
+// calls carry the matching user's auth data.
+const authAs = (userID: string, roles: string[] = []) => ({
+    authData: { userID, email: `${userID}@example.com`, is_verified: true, roles }
+});
+
 describe("Users Service", () => {
     const testUserId = "550e8400-e29b-41d4-a716-446655440000";
     const testUserId2 = "550e8400-e29b-41d4-a716-446655440001";
@@ -62,7 +69,7 @@ describe("Users Service", () => {
                 bio: "New user bio"
             };
 
-            const result = await updateProfile({ userId: testUserId, ...updates });
+            const result = await users.updateProfile({ userId: testUserId, ...updates }, authAs(testUserId));
             
             expect(result.user_id).toBe(testUserId);
             expect(result.first_name).toBe("Jane");
@@ -84,7 +91,7 @@ describe("Users Service", () => {
                 bio: "Updated bio"
             };
 
-            const result = await updateProfile({ userId: testUserId, ...updates });
+            const result = await users.updateProfile({ userId: testUserId, ...updates }, authAs(testUserId));
             
             expect(result.user_id).toBe(testUserId);
             expect(result.first_name).toBe("Updated John");
@@ -103,7 +110,7 @@ describe("Users Service", () => {
                 bio: "Only bio updated"
             };
 
-            const result = await updateProfile({ userId: testUserId, ...updates });
+            const result = await users.updateProfile({ userId: testUserId, ...updates }, authAs(testUserId));
             
             expect(result.user_id).toBe(testUserId);
             expect(result.first_name).toBe("John"); // Should remain unchanged
@@ -120,7 +127,7 @@ describe("Users Service", () => {
 
             const updates = {};
 
-            const result = await updateProfile({ userId: testUserId, ...updates });
+            const result = await users.updateProfile({ userId: testUserId, ...updates }, authAs(testUserId));
             
             // Should preserve existing fields when no updates are provided
             expect(result.user_id).toBe(testUserId);
@@ -144,16 +151,23 @@ describe("Users Service", () => {
             await new Promise(resolve => setTimeout(resolve, 10));
 
             const updates = { first_name: "Updated John" };
-            const result = await updateProfile({ userId: testUserId, ...updates });
+            const result = await users.updateProfile({ userId: testUserId, ...updates }, authAs(testUserId));
             
             expect(result.created_at).toEqual(initialProfile.profile?.created_at);
             expect(result.updated_at.getTime()).toBeGreaterThan(initialUpdatedAt!.getTime());
         });
+
+        it("should reject updates to another user's profile", async () => {
+            await expect(users.updateProfile(
+                { userId: testUserId, first_name: "Mallory" },
+                authAs(testUserId2)
+            )).rejects.toThrow("Missing permission: users.manage");
+        });
     });
 
     describe("getUserRoles", () => {
         it("should return empty array for user with no roles", async () => {
-            const result = await getUserRoles({ userId: testUserId });
+            const result = await users.getUserRoles({ userId: testUserId }, authAs(testUserId));
             expect(result.roles).toEqual([]);
         });
 
@@ -175,7 +189,7 @@ describe("Users Service", () => {
                 VALUES (${testUserId}, ${adminRole!.id}), (${testUserId}, ${editorRole!.id})
             `;
 
-            const result = await getUserRoles({ userId: testUserId });
+            const result = await users.getUserRoles({ userId: testUserId }, authAs(testUserId));
             
             expect(result.roles).toHaveLength(2);
             
@@ -203,7 +217,7 @@ describe("Users Service", () => {
                 VALUES (${testUserId}, ${adminRole!.id})
             `;
 
-            const result = await getUserRoles({ userId: testUserId });
+            const result = await users.getUserRoles({ userId: testUserId }, authAs(testUserId));
             
             expect(result.roles).toHaveLength(1);
             expect(result.roles[0].name).toBe("admin");
@@ -225,8 +239,8 @@ describe("Users Service", () => {
                 VALUES (${testUserId}, ${adminRole!.id}), (${testUserId2}, ${viewerRole!.id})
             `;
 
-            const user1Roles = await getUserRoles({ userId: testUserId });
-            const user2Roles = await getUserRoles({ userId: testUserId2 });
+            const user1Roles = await users.getUserRoles({ userId: testUserId }, authAs(testUserId));
+            const user2Roles = await users.getUserRoles({ userId: testUserId2 }, authAs(testUserId2));
             
             expect(user1Roles.roles).toHaveLength(1);
             expect(user1Roles.roles[0].name).toBe("admin");
@@ -236,6 +250,101 @@ describe("Users Service", () => {
         });
     });
 
+    describe("Role administration", () => {
+        const adminId = "550e8400-e29b-41d4-a716-446655440002";
+        const asAdmin = authAs(adminId, ["admin"]);
+
+        const roleId = async (name: string) => {
+            const role = await db.queryRow<{ id: string }>`SELECT id FROM roles WHERE name = ${name}`;
+            return role!.id;
+        };
+
+        beforeEach(async () => {
+            await db.exec`DELETE FROM role_audit_log`;
+            await db.exec`DELETE FROM user_roles WHERE user_id = ${adminId}`;
+        });
+
+        it("should assign a role and record who assigned it", async () => {
+            const editorId = await roleId("editor");
+
+            const assignment = await users.assignRole({ userId: testUserId, role_id: editorId }, asAdmin);
+
+            expect(assignment.user_id).toBe(testUserId);
+            expect(assignment.role_id).toBe(editorId);
+            expect(assignment.assigned_by).toBe(adminId);
+            expect(assignment.assigned_at).toBeInstanceOf(Date);
+
+            const audit = await db.queryRow<{ action: string; performed_by: string }>`
+                SELECT action, performed_by FROM role_audit_log WHERE user_id = ${testUserId}
+            `;
+            expect(audit!.action).toBe("assigned");
+            expect(audit!.performed_by).toBe(adminId);
+        });
+
+        it("should reject duplicate assignments", async () => {
+            const editorId = await roleId("editor");
+            await users.assignRole({ userId: testUserId, role_id: editorId }, asAdmin);
+
+            await expect(users.assignRole({ userId: testUserId, role_id: editorId }, asAdmin))
+                .rejects.toThrow("User already has the editor role");
+        });
+
+        it("should only let admins manage roles", async () => {
+            const editorId = await roleId("editor");
+
+            await expect(users.assignRole({ userId: testUserId2, role_id: editorId }, authAs(testUserId, ["editor"])))
+                .rejects.toThrow("Missing permission: users.manage");
+            await expect(users.listRoles(authAs(testUserId, ["editor"])))
+                .rejects.toThrow("Missing permission: users.manage");
+        });
+
+        it("should revoke a role and audit the revocation", async () => {
+            const viewerId = await roleId("viewer");
+            await users.assignRole({ userId: testUserId, role_id: viewerId }, asAdmin);
+
+            const result = await users.revokeRole({ userId: testUserId, roleId: viewerId }, asAdmin);
+            expect(result.success).toBe(true);
+
+            const roles = await users.getUserRoles({ userId: testUserId }, authAs(testUserId));
+            expect(roles.roles).toHaveLength(0);
+
+            const actions = await db.query<{ action: string }>`
+                SELECT action FROM role_audit_log WHERE user_id = ${testUserId} ORDER BY created_at
+            `;
+            const actionList: string[] = [];
+            for await (const row of actions) {
+                actionList.push(row.action);
+            }
+            expect(actionList).toEqual(["assigned", "revoked"]);
+        });
+
+        it("should not remove the last admin", async () => {
+            const adminRoleId = await roleId("admin");
+            await db.exec`DELETE FROM user_roles WHERE role_id = ${adminRoleId}`;
+            await users.assignRole({ userId: adminId, role_id: adminRoleId }, asAdmin);
+
+            await expect(users.revokeRole({ userId: adminId, roleId: adminRoleId }, asAdmin))
+                .rejects.toThrow("Cannot remove the last admin");
+
+            // A second admin makes the first one removable
+            await users.assignRole({ userId: testUserId, role_id: adminRoleId }, asAdmin);
+            const result = await users.revokeRole({ userId: adminId, roleId: adminRoleId }, asAdmin);
+            expect(result.success).toBe(true);
+        });
+
+        it("should list roles with their assignments", async () => {
+            const editorId = await roleId("editor");
+            await users.assignRole({ userId: testUserId, role_id: editorId }, asAdmin);
+
+            const result = await users.listRoles(asAdmin);
+
+            expect(result.roles.map(role => role.name)).toEqual(["admin", "contributor", "editor", "viewer"]);
+            const assignment = result.assignments.find(a => a.user_id === testUserId);
+            expect(assignment!.role_name).toBe("editor");
+            expect(assignment!.assigned_by).toBe(adminId);
+        });
+    });
+
     describe("Database Schema Validation", () => {
         it("should have all required roles in database", async () => {
             const roles = await db.query<{ name: string, description: string }>`
@@ -293,7 +402,7 @@ describe("Users Service", () => {
                 bio: "Software developer"
             };
             
-            let profile = await updateProfile({ userId: testUserId, ...createData });
+            let profile = await users.updateProfile({ userId: testUserId, ...createData }, authAs(testUserId));
             expect(profile.first_name).toBe("Alice");
             expect(profile.last_name).toBe("Johnson");
             expect(profile.bio).toBe("Software developer");
@@ -303,7 +412,7 @@ describe("Users Service", () => {
                 bio: "Senior software developer"
             };
             
-            profile = await updateProfile({ userId: testUserId, ...updateData });
+            profile = await users.updateProfile({ userId: testUserId, ...updateData }, authAs(testUserId));
             expect(profile.first_name).toBe("Alice"); // Should remain
             expect(profile.last_name).toBe("Johnson"); // Should remain
             expect(profile.bio).toBe("Senior software developer"); // Should update
@@ -315,11 +424,11 @@ describe("Users Service", () => {
 
         it("should handle user with profile and roles", async () => {
             // Create profile
-            await updateProfile({ 
+            await users.updateProfile({ 
                 userId: testUserId, 
                 first_name: "Bob", 
                 last_name: "Wilson" 
-            });
+            }, authAs(testUserId));
 
             // Assign roles
             const adminRole = await db.queryRow<{ id: string }>`
@@ -336,7 +445,7 @@ describe("Users Service", () => {
 
             // Verify both profile and roles
             const profileResponse = await getProfile({ userId: testUserId });
-            const rolesResponse = await getUserRoles({ userId: testUserId });
+            const rolesResponse = await users.getUserRoles({ userId: testUserId }, authAs(testUserId));
 
             expect(profileResponse.profile?.first_name).toBe("Bob");
             expect(profileResponse.profile?.last_name).toBe("Wilson");
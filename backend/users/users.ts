@@ -1,6 +1,20 @@
 import { SQLDatabase } from "encore.dev/storage/sqldb";
-import { api } from "encore.dev/api";
-import { UserProfile, UpdateProfileRequest, Role, GetProfileResponse, GetUserRolesResponse } from "./types";
+import { api, APIError } from "encore.dev/api";
+import { requirePermission, requireSelfOrPermission } from "../auth/permissions";
+import {
+    UserProfile,
+    UpdateProfileRequest,
+    Role,
+    UserRole,
+    RoleAssignment,
+    AssignRoleRequest,
+    GetProfileResponse,
+    GetUserRolesResponse,
+    GetRoleNamesResponse,
+    ListRoleMembersResponse,
+    ListRolesResponse,
+    RevokeRoleResponse
+} from "./types";
 
 const db = new SQLDatabase("users", {
     migrations: "./migrations",
@@ -9,7 +23,7 @@ const db = new SQLDatabase("users", {
 export { db };
 
 export const getProfile = api(
-    { method: "GET", path: "/profile/:userId", auth: true },
+    { method: "GET", path: "/profile/:userId", auth: true, expose: true },
     async ({ userId }: { userId: string }): Promise<GetProfileResponse> => {
         const profile = await db.queryRow<UserProfile>`
             SELECT id, user_id, first_name, last_name, avatar_url, bio, created_at, updated_at
@@ -22,8 +36,11 @@ export const getProfile = api(
 );
 
 export const updateProfile = api(
-    { method: "PUT", path: "/profile/:userId", auth: true },
+    { method: "PUT", path: "/profile/:userId", auth: true, expose: true },
     async ({ userId, ...updates }: { userId: string } & UpdateProfileRequest): Promise<UserProfile> => {
+        // Users edit their own profile; admins may edit anyone's
+        requireSelfOrPermission(userId, "users.manage");
+
         // Check if profile exists
         const existingProfile = await db.queryRow`
             SELECT id FROM user_profiles WHERE user_id = ${userId}
@@ -76,8 +93,10 @@ export const updateProfile = api(
 );
 
 export const getUserRoles = api(
-    { method: "GET", path: "/roles/:userId", auth: true },
+    { method: "GET", path: "/roles/:userId", auth: true, expose: true },
     async ({ userId }: { userId: string }): Promise<GetUserRolesResponse> => {
+        requireSelfOrPermission(userId, "users.read");
+
         const roles = await db.query<Role>`
             SELECT r.id, r.name, r.description, r.created_at
             FROM roles r
@@ -92,4 +111,166 @@ export const getUserRoles = api(
         
         return { roles: roleList };
     }
-); 
\ No newline at end of file
+); 
+
+// List every role together with all current assignments (admin only)
+export const listRoles = api(
+    { method: "GET", path: "/roles", auth: true, expose: true },
+    async (): Promise<ListRolesResponse> => {
+        requirePermission("users.manage");
+
+        const roleRows = await db.query<Role>`
+            SELECT id, name, description, created_at
+            FROM roles
+            ORDER BY name
+        `;
+
+        const roles: Role[] = [];
+        for await (const role of roleRows) {
+            roles.push(role);
+        }
+
+        const assignmentRows = await db.query<RoleAssignment>`
+            SELECT ur.user_id, ur.role_id, r.name AS role_name, ur.assigned_at, ur.assigned_by
+            FROM user_roles ur
+            JOIN roles r ON r.id = ur.role_id
+            ORDER BY ur.assigned_at DESC
+        `;
+
+        const assignments: RoleAssignment[] = [];
+        for await (const assignment of assignmentRows) {
+            assignments.push(assignment);
+        }
+
+        return { roles, assignments };
+    }
+);
+
+export const assignRole = api(
+    { method: "POST", path: "/roles/:userId", auth: true, expose: true },
+    async ({ userId, role_id }: { userId: string } & AssignRoleRequest): Promise<UserRole> => {
+        const admin = requirePermission("users.manage");
+
+        const role = await db.queryRow<Role>`
+            SELECT id, name, description, created_at FROM roles WHERE id = ${role_id}
+        `;
+
+        if (!role) {
+            throw APIError.notFound("Role not found");
+        }
+
+        const assignment = await db.queryRow<UserRole>`
+            INSERT INTO user_roles (user_id, role_id, assigned_by)
+            VALUES (${userId}, ${role_id}, ${admin.userID})
+            ON CONFLICT (user_id, role_id) DO NOTHING
+            RETURNING id, user_id, role_id, assigned_at, assigned_by
+        `;
+
+        if (!assignment) {
+            throw APIError.alreadyExists(`User already has the ${role.name} role`);
+        }
+
+        await db.exec`
+            INSERT INTO role_audit_log (user_id, role_id, action, performed_by)
+            VALUES (${userId}, ${role_id}, 'assigned', ${admin.userID})
+        `;
+
+        return assignment;
+    }
+);
+
+export const revokeRole = api(
+    { method: "DELETE", path: "/roles/:userId/:roleId", auth: true, expose: true },
+    async ({ userId, roleId }: { userId: string; roleId: string }): Promise<RevokeRoleResponse> => {
+        const admin = requirePermission("users.manage");
+
+        const tx = await db.begin();
+        try {
+            const role = await tx.queryRow<Role>`
+                SELECT id, name, description, created_at FROM roles WHERE id = ${roleId}
+            `;
+
+            if (!role) {
+                throw APIError.notFound("Role not found");
+            }
+
+            // Lock the role's assignments so concurrent revocations can't both pass the admin check
+            await tx.exec`
+                SELECT id FROM user_roles WHERE role_id = ${roleId} FOR UPDATE
+            `;
+
+            const removed = await tx.queryRow`
+                DELETE FROM user_roles
+                WHERE user_id = ${userId} AND role_id = ${roleId}
+                RETURNING id
+            `;
+
+            if (!removed) {
+                throw APIError.notFound(`User does not have the ${role.name} role`);
+            }
+
+            if (role.name === "admin") {
+                const remaining = await tx.queryRow<{ count: number }>`
+                    SELECT COUNT(*)::int AS count FROM user_roles WHERE role_id = ${roleId}
+                `;
+
+                if (!remaining || remaining.count === 0) {
+                    throw APIError.failedPrecondition("Cannot remove the last admin");
+                }
+            }
+
+            await tx.exec`
+                INSERT INTO role_audit_log (user_id, role_id, action, performed_by)
+                VALUES (${userId}, ${roleId}, 'revoked', ${admin.userID})
+            `;
+
+            await tx.commit();
+        } catch (error) {
+            await tx.rollback();
+            throw error;
+        }
+
+        return { success: true };
+    }
+);
+
+// Internal lookup used by the auth handler to attach role names to every request
+export const getRoleNames = api(
+    { method: "GET", path: "/internal/roles/:userId" },
+    async ({ userId }: { userId: string }): Promise<GetRoleNamesResponse> => {
+        const rows = await db.query<{ name: string }>`
+            SELECT r.name
+            FROM roles r
+            JOIN user_roles ur ON r.id = ur.role_id
+            WHERE ur.user_id = ${userId}
+        `;
+
+        const roles: string[] = [];
+        for await (const row of rows) {
+            roles.push(row.name);
+        }
+
+        return { roles };
+    }
+);
+
+// Internal lookup of everyone holding any of the given roles, e.g. to notify all editors
+export const listRoleMembers = api(
+    { method: "GET", path: "/internal/role-members" },
+    async ({ roles }: { roles: string[] }): Promise<ListRoleMembersResponse> => {
+        const rows = db.query<{ user_id: string }>`
+            SELECT DISTINCT ur.user_id
+            FROM user_roles ur
+            JOIN roles r ON r.id = ur.role_id
+            WHERE r.name = ANY(${roles})
+            ORDER BY ur.user_id
+        `;
+
+        const user_ids: string[] = [];
+        for await (const row of rows) {
+            user_ids.push(row.user_id);
+        }
+
+        return { user_ids };
+    }
+);
@@ -1,7 +1,11 @@
 import React from 'react';
 import { createBrowserRouter, RouterProvider, Navigate } from 'react-router-dom';
-import { AuthForm, ForgotPassword, ResetPassword } from './forms';
+import { AuthForm, ForgotPassword, ResetPassword, VerifyEmail } from './forms';
 import { DashboardPage } from '../pages/DashboardPage';
+import { UsersPage } from '../pages/UsersPage';
+import { ContentEditorPage } from '../pages/ContentEditorPage';
+import { SettingsPage } from '../pages/SettingsPage';
+import { SessionsPage } from '../pages/SessionsPage';
 import { MainLayout } from './layout/MainLayout';
 
 const router = createBrowserRouter([
@@ -25,6 +29,10 @@ const router = createBrowserRouter([
         path: '/reset-password',
         element: <ResetPassword />
     },
+    {
+        path: '/verify-email',
+        element: <VerifyEmail />
+    },
     {
         path: '/',
         element: <MainLayout />,
@@ -37,13 +45,17 @@ const router = createBrowserRouter([
                 path: 'content',
                 element: <div>Content Page - Coming Soon</div>
             },
+            {
+                path: 'content/:id',
+                element: <ContentEditorPage />
+            },
             {
                 path: 'media',
                 element: <div>Media Page - Coming Soon</div>
             },
             {
                 path: 'users',
-                element: <div>Users Page - Coming Soon</div>
+                element: <UsersPage />
             },
             {
                 path: 'notifications',
@@ -51,7 +63,11 @@ const router = createBrowserRouter([
             },
             {
                 path: 'settings',
-                element: <div>Settings Page - Coming Soon</div>
+                element: <SettingsPage />
+            },
+            {
+                path: 'settings/sessions',
+                element: <SessionsPage />
             }
         ]
     }
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Box,
+    Typography,
+    Paper,
+    List,
+    ListItemButton,
+    ListItemText,
+    Checkbox,
+    Button,
+    Chip,
+    Stack,
+    Divider
+} from '@mui/material';
+import { toast } from 'sonner';
+import { contentApi, getErrorMessage } from '../../services';
+import { content } from '../../lib/client';
+
+interface ContentHistoryPanelProps {
+    contentId: string;
+    // Bumped by the editor after each save so the list stays current
+    refreshKey?: number;
+    onRestored: (item: content.ContentItem) => void;
+}
+
+const lineStyles: Record<content.DiffLineType, { prefix: string; color: string; background: string }> = {
+    added: { prefix: '+', color: '#1b5e20', background: '#e8f5e9' },
+    removed: { prefix: '-', color: '#b71c1c', background: '#ffebee' },
+    unchanged: { prefix: ' ', color: 'inherit', background: 'transparent' }
+};
+
+export function ContentHistoryPanel({ contentId, refreshKey, onRestored }: ContentHistoryPanelProps) {
+    const [revisions, setRevisions] = useState<content.ContentRevision[]>([]);
+    const [selected, setSelected] = useState<number[]>([]);
+    const [diff, setDiff] = useState<content.RevisionDiffResponse | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const loadRevisions = useCallback(async () => {
+        try {
+            const response = await contentApi.listRevisions(contentId);
+            setRevisions(response.revisions);
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to load revision history'));
+        }
+    }, [contentId]);
+
+    useEffect(() => {
+        loadRevisions();
+    }, [loadRevisions, refreshKey]);
+
+    // Keep at most two revisions selected for comparison
+    const toggleSelected = (revision: number) => {
+        setDiff(null);
+        setSelected((current) => {
+            if (current.includes(revision)) {
+                return current.filter((r) => r !== revision);
+            }
+            return [...current, revision].slice(-2);
+        });
+    };
+
+    const handleCompare = async () => {
+        const [from, to] = [...selected].sort((a, b) => a - b);
+        setIsBusy(true);
+        try {
+            setDiff(await contentApi.diffRevisions(contentId, from, to));
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to compare revisions'));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleRestore = async (revision: number) => {
+        setIsBusy(true);
+        try {
+            const restored = await contentApi.restoreRevision(contentId, revision);
+            toast.success(`Restored revision ${revision} as a draft`);
+            setSelected([]);
+            setDiff(null);
+            onRestored(restored);
+            await loadRevisions();
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to restore revision'));
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <Paper sx={{ p: 2 }}>
+            <Stack direction="row" alignItems="center" justifyContent="space-between">
+                <Typography variant="h6">History</Typography>
+                <Button
+                    size="small"
+                    variant="outlined"
+                    disabled={selected.length !== 2 || isBusy}
+                    onClick={handleCompare}
+                >
+                    Compare
+                </Button>
+            </Stack>
+
+            <List dense>
+                {revisions.map((revision) => (
+                    <ListItemButton
+                        key={revision.id}
+                        onClick={() => toggleSelected(revision.revision_number)}
+                        selected={selected.includes(revision.revision_number)}
+                    >
+                        <Checkbox
+                            edge="start"
+                            size="small"
+                            checked={selected.includes(revision.revision_number)}
+                            tabIndex={-1}
+                            disableRipple
+                        />
+                        <ListItemText
+                            primary={`#${revision.revision_number} · ${revision.title}`}
+                            secondary={new Date(revision.created_at).toLocaleString()}
+                        />
+                        <Chip label={revision.status} size="small" sx={{ mr: 1 }} />
+                        <Button
+                            size="small"
+                            disabled={isBusy}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                handleRestore(revision.revision_number);
+                            }}
+                        >
+                            Restore
+                        </Button>
+                    </ListItemButton>
+                ))}
+            </List>
+
+            {diff && (
+                <Box>
+                    <Divider sx={{ mb: 2 }} />
+                    <Typography variant="subtitle2" gutterBottom>
+                        Revision #{diff.from} → #{diff.to}
+                    </Typography>
+                    {diff.changes.length === 0 ? (
+                        <Typography color="textSecondary">No differences.</Typography>
+                    ) : (
+                        diff.changes.map((change) => (
+                            <Box key={change.field} mb={2}>
+                                <Typography variant="overline">{change.field}</Typography>
+                                <Box component="pre" sx={{ m: 0, fontSize: 13, whiteSpace: 'pre-wrap' }}>
+                                    {change.lines.map((line, index) => (
+                                        <Box
+                                            key={index}
+                                            component="div"
+                                            sx={{ color: lineStyles[line.type].color, background: lineStyles[line.type].background }}
+                                        >
+                                            {lineStyles[line.type].prefix} {line.text}
+                                        </Box>
+                                    ))}
+                                </Box>
+                            </Box>
+                        ))
+                    )}
+                </Box>
+            )}
+        </Paper>
+    );
+}
@@ -0,0 +1 @@
+export { ContentHistoryPanel } from './ContentHistoryPanel';
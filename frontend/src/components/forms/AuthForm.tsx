@@ -1,18 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../../store/hooks';
-import { loginUser, signupUser, clearError } from '../../store/authSlice';
+import { loginUser, signupUser, verifyMfa, cancelMfa, clearError } from '../../store/authSlice';
 import { toast } from 'sonner';
 
 const AuthForm: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const dispatch = useAppDispatch();
-  const { isLoading, error, isAuthenticated } = useAppSelector((state) => state.auth);
+  const { isLoading, error, isAuthenticated, mfaToken } = useAppSelector((state) => state.auth);
   
   const isSignUp = location.pathname === '/register';
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
   const [hasAttemptedAuth, setHasAttemptedAuth] = useState(false);
 
   // Redirect if already authenticated
@@ -51,7 +52,11 @@ const AuthForm: React.FC = () => {
         toast.success('Account created successfully!');
         navigate('/dashboard');
       } else {
-        await dispatch(loginUser({ email, password })).unwrap();
+        const result = await dispatch(loginUser({ email, password })).unwrap();
+        // Two-factor accounts continue with the code step below
+        if ('mfa_required' in result) {
+          return;
+        }
         toast.success('Welcome back!');
         navigate('/dashboard');
       }
@@ -61,6 +66,90 @@ const AuthForm: React.FC = () => {
     }
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!code.trim()) {
+      toast.error('Please enter your authentication code');
+      return;
+    }
+
+    setHasAttemptedAuth(true);
+
+    try {
+      await dispatch(verifyMfa({ code: code.trim() })).unwrap();
+      toast.success('Welcome back!');
+      navigate('/dashboard');
+    } catch (error) {
+      // Error is already handled by Redux and useEffect
+      console.error('Two-factor error:', error);
+      setCode('');
+    }
+  };
+
+  const handleCancelMfa = () => {
+    dispatch(cancelMfa());
+    setCode('');
+    setPassword('');
+  };
+
+  // Second step: the password was right, now the authenticator or recovery code
+  if (!isSignUp && mfaToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+            </p>
+          </div>
+          <form className="mt-8 space-y-6" onSubmit={handleCodeSubmit}>
+            <div>
+              <label htmlFor="mfa-code" className="sr-only">
+                Authentication code
+              </label>
+              <input
+                id="mfa-code"
+                name="code"
+                type="text"
+                inputMode="text"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="appearance-none rounded-md relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm tracking-widest"
+                placeholder="123456"
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancelMfa}
+                disabled={isLoading}
+                className="w-full text-center text-sm text-indigo-600 hover:text-indigo-500"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { verifyEmail, clearError } from '../../store/authSlice';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const dispatch = useAppDispatch();
+  const { isAuthenticated } = useAppSelector((state) => state.auth);
+
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState(token ? '' : 'This verification link is missing its token.');
+
+  // Tokens are single use, so make sure the request goes out only once (StrictMode runs effects twice)
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) {
+      return;
+    }
+    requested.current = true;
+
+    dispatch(verifyEmail({ token }))
+      .unwrap()
+      .then(() => setStatus('verified'))
+      .catch((error: string) => {
+        setStatus('failed');
+        setMessage(error);
+        dispatch(clearError());
+      });
+  }, [token, dispatch]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {status === 'verifying' && 'Verifying your email...'}
+            {status === 'verified' && 'Email verified'}
+            {status === 'failed' && 'Verification failed'}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {status === 'verified' && 'Thanks for confirming your email address.'}
+            {status === 'failed' && `${message} Sign in to request a new link.`}
+          </p>
+        </div>
+
+        {status !== 'verifying' && (
+          <Link
+            to={isAuthenticated ? '/dashboard' : '/login'}
+            className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            {isAuthenticated ? 'Go to dashboard' : 'Back to sign in'}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
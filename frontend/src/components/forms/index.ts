@@ -1,4 +1,5 @@
 export { default as AuthForm } from './AuthForm';
 export { default as ForgotPassword } from './ForgotPassword';
 export { default as ResetPassword } from './ResetPassword';
-export { default as ChangePassword } from './ChangePassword'; 
\ No newline at end of file
+export { default as ChangePassword } from './ChangePassword';
+export { default as VerifyEmail } from './VerifyEmail';
@@ -8,10 +8,12 @@ import {
     Menu,
     MenuItem,
     Avatar,
+    Badge,
     Box
 } from '@mui/material';
-import { AccountCircle, Logout, Menu as MenuIcon } from '@mui/icons-material';
+import { AccountCircle, Logout, Menu as MenuIcon, Notifications } from '@mui/icons-material';
 import { useAuth } from '../../hooks/useAuth';
+import { useUnreadNotifications } from '../../hooks/useUnreadNotifications';
 import { useNavigate } from 'react-router-dom';
 
 interface HeaderProps {
@@ -23,6 +25,7 @@ export function Header({ onMenuClick, showMenuButton = false }: HeaderProps) {
     const { user, logout, isAuthenticated } = useAuth();
     const navigate = useNavigate();
     const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+    const unreadCount = useUnreadNotifications(isAuthenticated ? user?.id : undefined);
 
     const handleMenu = (event: React.MouseEvent<HTMLElement>) => {
         setAnchorEl(event.currentTarget);
@@ -60,6 +63,16 @@ export function Header({ onMenuClick, showMenuButton = false }: HeaderProps) {
                 
                 {isAuthenticated ? (
                     <Box>
+                        <IconButton
+                            size="large"
+                            aria-label={`${unreadCount} unread notifications`}
+                            onClick={() => navigate('/notifications')}
+                            color="inherit"
+                        >
+                            <Badge badgeContent={unreadCount} color="error" max={99}>
+                                <Notifications />
+                            </Badge>
+                        </IconButton>
                         <IconButton
                             size="large"
                             aria-label="account of current user"
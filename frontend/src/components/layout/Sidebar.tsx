@@ -45,6 +45,9 @@ export function Sidebar({ open, onToggle, onClose, isMobile = false }: SidebarPr
     const navigate = useNavigate();
     const location = useLocation();
 
+    // Sub-pages such as /settings/sessions keep their section highlighted
+    const isActive = (path: string) => location.pathname === path || location.pathname.startsWith(`${path}/`);
+
     const handleNavigation = (path: string) => {
         navigate(path);
         // Close sidebar on mobile after navigation
@@ -116,7 +119,7 @@ export function Sidebar({ open, onToggle, onClose, isMobile = false }: SidebarPr
                             {(open || isMobile) ? (
                                 // Expanded state - show icon + text
                                 <ListItemButton
-                                    selected={location.pathname === item.path}
+                                    selected={isActive(item.path)}
                                     onClick={() => handleNavigation(item.path)}
                                     sx={{
                                         minHeight: 48,
@@ -142,7 +145,7 @@ export function Sidebar({ open, onToggle, onClose, isMobile = false }: SidebarPr
                                 // Collapsed state - show only icon with tooltip
                                 <Tooltip title={item.text} placement="right" arrow>
                                     <ListItemButton
-                                        selected={location.pathname === item.path}
+                                        selected={isActive(item.path)}
                                         onClick={() => handleNavigation(item.path)}
                                         sx={{
                                             minHeight: 48,
@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    Box,
+    Typography,
+    Paper,
+    Stack,
+    TextField,
+    Button,
+    Alert,
+    Link,
+    CircularProgress
+} from '@mui/material';
+import { toast } from 'sonner';
+import { authApi, getErrorMessage } from '../../services';
+import type { MfaStatusResponse, MfaEnrollResponse } from '../../lib/auth-types';
+
+// Enroll an authenticator app, and manage recovery codes once two-factor is on
+export function TwoFactorSettings() {
+    const [status, setStatus] = useState<MfaStatusResponse | null>(null);
+    const [enrollment, setEnrollment] = useState<MfaEnrollResponse | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [code, setCode] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadStatus = useCallback(async () => {
+        try {
+            setStatus(await authApi.getMfaStatus());
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to load two-factor settings'));
+        }
+    }, []);
+
+    useEffect(() => {
+        loadStatus();
+    }, [loadStatus]);
+
+    // Every action takes the code field; clear it whatever the outcome
+    const run = async (action: () => Promise<void>, fallback: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+        } catch (error) {
+            toast.error(getErrorMessage(error, fallback));
+        } finally {
+            setCode('');
+            setIsSaving(false);
+        }
+    };
+
+    const handleEnroll = () => run(async () => {
+        setRecoveryCodes([]);
+        setEnrollment(await authApi.enrollMfa());
+    }, 'Failed to start two-factor setup');
+
+    const handleConfirm = () => run(async () => {
+        const response = await authApi.confirmMfa(code.trim());
+        setEnrollment(null);
+        setRecoveryCodes(response.recovery_codes);
+        toast.success('Two-factor authentication is on');
+        await loadStatus();
+    }, 'Failed to confirm the code');
+
+    const handleRegenerate = () => run(async () => {
+        const response = await authApi.regenerateRecoveryCodes(code.trim());
+        setRecoveryCodes(response.recovery_codes);
+        toast.success('New recovery codes created');
+        await loadStatus();
+    }, 'Failed to create new recovery codes');
+
+    const handleDisable = () => run(async () => {
+        await authApi.disableMfa(code.trim());
+        setRecoveryCodes([]);
+        toast.success('Two-factor authentication is off');
+        await loadStatus();
+    }, 'Failed to turn off two-factor authentication');
+
+    const codeField = (label: string) => (
+        <TextField
+            label={label}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            size="small"
+            autoComplete="one-time-code"
+            disabled={isSaving}
+        />
+    );
+
+    return (
+        <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="h6" gutterBottom>
+                Two-factor authentication
+            </Typography>
+
+            {!status ? (
+                <CircularProgress size={24} />
+            ) : (
+                <>
+                    <Typography color="textSecondary" sx={{ mb: 2 }}>
+                        {status.enabled
+                            ? `On. Signing in asks for a code from your authenticator app. ${status.recovery_codes_remaining} recovery codes left.`
+                            : 'Off. Add an authenticator app to ask for a code after your password when signing in.'}
+                    </Typography>
+
+                    {recoveryCodes.length > 0 && (
+                        <Alert severity="warning" sx={{ mb: 2 }}>
+                            Save these recovery codes somewhere safe. Each works once, and they won't be shown again.
+                            <Box component="pre" sx={{ fontFamily: 'monospace', mt: 1, mb: 0 }}>
+                                {recoveryCodes.join('\n')}
+                            </Box>
+                        </Alert>
+                    )}
+
+                    {!status.enabled && !enrollment && (
+                        <Button variant="contained" onClick={handleEnroll} disabled={isSaving}>
+                            Set up
+                        </Button>
+                    )}
+
+                    {!status.enabled && enrollment && (
+                        <Stack spacing={2}>
+                            <Typography>
+                                Add this account to your authenticator app with the key below
+                                (or <Link href={enrollment.otpauth_url}>open it on this device</Link>),
+                                then enter the code it shows.
+                            </Typography>
+                            <Typography sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                                {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+                            </Typography>
+                            <Stack direction="row" spacing={2}>
+                                {codeField('Code')}
+                                <Button variant="contained" onClick={handleConfirm} disabled={isSaving || !code.trim()}>
+                                    Turn on
+                                </Button>
+                                <Button onClick={() => setEnrollment(null)} disabled={isSaving}>
+                                    Cancel
+                                </Button>
+                            </Stack>
+                        </Stack>
+                    )}
+
+                    {status.enabled && (
+                        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                            {codeField('Code or recovery code')}
+                            <Button variant="outlined" onClick={handleRegenerate} disabled={isSaving || !code.trim()}>
+                                New recovery codes
+                            </Button>
+                            <Button color="error" onClick={handleDisable} disabled={isSaving || !code.trim()}>
+                                Turn off
+                            </Button>
+                        </Stack>
+                    )}
+                </>
+            )}
+        </Paper>
+    );
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { Alert, Button } from '@mui/material';
+import { toast } from 'sonner';
+import { useAppDispatch, useAppSelector } from '../../store/hooks';
+import { resendVerification, clearError } from '../../store/authSlice';
+
+// Reminds unverified users to confirm their email; publishing stays blocked until they do
+export function VerifyEmailBanner() {
+    const dispatch = useAppDispatch();
+    const { user } = useAppSelector((state) => state.auth);
+    const [isSending, setIsSending] = useState(false);
+
+    if (!user || user.is_verified) {
+        return null;
+    }
+
+    const handleResend = async () => {
+        setIsSending(true);
+        try {
+            const message = await dispatch(resendVerification()).unwrap();
+            toast.success(message);
+        } catch (error) {
+            toast.error(error as string);
+            dispatch(clearError());
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <Alert
+            severity="warning"
+            sx={{ mb: 3 }}
+            action={
+                <Button color="inherit" size="small" onClick={handleResend} disabled={isSending}>
+                    Resend email
+                </Button>
+            }
+        >
+            Check your inbox for a verification link. You can publish content once your email address is verified.
+        </Alert>
+    );
+}
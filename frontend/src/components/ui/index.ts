@@ -1,3 +1,5 @@
 // UI components will be exported from here
 // Currently empty - add UI components as they are created 
-export { TokenInfo } from './TokenInfo'; 
\ No newline at end of file
+export { TokenInfo } from './TokenInfo';
+export { VerifyEmailBanner } from './VerifyEmailBanner';
+export { TwoFactorSettings } from './TwoFactorSettings';
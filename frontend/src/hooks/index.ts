@@ -1,2 +1,3 @@
 export { useAuth } from './useAuth';
-export { useCounter } from './useCounter'; 
\ No newline at end of file
+export { useCounter } from './useCounter';
+export { useUnreadNotifications } from './useUnreadNotifications';
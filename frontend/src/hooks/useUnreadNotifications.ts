@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { notificationsApi } from '../services/api';
+
+// Wait before each reconnect attempt; the last delay repeats until the stream is back
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 15000, 30000];
+
+type NotificationStream = Awaited<ReturnType<typeof notificationsApi.stream>>;
+
+// Live unread count for the header badge, kept current over the notifications stream
+export const useUnreadNotifications = (userId?: string) => {
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    let cancelled = false;
+    let stream: NotificationStream | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastSeenId: string | undefined;
+    let attempt = 0;
+
+    const connect = async () => {
+      try {
+        stream = await notificationsApi.stream(lastSeenId);
+        if (cancelled) {
+          stream.close();
+          return;
+        }
+
+        for await (const message of stream) {
+          attempt = 0;
+          if (message.notification) {
+            lastSeenId = message.notification.id;
+          }
+          if (message.unread_count !== undefined) {
+            setUnreadCount(message.unread_count);
+          }
+        }
+      } catch (error) {
+        console.error('Notification stream error:', error);
+      }
+
+      if (!cancelled) {
+        const delay = RECONNECT_DELAYS_MS[Math.min(attempt++, RECONNECT_DELAYS_MS.length - 1)];
+        reconnectTimer = setTimeout(connect, delay);
+      }
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(reconnectTimer);
+      stream?.close();
+    };
+  }, [userId]);
+
+  return unreadCount;
+};
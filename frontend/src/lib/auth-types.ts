@@ -54,6 +54,47 @@ export interface RefreshResponse {
   success: boolean;
 }
 
+// Returned by signin instead of a session when two-factor authentication is on
+export interface MfaChallenge {
+  user: User;
+  mfa_required: true;
+  mfa_token: string;
+}
+
+export interface MfaStatusResponse {
+  enabled: boolean;
+  recovery_codes_remaining: number;
+}
+
+export interface MfaEnrollResponse {
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface MfaRecoveryCodesResponse {
+  success: boolean;
+  recovery_codes: string[];
+}
+
+export interface Session {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  signed_in_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+export interface ListSessionsResponse {
+  sessions: Session[];
+}
+
+export interface RevokeSessionsResponse {
+  success: boolean;
+  revoked: number;
+}
+
 // Error response interface
 export interface AuthError {
   code: string;
@@ -34,6 +34,10 @@ const BROWSER = typeof globalThis === "object" && ("window" in globalThis);
 export default class Client {
     public readonly api: api.ServiceClient
     public readonly auth: auth.ServiceClient
+    public readonly content: content.ServiceClient
+    public readonly media: media.ServiceClient
+    public readonly notifications: notifications.ServiceClient
+    public readonly users: users.ServiceClient
     private readonly options: ClientOptions
     private readonly target: string
 
@@ -50,6 +54,10 @@ export default class Client {
         const base = new BaseClient(this.target, this.options)
         this.api = new api.ServiceClient(base)
         this.auth = new auth.ServiceClient(base)
+        this.content = new content.ServiceClient(base)
+        this.media = new media.ServiceClient(base)
+        this.notifications = new notifications.ServiceClient(base)
+        this.users = new users.ServiceClient(base)
     }
 
     /**
@@ -78,11 +86,843 @@ export interface ClientOptions {
 
     /** Default RequestInit to be used for the client */
     requestInit?: Omit<RequestInit, "headers"> & { headers?: Record<string, string> }
+
+    /**
+     * Allows you to set the authentication data to be used for each
+     * request either by passing in a static object or by passing in
+     * a function which returns a new object for each request.
+     */
+    auth?: auth.AuthParams | AuthDataGenerator
+}
+
+export namespace api {
+    export interface CounterResponse {
+        value: number
+    }
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.get = this.get.bind(this)
+            this.increment = this.increment.bind(this)
+        }
+
+        public async get(): Promise<CounterResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/counter`)
+            return await resp.json() as CounterResponse
+        }
+
+        public async increment(): Promise<CounterResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/counter`)
+            return await resp.json() as CounterResponse
+        }
+    }
+}
+
+export namespace auth {
+    export interface AuthParams {
+        authorization?: string
+        accessToken?: string
+    }
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.changePassword = this.changePassword.bind(this)
+            this.confirmMfa = this.confirmMfa.bind(this)
+            this.disableMfa = this.disableMfa.bind(this)
+            this.enrollMfa = this.enrollMfa.bind(this)
+            this.forgotPassword = this.forgotPassword.bind(this)
+            this.getMfaStatus = this.getMfaStatus.bind(this)
+            this.listSessions = this.listSessions.bind(this)
+            this.logout = this.logout.bind(this)
+            this.me = this.me.bind(this)
+            this.refresh = this.refresh.bind(this)
+            this.regenerateRecoveryCodes = this.regenerateRecoveryCodes.bind(this)
+            this.resendVerification = this.resendVerification.bind(this)
+            this.resetPassword = this.resetPassword.bind(this)
+            this.revokeOtherSessions = this.revokeOtherSessions.bind(this)
+            this.revokeSession = this.revokeSession.bind(this)
+            this.signin = this.signin.bind(this)
+            this.signup = this.signup.bind(this)
+            this.unlockAccount = this.unlockAccount.bind(this)
+            this.verifyEmail = this.verifyEmail.bind(this)
+            this.verifyMfa = this.verifyMfa.bind(this)
+        }
+
+        public async changePassword(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/change-password`, body, options)
+        }
+
+        /**
+         * Turn two-factor on with a code from the enrolled secret and hand out recovery codes
+         */
+        public async confirmMfa(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/mfa/confirm`, body, options)
+        }
+
+        /**
+         * Turn two-factor off; takes an authenticator or recovery code
+         */
+        public async disableMfa(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/mfa/disable`, body, options)
+        }
+
+        /**
+         * Start enrollment with a new secret; two-factor stays off until confirmMfa
+         */
+        public async enrollMfa(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/mfa/enroll`, body, options)
+        }
+
+        public async forgotPassword(params: endpoints.ForgotPasswordRequest): Promise<{
+    success: boolean
+    message: string
+}> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/auth/forgot-password`, JSON.stringify(params))
+            return await resp.json() as {
+    success: boolean
+    message: string
+}
+        }
+
+        public async getMfaStatus(method: "GET", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/mfa`, body, options)
+        }
+
+        /**
+         * Every signed-in device or browser, most recently used first
+         */
+        public async listSessions(method: "GET", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/sessions`, body, options)
+        }
+
+        public async logout(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/logout`, body, options)
+        }
+
+        public async me(method: "GET", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/me`, body, options)
+        }
+
+        public async refresh(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/refresh`, body, options)
+        }
+
+        /**
+         * Replace all recovery codes, e.g. after running low; takes an authenticator or recovery code
+         */
+        public async regenerateRecoveryCodes(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/mfa/recovery-codes`, body, options)
+        }
+
+        public async resendVerification(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/resend-verification`, body, options)
+        }
+
+        public async resetPassword(params: endpoints.ResetPasswordRequest): Promise<{
+    success: boolean
+    message: string
+}> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/auth/reset-password`, JSON.stringify(params))
+            return await resp.json() as {
+    success: boolean
+    message: string
 }
+        }
+
+        /**
+         * Sign out everywhere except the session the request was made from
+         */
+        public async revokeOtherSessions(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/sessions/revoke-others`, body, options)
+        }
+
+        /**
+         * Sign one session out; its access token stops working along with its refresh token
+         */
+        public async revokeSession(method: "DELETE", id: string, body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/sessions/${encodeURIComponent(id)}`, body, options)
+        }
+
+        public async signin(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/signin`, body, options)
+        }
+
+        /**
+         * Authentication endpoints using raw API for cookie management
+         */
+        public async signup(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/signup`, body, options)
+        }
+
+        /**
+         * Clear every attempt counter for an account, lifting a lockout early (admin only)
+         */
+        public async unlockAccount(userId: string): Promise<endpoints.UnlockAccountResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/auth/accounts/${encodeURIComponent(userId)}/unlock`)
+            return await resp.json() as endpoints.UnlockAccountResponse
+        }
+
+        public async verifyEmail(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/verify-email`, body, options)
+        }
+
+        /**
+         * Second sign-in step: exchange the mfa_token and a code for the usual session
+         */
+        public async verifyMfa(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/auth/mfa/verify`, body, options)
+        }
+    }
+}
+
+export namespace content {
+    export interface Category {
+        id: string
+        name: string
+        slug: string
+        description?: string
+        "parent_id"?: string
+        "created_at": string
+    }
+
+    export interface CategoryNode {
+        children: CategoryNode[]
+        "usage_count": number
+        id: string
+        name: string
+        slug: string
+        description?: string
+        "parent_id"?: string
+        "created_at": string
+    }
+
+    export interface CategoryTreeResponse {
+        tree: CategoryNode[]
+    }
+
+    export interface CategoryWithUsage {
+        "usage_count": number
+        id: string
+        name: string
+        slug: string
+        description?: string
+        "parent_id"?: string
+        "created_at": string
+    }
+
+    export interface ContentBySlugResponse {
+        content: ContentWithDetails
+        /**
+         * Set when the requested slug is an old one; clients should redirect here
+         */
+        "redirect_to"?: string
+    }
+
+    export interface ContentItem {
+        id: string
+        title: string
+        slug: string
+        content?: string
+        excerpt?: string
+        status: ContentStatus
+        type: ContentType
+        "author_id": string
+        "category_id"?: string
+        "featured_media_id"?: string
+        "published_at"?: string
+        "scheduled_for"?: string
+        "unpublish_at"?: string
+        "created_at": string
+        "updated_at": string
+    }
+
+    export interface ContentRevision {
+        id: string
+        "content_id": string
+        "revision_number": number
+        title: string
+        content?: string
+        excerpt?: string
+        status: ContentStatus
+        "author_id": string
+        "created_at": string
+    }
+
+    export type ContentStatus = "draft" | "review" | "published" | "archived"
+
+    export type ContentType = "article" | "page" | "blog_post"
+
+    export interface ContentWithDetails {
+        category?: Category
+        tags: Tag[]
+        id: string
+        title: string
+        slug: string
+        content?: string
+        excerpt?: string
+        status: ContentStatus
+        type: ContentType
+        "author_id": string
+        "category_id"?: string
+        "featured_media_id"?: string
+        "published_at"?: string
+        "scheduled_for"?: string
+        "unpublish_at"?: string
+        "created_at": string
+        "updated_at": string
+    }
+
+    export interface CreateCategoryRequest {
+        name: string
+        slug?: string
+        description?: string
+        "parent_id"?: string
+    }
+
+    export interface CreateContentRequest {
+        title: string
+        slug?: string
+        content?: string
+        excerpt?: string
+        type: ContentType
+        "category_id"?: string
+        "featured_media_id"?: string
+        "tag_ids"?: string[]
+    }
+
+    export interface DeleteContentResponse {
+        success: boolean
+    }
+
+    export interface DeleteResponse {
+        success: boolean
+    }
+
+    export interface DiffLine {
+        type: DiffLineType
+        text: string
+    }
+
+    export type DiffLineType = "added" | "removed" | "unchanged"
+
+    export interface FieldDiff {
+        field: "title" | "excerpt" | "content" | "status"
+        lines: DiffLine[]
+    }
+
+    export interface GetContentResponse {
+        content: ContentWithDetails | null
+    }
+
+    export interface ListCategoriesResponse {
+        categories: CategoryWithUsage[]
+    }
+
+    export interface ListRevisionsResponse {
+        revisions: ContentRevision[]
+    }
+
+    export interface ListTagsResponse {
+        tags: TagWithUsage[]
+    }
+
+    export interface MergeTagRequest {
+        "target_id": string
+    }
+
+    export interface MoveCategoryRequest {
+        /**
+         * Omit to move the category to the top level
+         */
+        "parent_id"?: string
+    }
+
+    export interface RevisionDiffResponse {
+        from: number
+        to: number
+        changes: FieldDiff[]
+    }
+
+    export interface ScheduleContentRequest {
+        "publish_at"?: string
+        "unpublish_at"?: string
+    }
+
+    export interface SearchContentRequest {
+        q: string
+        status?: ContentStatus
+        type?: ContentType
+        "category_id"?: string
+        "tag_id"?: string
+        "author_id"?: string
+        /**
+         * Date range, matched against published_at (created_at for unpublished items)
+         */
+        from?: string
+        to?: string
+        page?: number
+        limit?: number
+    }
+
+    export interface SearchContentResponse {
+        results: SearchResult[]
+        total: number
+        page: number
+        limit: number
+    }
+
+    export interface SearchResult {
+        item: ContentItem
+        rank: number
+        /**
+         * Title and body excerpts with matches wrapped in <mark></mark>
+         */
+        "title_highlight": string
+        snippet: string
+    }
+
+    export interface Tag {
+        id: string
+        name: string
+        "created_at": string
+    }
+
+    export interface TagRequest {
+        name: string
+    }
+
+    export interface TagWithUsage {
+        "usage_count": number
+        id: string
+        name: string
+        "created_at": string
+    }
+
+    export interface UpdateCategoryRequest {
+        name?: string
+        slug?: string
+        description?: string
+    }
+
+    export interface UpdateContentRequest {
+        title?: string
+        slug?: string
+        content?: string
+        excerpt?: string
+        status?: ContentStatus
+        /**
+         * null takes the item out of its category
+         */
+        "category_id"?: string | null
+        /**
+         * null removes the featured image
+         */
+        "featured_media_id"?: string | null
+        "tag_ids"?: string[]
+    }
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.createCategory = this.createCategory.bind(this)
+            this.createContent = this.createContent.bind(this)
+            this.createTag = this.createTag.bind(this)
+            this.deleteCategory = this.deleteCategory.bind(this)
+            this.deleteContent = this.deleteContent.bind(this)
+            this.deleteTag = this.deleteTag.bind(this)
+            this.diffRevisions = this.diffRevisions.bind(this)
+            this.getCategoryTree = this.getCategoryTree.bind(this)
+            this.getContent = this.getContent.bind(this)
+            this.getContentBySlug = this.getContentBySlug.bind(this)
+            this.listCategories = this.listCategories.bind(this)
+            this.listRevisions = this.listRevisions.bind(this)
+            this.listTags = this.listTags.bind(this)
+            this.mergeTag = this.mergeTag.bind(this)
+            this.moveCategory = this.moveCategory.bind(this)
+            this.renameTag = this.renameTag.bind(this)
+            this.restoreRevision = this.restoreRevision.bind(this)
+            this.scheduleContent = this.scheduleContent.bind(this)
+            this.searchContent = this.searchContent.bind(this)
+            this.unscheduleContent = this.unscheduleContent.bind(this)
+            this.updateCategory = this.updateCategory.bind(this)
+            this.updateContent = this.updateContent.bind(this)
+        }
+
+        public async createCategory(params: CreateCategoryRequest): Promise<CategoryWithUsage> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/categories`, JSON.stringify(params))
+            return await resp.json() as CategoryWithUsage
+        }
+
+        public async createContent(params: CreateContentRequest): Promise<ContentItem> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/content`, JSON.stringify(params))
+            return await resp.json() as ContentItem
+        }
+
+        public async createTag(params: TagRequest): Promise<TagWithUsage> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/tags`, JSON.stringify(params))
+            return await resp.json() as TagWithUsage
+        }
+
+        /**
+         * Children move up to the deleted category's parent; its content becomes uncategorized
+         */
+        public async deleteCategory(id: string): Promise<DeleteResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("DELETE", `/categories/${encodeURIComponent(id)}`)
+            return await resp.json() as DeleteResponse
+        }
+
+        public async deleteContent(id: string): Promise<DeleteContentResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("DELETE", `/content/${encodeURIComponent(id)}`)
+            return await resp.json() as DeleteContentResponse
+        }
+
+        public async deleteTag(id: string): Promise<DeleteResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("DELETE", `/tags/${encodeURIComponent(id)}`)
+            return await resp.json() as DeleteResponse
+        }
+
+        public async diffRevisions(id: string, params: {
+    from: number
+    to: number
+}): Promise<RevisionDiffResponse> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                from: String(params.from),
+                to:   String(params.to),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/content/${encodeURIComponent(id)}/diff`, undefined, {query})
+            return await resp.json() as RevisionDiffResponse
+        }
+
+        public async getCategoryTree(): Promise<CategoryTreeResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/categories/tree`)
+            return await resp.json() as CategoryTreeResponse
+        }
+
+        public async getContent(id: string): Promise<GetContentResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/content/${encodeURIComponent(id)}`)
+            return await resp.json() as GetContentResponse
+        }
+
+        /**
+         * Serve public pages by slug; old slugs resolve to the current item with a redirect hint
+         */
+        public async getContentBySlug(slug: string): Promise<ContentBySlugResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/content/by-slug/${encodeURIComponent(slug)}`)
+            return await resp.json() as ContentBySlugResponse
+        }
+
+        public async listCategories(): Promise<ListCategoriesResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/categories`)
+            return await resp.json() as ListCategoriesResponse
+        }
+
+        public async listRevisions(id: string): Promise<ListRevisionsResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/content/${encodeURIComponent(id)}/revisions`)
+            return await resp.json() as ListRevisionsResponse
+        }
+
+        public async listTags(): Promise<ListTagsResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/tags`)
+            return await resp.json() as ListTagsResponse
+        }
+
+        /**
+         * Fold a tag into another: its content links move to the target and the tag is removed
+         */
+        public async mergeTag(id: string, params: MergeTagRequest): Promise<TagWithUsage> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/tags/${encodeURIComponent(id)}/merge`, JSON.stringify(params))
+            return await resp.json() as TagWithUsage
+        }
+
+        /**
+         * Reparent a category; moving it under itself or one of its descendants is rejected
+         */
+        public async moveCategory(id: string, params: MoveCategoryRequest): Promise<CategoryWithUsage> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/categories/${encodeURIComponent(id)}/move`, JSON.stringify(params))
+            return await resp.json() as CategoryWithUsage
+        }
+
+        public async renameTag(id: string, params: TagRequest): Promise<TagWithUsage> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("PUT", `/tags/${encodeURIComponent(id)}`, JSON.stringify(params))
+            return await resp.json() as TagWithUsage
+        }
+
+        public async restoreRevision(id: string, revision: number): Promise<ContentItem> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/content/${encodeURIComponent(id)}/revisions/${encodeURIComponent(revision)}/restore`)
+            return await resp.json() as ContentItem
+        }
+
+        /**
+         * Schedule an item in review to go live, and/or a live item to come down again
+         */
+        public async scheduleContent(id: string, params: ScheduleContentRequest): Promise<ContentItem> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("PUT", `/content/${encodeURIComponent(id)}/schedule`, JSON.stringify(params))
+            return await resp.json() as ContentItem
+        }
+
+        /**
+         * Ranked full-text search over title, excerpt and body with optional filters
+         */
+        public async searchContent(params: SearchContentRequest): Promise<SearchContentResponse> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                "author_id":   params["author_id"],
+                "category_id": params["category_id"],
+                from:          params.from,
+                limit:         params.limit === undefined ? undefined : String(params.limit),
+                page:          params.page === undefined ? undefined : String(params.page),
+                q:             params.q,
+                status:        params.status === undefined ? undefined : String(params.status),
+                "tag_id":      params["tag_id"],
+                to:            params.to,
+                type:          params.type === undefined ? undefined : String(params.type),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/content/search`, undefined, {query})
+            return await resp.json() as SearchContentResponse
+        }
+
+        public async unscheduleContent(id: string): Promise<ContentItem> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("DELETE", `/content/${encodeURIComponent(id)}/schedule`)
+            return await resp.json() as ContentItem
+        }
+
+        public async updateCategory(id: string, params: UpdateCategoryRequest): Promise<CategoryWithUsage> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("PUT", `/categories/${encodeURIComponent(id)}`, JSON.stringify(params))
+            return await resp.json() as CategoryWithUsage
+        }
+
+        public async updateContent(id: string, params: UpdateContentRequest): Promise<ContentItem> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("PUT", `/content/${encodeURIComponent(id)}`, JSON.stringify(params))
+            return await resp.json() as ContentItem
+        }
+    }
+}
+
+export namespace endpoints {
+    export interface ForgotPasswordRequest {
+        email: string
+    }
+
+    export interface ResetPasswordRequest {
+        token: string
+        newPassword: string
+    }
+
+    export interface UnlockAccountResponse {
+        success: boolean
+        /**
+         * False when the account had no failed attempts on record
+         */
+        unlocked: boolean
+    }
+}
+
+export namespace media {
+    export interface BreadcrumbsResponse {
+        /**
+         * From the top-level folder down to the requested one
+         */
+        breadcrumbs: MediaFolder[]
+    }
+
+    export interface CreateFolderRequest {
+        name: string
+        "parent_id"?: string
+    }
+
+    export interface DeleteFolderResponse {
+        success: boolean
+        "deleted_folders": number
+        "deleted_media": number
+        /**
+         * References left dangling by a forced cascade
+         */
+        "broken_references": MediaReference[]
+    }
+
+    export type DeleteFolderStrategy = "cascade" | "move_to_parent"
+
+    export interface DeleteMediaResponse {
+        success: boolean
+        /**
+         * References left dangling by a forced delete
+         */
+        "broken_references": MediaReference[]
+    }
+
+    export interface ListFoldersResponse {
+        folders: MediaFolderWithCounts[]
+    }
+
+    export interface MediaFolder {
+        id: string
+        name: string
+        "parent_id"?: string
+        "created_by": string
+        "created_at": string
+    }
+
+    export interface MediaFolderWithCounts {
+        id: string
+        name: string
+        "parent_id"?: string
+        "created_by": string
+        "created_at": string
+        /**
+         * Media filed directly in this folder, not counting subfolders
+         */
+        "item_count": number
+        "child_count": number
+    }
+
+    export interface MediaItem {
+        id: string
+        filename: string
+        "original_filename": string
+        /**
+         * Object key in the media files bucket
+         */
+        "file_path": string
+        "file_size": number
+        "mime_type": string
+        type: MediaType
+        /**
+         * SHA-256 of the stored bytes, hex encoded
+         */
+        checksum?: string
+        width?: number
+        height?: number
+        duration?: number
+        /**
+         * EXIF orientation of the original; width and height are as displayed
+         */
+        orientation?: number
+        /**
+         * Set for images, which get renditions generated after upload
+         */
+        "processing_status"?: ProcessingStatus
+        "alt_text"?: string
+        caption?: string
+        "uploaded_by": string
+        "created_at": string
+    }
+
+    export interface MediaReference {
+        "media_id": string
+        "content_id": string
+        title: string
+        usage: "body" | "featured"
+    }
+
+    export type MediaType = "image" | "video" | "document" | "audio"
+
+    export interface MediaUrlResponse {
+        /**
+         * Delivery endpoint path with its signature, relative to the API base URL
+         */
+        url: string
+        "expires_at": string
+        /**
+         * Long-lived and shareable because published content uses the item
+         */
+        public: boolean
+    }
+
+    export interface MoveFolderRequest {
+        /**
+         * Omit to move the folder to the top level
+         */
+        "parent_id"?: string
+    }
+
+    export interface MoveMediaRequest {
+        "media_ids": string[]
+        /**
+         * Omit to take the media out of any folder
+         */
+        "folder_id"?: string
+    }
 
-export namespace api {
-    export interface CounterResponse {
-        value: number
+    export interface MoveMediaResponse {
+        moved: number
+    }
+
+    export type ProcessingStatus = "pending" | "ready" | "failed"
+
+    export interface RenameFolderRequest {
+        name: string
+    }
+
+    export type RenditionFormat = "avif" | "webp"
+
+    export interface SrcsetResponse {
+        "media_id": string
+        "processing_status"?: ProcessingStatus
+        width?: number
+        height?: number
+        /**
+         * Most efficient format first, as <picture> expects
+         */
+        sources: SrcsetSource[]
+    }
+
+    export interface SrcsetSource {
+        format: RenditionFormat
+        "mime_type": string
+        /**
+         * Ready for a <source srcset> attribute, e.g. "https://... 320w, https://... 960w"
+         */
+        srcset: string
+    }
+
+    export interface UpdateMediaRequest {
+        /**
+         * An empty string clears the field
+         */
+        "alt_text"?: string
+        caption?: string
+        /**
+         * null takes the item out of its folder
+         */
+        "folder_id"?: string | null
     }
 
     export class ServiceClient {
@@ -90,102 +930,499 @@ export namespace api {
 
         constructor(baseClient: BaseClient) {
             this.baseClient = baseClient
-            this.get = this.get.bind(this)
-            this.increment = this.increment.bind(this)
+            this.createFolder = this.createFolder.bind(this)
+            this.deleteFolder = this.deleteFolder.bind(this)
+            this.deleteMedia = this.deleteMedia.bind(this)
+            this.deliverMedia = this.deliverMedia.bind(this)
+            this.getFolderBreadcrumbs = this.getFolderBreadcrumbs.bind(this)
+            this.getMediaSrcset = this.getMediaSrcset.bind(this)
+            this.getMediaUrl = this.getMediaUrl.bind(this)
+            this.getPublicMediaUrl = this.getPublicMediaUrl.bind(this)
+            this.listFolders = this.listFolders.bind(this)
+            this.moveFolder = this.moveFolder.bind(this)
+            this.moveMedia = this.moveMedia.bind(this)
+            this.renameFolder = this.renameFolder.bind(this)
+            this.updateMedia = this.updateMedia.bind(this)
+            this.uploadMedia = this.uploadMedia.bind(this)
         }
 
-        public async get(): Promise<CounterResponse> {
+        public async createFolder(params: CreateFolderRequest): Promise<MediaFolder> {
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI("GET", `/counter`)
-            return await resp.json() as CounterResponse
+            const resp = await this.baseClient.callTypedAPI("POST", `/media/folders`, JSON.stringify(params))
+            return await resp.json() as MediaFolder
         }
 
-        public async increment(): Promise<CounterResponse> {
+        /**
+         * A non-empty folder needs a strategy: cascade deletes subfolders and their
+         * media, move_to_parent hands the contents to the folder's parent. Like
+         * deleteMedia, cascade refuses while content references the media unless forced.
+         */
+        public async deleteFolder(id: string, params: {
+    strategy?: DeleteFolderStrategy
+    /**
+     * Cascade even though content still references media in the folder
+     */
+    force?: boolean
+}): Promise<DeleteFolderResponse> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                force: params.force === undefined ? undefined : String(params.force),
+                strategy: params.strategy === undefined ? undefined : String(params.strategy),
+            })
+
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI("POST", `/counter`)
-            return await resp.json() as CounterResponse
+            const resp = await this.baseClient.callTypedAPI("DELETE", `/media/folders/${encodeURIComponent(id)}`, undefined, {query})
+            return await resp.json() as DeleteFolderResponse
+        }
+
+        /**
+         * Refuses while content still references the item unless forced; a forced
+         * delete reports the references it leaves dangling
+         */
+        public async deleteMedia(id: string, params: {
+    /**
+     * Delete even though content still references the item
+     */
+    force?: boolean
+}): Promise<DeleteMediaResponse> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                force: params.force === undefined ? undefined : String(params.force),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("DELETE", `/media/${encodeURIComponent(id)}`, undefined, {query})
+            return await resp.json() as DeleteMediaResponse
+        }
+
+        /**
+         * Serves the original bytes to holders of a valid signed URL
+         * (?expires=...&user=...&sig=...), honouring single-part Range requests
+         */
+        public async deliverMedia(method: "GET", id: string, body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/media/${encodeURIComponent(id)}/file`, body, options)
+        }
+
+        public async getFolderBreadcrumbs(id: string): Promise<BreadcrumbsResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/media/folders/${encodeURIComponent(id)}/breadcrumbs`)
+            return await resp.json() as BreadcrumbsResponse
+        }
+
+        /**
+         * Responsive image sources for <picture>; empty until processing has finished
+         */
+        public async getMediaSrcset(id: string): Promise<SrcsetResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/media/${encodeURIComponent(id)}/srcset`)
+            return await resp.json() as SrcsetResponse
+        }
+
+        /**
+         * A signed delivery URL for any media item; published media gets a long-lived public one
+         */
+        public async getMediaUrl(id: string, params: {
+    /**
+     * Lifetime of a private URL in seconds; ignored for published media
+     */
+    "expires_in"?: number
+    /**
+     * Make a private URL usable only by the caller
+     */
+    "bind_to_user"?: boolean
+}): Promise<MediaUrlResponse> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                "bind_to_user": params["bind_to_user"] === undefined ? undefined : String(params["bind_to_user"]),
+                "expires_in":   params["expires_in"] === undefined ? undefined : String(params["expires_in"]),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/media/${encodeURIComponent(id)}/url`, undefined, {query})
+            return await resp.json() as MediaUrlResponse
+        }
+
+        /**
+         * Public URL for media used by published content; anything else looks missing
+         */
+        public async getPublicMediaUrl(id: string): Promise<MediaUrlResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/media/${encodeURIComponent(id)}/public-url`)
+            return await resp.json() as MediaUrlResponse
+        }
+
+        public async listFolders(): Promise<ListFoldersResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/media/folders`)
+            return await resp.json() as ListFoldersResponse
+        }
+
+        /**
+         * Reparent a folder; moving it under itself or one of its descendants is rejected
+         */
+        public async moveFolder(id: string, params: MoveFolderRequest): Promise<MediaFolder> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/media/folders/${encodeURIComponent(id)}/move`, JSON.stringify(params))
+            return await resp.json() as MediaFolder
+        }
+
+        /**
+         * Refile media into a folder, or take it out of folders altogether
+         */
+        public async moveMedia(params: MoveMediaRequest): Promise<MoveMediaResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/media/move`, JSON.stringify(params))
+            return await resp.json() as MoveMediaResponse
+        }
+
+        public async renameFolder(id: string, params: RenameFolderRequest): Promise<MediaFolder> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("PUT", `/media/folders/${encodeURIComponent(id)}`, JSON.stringify(params))
+            return await resp.json() as MediaFolder
+        }
+
+        public async updateMedia(id: string, params: UpdateMediaRequest): Promise<MediaItem> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("PATCH", `/media/${encodeURIComponent(id)}`, JSON.stringify(params))
+            return await resp.json() as MediaItem
+        }
+
+        /**
+         * Streams the request body into storage; the metadata travels in the query string
+         * (?filename=...&alt_text=...&caption=...&folder_id=...)
+         */
+        public async uploadMedia(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
+            return this.baseClient.callAPI(method, `/upload`, body, options)
         }
     }
 }
 
-export namespace auth {
+export namespace notifications {
+    export interface DeleteNotificationResponse {
+        success: boolean
+    }
+
+    export interface GetNotificationsResponse {
+        notifications: Notification[]
+        total: number
+        page: number
+        limit: number
+        "next_cursor"?: string
+    }
+
+    export interface MarkAllReadResponse {
+        updated: number
+    }
+
+    export interface Notification {
+        id: string
+        type: NotificationType
+        title: string
+        message: string
+        "user_id": string
+        event?: NotificationEvent
+        /**
+         * Where it was delivered; only in_app notifications appear in the inbox
+         */
+        channels?: NotificationChannel[]
+        read: boolean
+        "read_at"?: string
+        /**
+         * Archived notifications leave the inbox but can still be listed
+         */
+        "archived_at"?: string
+        "created_at": string
+    }
+
+    export type NotificationChannel = "in_app" | "email" | "digest"
+
+    export type NotificationEvent = "announcement" | "content_published" | "content_unpublished" | "review_requested" | "media_uploaded" | "user_registered" | "password_changed" | "account_locked" | "session_compromised"
+
+    export interface NotificationPreference {
+        event: NotificationEvent
+        channel: NotificationChannel
+        enabled: boolean
+        /**
+         * Cannot be turned off
+         */
+        locked: boolean
+    }
+
+    export type NotificationStreamEvent = "notification" | "unread_count" | "heartbeat"
+
+    export interface NotificationStreamMessage {
+        event: NotificationStreamEvent
+        notification?: Notification
+        "unread_count"?: number
+        timestamp: string
+    }
+
+    export type NotificationType = "info" | "success" | "warning" | "error"
+
+    export interface PreferenceSetting {
+        event: NotificationEvent
+        channel: NotificationChannel
+        enabled: boolean
+    }
+
+    export interface PreferencesResponse {
+        preferences: NotificationPreference[]
+    }
+
+    export interface SendNotificationRequest {
+        type: NotificationType
+        title: string
+        message: string
+        "user_id": string
+        /**
+         * Defaults to announcement
+         */
+        event?: NotificationEvent
+    }
+
+    export interface UnreadCountResponse {
+        count: number
+    }
+
+    export interface UpdatePreferencesRequest {
+        preferences: PreferenceSetting[]
+    }
 
     export class ServiceClient {
         private baseClient: BaseClient
 
         constructor(baseClient: BaseClient) {
             this.baseClient = baseClient
-            this.changePassword = this.changePassword.bind(this)
-            this.forgotPassword = this.forgotPassword.bind(this)
-            this.logout = this.logout.bind(this)
-            this.me = this.me.bind(this)
-            this.refresh = this.refresh.bind(this)
-            this.resetPassword = this.resetPassword.bind(this)
-            this.signin = this.signin.bind(this)
-            this.signup = this.signup.bind(this)
+            this.archiveNotification = this.archiveNotification.bind(this)
+            this.deleteNotification = this.deleteNotification.bind(this)
+            this.getNotifications = this.getNotifications.bind(this)
+            this.getPreferences = this.getPreferences.bind(this)
+            this.getUnreadCount = this.getUnreadCount.bind(this)
+            this.markAllNotificationsRead = this.markAllNotificationsRead.bind(this)
+            this.markNotificationRead = this.markNotificationRead.bind(this)
+            this.sendNotification = this.sendNotification.bind(this)
+            this.streamNotifications = this.streamNotifications.bind(this)
+            this.updatePreferences = this.updatePreferences.bind(this)
         }
 
-        public async changePassword(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
-            return this.baseClient.callAPI(method, `/auth/change-password`, body, options)
+        /**
+         * Archiving takes a notification out of the inbox without deleting it; it also counts as read
+         */
+        public async archiveNotification(userId: string, id: string): Promise<Notification> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/notifications/${encodeURIComponent(userId)}/${encodeURIComponent(id)}/archive`)
+            return await resp.json() as Notification
         }
 
-        public async forgotPassword(params: endpoints.ForgotPasswordRequest): Promise<{
-    success: boolean
-    message: string
-}> {
+        public async deleteNotification(userId: string, id: string): Promise<DeleteNotificationResponse> {
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI("POST", `/auth/forgot-password`, JSON.stringify(params))
-            return await resp.json() as {
-    success: boolean
-    message: string
-}
+            const resp = await this.baseClient.callTypedAPI("DELETE", `/notifications/${encodeURIComponent(userId)}/${encodeURIComponent(id)}`)
+            return await resp.json() as DeleteNotificationResponse
         }
 
-        public async logout(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
-            return this.baseClient.callAPI(method, `/auth/logout`, body, options)
+        public async getNotifications(userId: string, params: {
+    "unread_only"?: boolean
+    /**
+     * List the archive instead of the inbox
+     */
+    archived?: boolean
+    page?: number
+    limit?: number
+    /**
+     * Opaque token from a previous response's next_cursor; takes precedence over page
+     */
+    cursor?: string
+}): Promise<GetNotificationsResponse> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                archived:      params.archived === undefined ? undefined : String(params.archived),
+                cursor:        params.cursor,
+                limit:         params.limit === undefined ? undefined : String(params.limit),
+                page:          params.page === undefined ? undefined : String(params.page),
+                "unread_only": params["unread_only"] === undefined ? undefined : String(params["unread_only"]),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/notifications/${encodeURIComponent(userId)}`, undefined, {query})
+            return await resp.json() as GetNotificationsResponse
         }
 
-        public async me(method: "GET", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
-            return this.baseClient.callAPI(method, `/auth/me`, body, options)
+        public async getPreferences(userId: string): Promise<PreferencesResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/notifications/${encodeURIComponent(userId)}/preferences`)
+            return await resp.json() as PreferencesResponse
         }
 
-        public async refresh(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
-            return this.baseClient.callAPI(method, `/auth/refresh`, body, options)
+        /**
+         * Unread notifications still in the inbox, for the header badge
+         */
+        public async getUnreadCount(userId: string): Promise<UnreadCountResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/notifications/${encodeURIComponent(userId)}/unread-count`)
+            return await resp.json() as UnreadCountResponse
         }
 
-        public async resetPassword(params: endpoints.ResetPasswordRequest): Promise<{
-    success: boolean
-    message: string
-}> {
+        public async markAllNotificationsRead(userId: string): Promise<MarkAllReadResponse> {
             // Now make the actual call to the API
-            const resp = await this.baseClient.callTypedAPI("POST", `/auth/reset-password`, JSON.stringify(params))
-            return await resp.json() as {
-    success: boolean
-    message: string
-}
+            const resp = await this.baseClient.callTypedAPI("POST", `/notifications/${encodeURIComponent(userId)}/read-all`)
+            return await resp.json() as MarkAllReadResponse
         }
 
-        public async signin(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
-            return this.baseClient.callAPI(method, `/auth/signin`, body, options)
+        public async markNotificationRead(userId: string, id: string): Promise<Notification> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/notifications/${encodeURIComponent(userId)}/${encodeURIComponent(id)}/read`)
+            return await resp.json() as Notification
+        }
+
+        public async sendNotification(params: SendNotificationRequest): Promise<Notification> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/send`, JSON.stringify(params))
+            return await resp.json() as Notification
         }
 
         /**
-         * Authentication endpoints using raw API for cookie management
+         * Live feed of the caller's notifications. On reconnect, pass the last id seen to
+         * replay what was missed; messages can repeat around a reconnect, so clients skip
+         * ids they already have. Only sessions connected to this instance get live pushes.
          */
-        public async signup(method: "POST", body?: RequestInit["body"], options?: CallParameters): Promise<globalThis.Response> {
-            return this.baseClient.callAPI(method, `/auth/signup`, body, options)
+        public async streamNotifications(params: {
+    /**
+     * Id of the newest notification the client already has; anything after it is replayed
+     */
+    "last_seen_id"?: string
+}) {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                "last_seen_id": params["last_seen_id"],
+            })
+
+            return await this.baseClient.createStreamIn<NotificationStreamMessage>(`/notifications/stream`, {query})
+        }
+
+        /**
+         * Settings not mentioned keep their current value
+         */
+        public async updatePreferences(userId: string, params: UpdatePreferencesRequest): Promise<PreferencesResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("PUT", `/notifications/${encodeURIComponent(userId)}/preferences`, JSON.stringify(params))
+            return await resp.json() as PreferencesResponse
         }
     }
 }
 
-export namespace endpoints {
-    export interface ForgotPasswordRequest {
-        email: string
+export namespace users {
+    export interface AssignRoleRequest {
+        "role_id": string
     }
 
-    export interface ResetPasswordRequest {
-        token: string
-        newPassword: string
+    export interface GetProfileResponse {
+        profile: UserProfile | null
+    }
+
+    export interface GetUserRolesResponse {
+        roles: Role[]
+    }
+
+    export interface ListRolesResponse {
+        roles: Role[]
+        assignments: RoleAssignment[]
+    }
+
+    export interface RevokeRoleResponse {
+        success: boolean
+    }
+
+    export interface Role {
+        id: string
+        name: string
+        description?: string
+        "created_at": string
+    }
+
+    export interface RoleAssignment {
+        "user_id": string
+        "role_id": string
+        "role_name": string
+        "assigned_at": string
+        "assigned_by"?: string
+    }
+
+    export interface UpdateProfileRequest {
+        "first_name"?: string
+        "last_name"?: string
+        bio?: string
+    }
+
+    export interface UserProfile {
+        id: string
+        "user_id": string
+        "first_name"?: string
+        "last_name"?: string
+        "avatar_url"?: string
+        bio?: string
+        "created_at": string
+        "updated_at": string
+    }
+
+    export interface UserRole {
+        id: string
+        "user_id": string
+        "role_id": string
+        "assigned_at": string
+        "assigned_by"?: string
+    }
+
+    export class ServiceClient {
+        private baseClient: BaseClient
+
+        constructor(baseClient: BaseClient) {
+            this.baseClient = baseClient
+            this.assignRole = this.assignRole.bind(this)
+            this.getProfile = this.getProfile.bind(this)
+            this.getUserRoles = this.getUserRoles.bind(this)
+            this.listRoles = this.listRoles.bind(this)
+            this.revokeRole = this.revokeRole.bind(this)
+            this.updateProfile = this.updateProfile.bind(this)
+        }
+
+        public async assignRole(userId: string, params: AssignRoleRequest): Promise<UserRole> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("POST", `/roles/${encodeURIComponent(userId)}`, JSON.stringify(params))
+            return await resp.json() as UserRole
+        }
+
+        public async getProfile(userId: string): Promise<GetProfileResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/profile/${encodeURIComponent(userId)}`)
+            return await resp.json() as GetProfileResponse
+        }
+
+        public async getUserRoles(userId: string): Promise<GetUserRolesResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/roles/${encodeURIComponent(userId)}`)
+            return await resp.json() as GetUserRolesResponse
+        }
+
+        /**
+         * List every role together with all current assignments (admin only)
+         */
+        public async listRoles(): Promise<ListRolesResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("GET", `/roles`)
+            return await resp.json() as ListRolesResponse
+        }
+
+        public async revokeRole(userId: string, roleId: string): Promise<RevokeRoleResponse> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("DELETE", `/roles/${encodeURIComponent(userId)}/${encodeURIComponent(roleId)}`)
+            return await resp.json() as RevokeRoleResponse
+        }
+
+        public async updateProfile(userId: string, params: UpdateProfileRequest): Promise<UserProfile> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI("PUT", `/profile/${encodeURIComponent(userId)}`, JSON.stringify(params))
+            return await resp.json() as UserProfile
+        }
     }
 }
 
@@ -397,6 +1634,12 @@ type CallParameters = Omit<RequestInit, "method" | "body" | "headers"> & {
 // A fetcher is the prototype for the inbuilt Fetch function
 export type Fetcher = typeof fetch;
 
+// AuthDataGenerator is a function that returns a new instance of the authentication data required by this API
+export type AuthDataGenerator = () =>
+  | auth.AuthParams
+  | Promise<auth.AuthParams | undefined>
+  | undefined;
+
 const boundFetch = fetch.bind(this);
 
 class BaseClient {
@@ -404,6 +1647,7 @@ class BaseClient {
     readonly fetcher: Fetcher
     readonly headers: Record<string, string>
     readonly requestInit: Omit<RequestInit, "headers"> & { headers?: Record<string, string> }
+    readonly authGenerator?: AuthDataGenerator
 
     constructor(baseURL: string, options: ClientOptions) {
         this.baseURL = baseURL
@@ -423,9 +1667,41 @@ class BaseClient {
         } else {
             this.fetcher = boundFetch
         }
+
+        // Setup an authentication data generator using the auth data token option
+        if (options.auth !== undefined) {
+            const auth = options.auth
+            if (typeof auth === "function") {
+                this.authGenerator = auth
+            } else {
+                this.authGenerator = () => auth
+            }
+        }
     }
 
     async getAuthData(): Promise<CallParameters | undefined> {
+        let authData: auth.AuthParams | undefined;
+
+        // If authorization data generator is present, call it and add the returned data to the request
+        if (this.authGenerator) {
+            const mayBePromise = this.authGenerator();
+            if (mayBePromise instanceof Promise) {
+                authData = await mayBePromise;
+            } else {
+                authData = mayBePromise;
+            }
+        }
+
+        if (authData) {
+            const data: CallParameters = {};
+
+            data.headers = makeRecord<string, string>({
+                authorization: authData.authorization,
+            });
+
+            return data;
+        }
+
         return undefined;
     }
 
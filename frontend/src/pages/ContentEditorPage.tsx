@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import {
+    Box,
+    Typography,
+    Paper,
+    Grid,
+    TextField,
+    MenuItem,
+    Button,
+    Stack,
+    CircularProgress
+} from '@mui/material';
+import { toast } from 'sonner';
+import { contentApi, getErrorMessage } from '../services';
+import { content } from '../lib/client';
+import { ContentHistoryPanel } from '../components/content';
+
+const statuses: content.ContentStatus[] = ['draft', 'review', 'published', 'archived'];
+
+export function ContentEditorPage() {
+    const { id = '' } = useParams();
+
+    const [item, setItem] = useState<content.ContentItem | null>(null);
+    const [title, setTitle] = useState('');
+    const [excerpt, setExcerpt] = useState('');
+    const [body, setBody] = useState('');
+    const [status, setStatus] = useState<content.ContentStatus>('draft');
+    const [isSaving, setIsSaving] = useState(false);
+    const [historyVersion, setHistoryVersion] = useState(0);
+
+    const applyItem = (next: content.ContentItem) => {
+        setItem(next);
+        setTitle(next.title);
+        setExcerpt(next.excerpt ?? '');
+        setBody(next.content ?? '');
+        setStatus(next.status);
+    };
+
+    useEffect(() => {
+        contentApi.get(id)
+            .then((response) => {
+                if (response.content) {
+                    applyItem(response.content);
+                } else {
+                    toast.error('Content not found');
+                }
+            })
+            .catch((error) => toast.error(getErrorMessage(error, 'Failed to load content')));
+    }, [id]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!title.trim()) {
+            toast.error('Title is required');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const updated = await contentApi.update(id, { title, excerpt, content: body, status });
+            applyItem(updated);
+            setHistoryVersion((version) => version + 1);
+            toast.success('Content saved');
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to save content'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!item) {
+        return (
+            <Box display="flex" justifyContent="center" mt={4}>
+                <CircularProgress />
+            </Box>
+        );
+    }
+
+    return (
+        <Box>
+            <Typography variant="h4" component="h1" gutterBottom>
+                Edit Content
+            </Typography>
+
+            <Grid container spacing={3}>
+                <Grid size={{ xs: 12, md: 8 }}>
+                    <Paper sx={{ p: 3 }} component="form" onSubmit={handleSave}>
+                        <Stack spacing={2}>
+                            <TextField
+                                label="Title"
+                                value={title}
+                                onChange={(e) => setTitle(e.target.value)}
+                                disabled={isSaving}
+                            />
+                            <TextField
+                                label="Excerpt"
+                                value={excerpt}
+                                onChange={(e) => setExcerpt(e.target.value)}
+                                multiline
+                                minRows={2}
+                                disabled={isSaving}
+                            />
+                            <TextField
+                                label="Content"
+                                value={body}
+                                onChange={(e) => setBody(e.target.value)}
+                                multiline
+                                minRows={12}
+                                disabled={isSaving}
+                            />
+                            <TextField
+                                select
+                                label="Status"
+                                value={status}
+                                onChange={(e) => setStatus(e.target.value as content.ContentStatus)}
+                                sx={{ maxWidth: 240 }}
+                                disabled={isSaving}
+                            >
+                                {statuses.map((option) => (
+                                    <MenuItem key={option} value={option}>
+                                        {option}
+                                    </MenuItem>
+                                ))}
+                            </TextField>
+                            <Box>
+                                <Button type="submit" variant="contained" disabled={isSaving}>
+                                    {isSaving ? 'Saving...' : 'Save'}
+                                </Button>
+                            </Box>
+                        </Stack>
+                    </Paper>
+                </Grid>
+
+                <Grid size={{ xs: 12, md: 4 }}>
+                    <ContentHistoryPanel
+                        contentId={id}
+                        refreshKey={historyVersion}
+                        onRestored={applyItem}
+                    />
+                </Grid>
+            </Grid>
+        </Box>
+    );
+}
@@ -13,6 +13,7 @@ import {
     People,
     Visibility
 } from '@mui/icons-material';
+import { VerifyEmailBanner } from '../components/ui';
 
 const statsCards = [
     {
@@ -47,6 +48,8 @@ export function DashboardPage() {
             <Typography variant="h4" component="h1" gutterBottom>
                 Dashboard
             </Typography>
+
+            <VerifyEmailBanner />
             
             <Grid container spacing={3}>
                 {statsCards.map((card, index) => (
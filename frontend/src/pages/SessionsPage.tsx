@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+    Box,
+    Typography,
+    Paper,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    Chip,
+    Button,
+    CircularProgress
+} from '@mui/material';
+import { toast } from 'sonner';
+import { authApi, getErrorMessage } from '../services';
+import type { Session } from '../lib/auth-types';
+
+// "Firefox on Windows" - good enough to recognise a device, not a full parser
+function describeUserAgent(userAgent: string | null): string {
+    if (!userAgent) {
+        return 'Unknown device';
+    }
+
+    const browsers: [RegExp, string][] = [
+        [/Edg\//, 'Edge'],
+        [/OPR\//, 'Opera'],
+        [/Firefox\//, 'Firefox'],
+        [/Chrome\//, 'Chrome'],
+        [/Safari\//, 'Safari'],
+    ];
+    const systems: [RegExp, string][] = [
+        [/Android/, 'Android'],
+        [/iPhone|iPad/, 'iOS'],
+        [/Windows/, 'Windows'],
+        [/Mac OS X/, 'macOS'],
+        [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) {
+        return `${browser} on ${system}`;
+    }
+    return browser ?? system ?? userAgent;
+}
+
+export function SessionsPage() {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadSessions = useCallback(async () => {
+        try {
+            const response = await authApi.listSessions();
+            setSessions(response.sessions);
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to load sessions'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    const handleRevoke = async (session: Session) => {
+        setIsSaving(true);
+        try {
+            await authApi.revokeSession(session.id);
+            toast.success('Session signed out');
+            await loadSessions();
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to sign out the session'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRevokeOthers = async () => {
+        setIsSaving(true);
+        try {
+            const response = await authApi.revokeOtherSessions();
+            toast.success(response.revoked === 1 ? 'Signed out 1 other session' : `Signed out ${response.revoked} other sessions`);
+            await loadSessions();
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to sign out other sessions'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const hasOthers = sessions.some((session) => !session.current);
+
+    return (
+        <Box>
+            <Button component={RouterLink} to="/settings" size="small" sx={{ mb: 1 }}>
+                Back to settings
+            </Button>
+            <Typography variant="h4" component="h1" gutterBottom>
+                Sessions
+            </Typography>
+            <Typography color="textSecondary" sx={{ mb: 2 }}>
+                Browsers and devices signed in to your account. Signing one out ends it right away.
+            </Typography>
+
+            <TableContainer component={Paper}>
+                <Table>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>Device</TableCell>
+                            <TableCell>IP address</TableCell>
+                            <TableCell>Signed in</TableCell>
+                            <TableCell>Last active</TableCell>
+                            <TableCell align="right">Actions</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {isLoading ? (
+                            <TableRow>
+                                <TableCell colSpan={5} align="center">
+                                    <CircularProgress size={24} />
+                                </TableCell>
+                            </TableRow>
+                        ) : (
+                            sessions.map((session) => (
+                                <TableRow key={session.id} selected={session.current}>
+                                    <TableCell>
+                                        {describeUserAgent(session.user_agent)}
+                                        {session.current && (
+                                            <Chip label="This session" color="primary" size="small" sx={{ ml: 1 }} />
+                                        )}
+                                    </TableCell>
+                                    <TableCell sx={{ fontFamily: 'monospace' }}>{session.ip_address ?? '—'}</TableCell>
+                                    <TableCell>{new Date(session.signed_in_at).toLocaleString()}</TableCell>
+                                    <TableCell>{new Date(session.last_used_at).toLocaleString()}</TableCell>
+                                    <TableCell align="right">
+                                        {!session.current && (
+                                            <Button size="small" color="error" onClick={() => handleRevoke(session)} disabled={isSaving}>
+                                                Sign out
+                                            </Button>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))
+                        )}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+
+            <Box sx={{ mt: 2, display: 'flex', justifyContent: 'flex-end' }}>
+                <Button variant="contained" color="error" onClick={handleRevokeOthers} disabled={isLoading || isSaving || !hasOthers}>
+                    Sign out everywhere else
+                </Button>
+            </Box>
+        </Box>
+    );
+}
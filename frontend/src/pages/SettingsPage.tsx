@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+    Box,
+    Typography,
+    Paper,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    Switch,
+    Button,
+    CircularProgress
+} from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
+import { toast } from 'sonner';
+import { notificationsApi, getErrorMessage } from '../services';
+import { useAuth } from '../hooks/useAuth';
+import { notifications } from '../lib/client';
+import { TwoFactorSettings } from '../components/ui';
+
+const EVENT_LABELS: Record<notifications.NotificationEvent, string> = {
+    announcement: 'Announcements',
+    content_published: 'My content was published',
+    content_unpublished: 'My content was taken offline',
+    review_requested: 'Content submitted for review',
+    media_uploaded: 'My uploads finished',
+    user_registered: 'New user sign-ups',
+    password_changed: 'Password changes',
+    account_locked: 'Account lockouts',
+    session_compromised: 'Signed-out sessions'
+};
+
+const CHANNELS: { channel: notifications.NotificationChannel; label: string }[] = [
+    { channel: 'in_app', label: 'In app' },
+    { channel: 'email', label: 'Email' },
+    { channel: 'digest', label: 'Digest' }
+];
+
+const keyOf = (event: string, channel: string) => `${event}:${channel}`;
+
+export function SettingsPage() {
+    const { user } = useAuth();
+    const [preferences, setPreferences] = useState<notifications.NotificationPreference[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const loadPreferences = useCallback(async () => {
+        if (!user) {
+            return;
+        }
+        try {
+            const response = await notificationsApi.getPreferences(user.id);
+            setPreferences(response.preferences);
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to load notification preferences'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        loadPreferences();
+    }, [loadPreferences]);
+
+    const byKey = useMemo(
+        () => new Map(preferences.map((preference) => [keyOf(preference.event, preference.channel), preference])),
+        [preferences]
+    );
+    const events = useMemo(() => [...new Set(preferences.map((preference) => preference.event))], [preferences]);
+
+    const handleToggle = (preference: notifications.NotificationPreference) => {
+        setPreferences((current) => current.map((p) => (p === preference ? { ...p, enabled: !p.enabled } : p)));
+    };
+
+    const handleSave = async () => {
+        if (!user) {
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await notificationsApi.updatePreferences(
+                user.id,
+                preferences
+                    .filter((preference) => !preference.locked)
+                    .map(({ event, channel, enabled }) => ({ event, channel, enabled }))
+            );
+            setPreferences(response.preferences);
+            toast.success('Notification preferences saved');
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to save notification preferences'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Box>
+            <Typography variant="h4" component="h1" gutterBottom>
+                Settings
+            </Typography>
+
+            <TwoFactorSettings />
+
+            <Paper sx={{ p: 3, mb: 3 }}>
+                <Typography variant="h6" gutterBottom>
+                    Sessions
+                </Typography>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+                    <Typography color="textSecondary">
+                        See where you're signed in and sign out devices you don't recognise.
+                    </Typography>
+                    <Button component={RouterLink} to="/settings/sessions" variant="outlined">
+                        Manage sessions
+                    </Button>
+                </Box>
+            </Paper>
+
+            <Paper sx={{ p: 3 }}>
+                <Typography variant="h6" gutterBottom>
+                    Notifications
+                </Typography>
+                <Typography color="textSecondary" sx={{ mb: 2 }}>
+                    Choose how you hear about each kind of event. Security notices cannot be turned off.
+                </Typography>
+
+                <TableContainer>
+                    <Table size="small">
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>Event</TableCell>
+                                {CHANNELS.map(({ channel, label }) => (
+                                    <TableCell key={channel} align="center">{label}</TableCell>
+                                ))}
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {isLoading ? (
+                                <TableRow>
+                                    <TableCell colSpan={CHANNELS.length + 1} align="center">
+                                        <CircularProgress size={24} />
+                                    </TableCell>
+                                </TableRow>
+                            ) : (
+                                events.map((event) => (
+                                    <TableRow key={event}>
+                                        <TableCell>{EVENT_LABELS[event]}</TableCell>
+                                        {CHANNELS.map(({ channel, label }) => {
+                                            const preference = byKey.get(keyOf(event, channel));
+                                            return (
+                                                <TableCell key={channel} align="center">
+                                                    {preference && (
+                                                        <Switch
+                                                            checked={preference.enabled}
+                                                            onChange={() => handleToggle(preference)}
+                                                            disabled={preference.locked || isSaving}
+                                                            inputProps={{ 'aria-label': `${EVENT_LABELS[event]}: ${label}` }}
+                                                        />
+                                                    )}
+                                                </TableCell>
+                                            );
+                                        })}
+                                    </TableRow>
+                                ))
+                            )}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+
+                <Box sx={{ mt: 2, display: 'flex', justifyContent: 'flex-end' }}>
+                    <Button variant="contained" onClick={handleSave} disabled={isLoading || isSaving}>
+                        Save
+                    </Button>
+                </Box>
+            </Paper>
+        </Box>
+    );
+}
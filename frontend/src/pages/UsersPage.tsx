@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+    Box,
+    Typography,
+    Paper,
+    Table,
+    TableBody,
+    TableCell,
+    TableContainer,
+    TableHead,
+    TableRow,
+    Chip,
+    Stack,
+    TextField,
+    MenuItem,
+    Button,
+    CircularProgress
+} from '@mui/material';
+import { toast } from 'sonner';
+import { usersApi, getErrorMessage } from '../services';
+import { users } from '../lib/client';
+
+interface UserRow {
+    userId: string;
+    assignments: users.RoleAssignment[];
+}
+
+export function UsersPage() {
+    const [roles, setRoles] = useState<users.Role[]>([]);
+    const [assignments, setAssignments] = useState<users.RoleAssignment[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const [userId, setUserId] = useState('');
+    const [roleId, setRoleId] = useState('');
+
+    const loadRoles = useCallback(async () => {
+        try {
+            const response = await usersApi.listRoles();
+            setRoles(response.roles);
+            setAssignments(response.assignments);
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to load roles'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadRoles();
+    }, [loadRoles]);
+
+    // One row per user, roles shown as chips
+    const rows = useMemo<UserRow[]>(() => {
+        const byUser = new Map<string, users.RoleAssignment[]>();
+        assignments.forEach((assignment) => {
+            const existing = byUser.get(assignment.user_id) ?? [];
+            byUser.set(assignment.user_id, [...existing, assignment]);
+        });
+        return Array.from(byUser, ([id, userAssignments]) => ({ userId: id, assignments: userAssignments }));
+    }, [assignments]);
+
+    const handleAssign = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!userId.trim() || !roleId) {
+            toast.error('Please enter a user ID and pick a role');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await usersApi.assignRole(userId.trim(), roleId);
+            toast.success('Role assigned');
+            setUserId('');
+            setRoleId('');
+            await loadRoles();
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to assign role'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRevoke = async (assignment: users.RoleAssignment) => {
+        setIsSaving(true);
+        try {
+            await usersApi.revokeRole(assignment.user_id, assignment.role_id);
+            toast.success(`Removed ${assignment.role_name} role`);
+            await loadRoles();
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to revoke role'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Lifts a sign-in lockout without waiting for it to run out
+    const handleUnlock = async (id: string) => {
+        setIsSaving(true);
+        try {
+            const response = await usersApi.unlockAccount(id);
+            toast.success(response.unlocked ? 'Sign-in unlocked' : 'Account was not locked');
+        } catch (error) {
+            toast.error(getErrorMessage(error, 'Failed to unlock account'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Box>
+            <Typography variant="h4" component="h1" gutterBottom>
+                Users
+            </Typography>
+
+            <Paper sx={{ p: 3, mb: 3 }}>
+                <Typography variant="h6" gutterBottom>
+                    Assign Role
+                </Typography>
+                <Box component="form" onSubmit={handleAssign}>
+                    <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+                        <TextField
+                            label="User ID"
+                            value={userId}
+                            onChange={(e) => setUserId(e.target.value)}
+                            size="small"
+                            fullWidth
+                            disabled={isSaving}
+                        />
+                        <TextField
+                            select
+                            label="Role"
+                            value={roleId}
+                            onChange={(e) => setRoleId(e.target.value)}
+                            size="small"
+                            sx={{ minWidth: 180 }}
+                            disabled={isSaving}
+                        >
+                            {roles.map((role) => (
+                                <MenuItem key={role.id} value={role.id}>
+                                    {role.name}
+                                </MenuItem>
+                            ))}
+                        </TextField>
+                        <Button type="submit" variant="contained" disabled={isSaving}>
+                            Assign
+                        </Button>
+                    </Stack>
+                </Box>
+            </Paper>
+
+            <TableContainer component={Paper}>
+                <Table>
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>User ID</TableCell>
+                            <TableCell>Roles</TableCell>
+                            <TableCell align="right">Actions</TableCell>
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {isLoading ? (
+                            <TableRow>
+                                <TableCell colSpan={3} align="center">
+                                    <CircularProgress size={24} />
+                                </TableCell>
+                            </TableRow>
+                        ) : rows.length === 0 ? (
+                            <TableRow>
+                                <TableCell colSpan={3}>
+                                    <Typography color="textSecondary">
+                                        No role assignments yet.
+                                    </Typography>
+                                </TableCell>
+                            </TableRow>
+                        ) : (
+                            rows.map((row) => (
+                                <TableRow key={row.userId}>
+                                    <TableCell sx={{ fontFamily: 'monospace' }}>{row.userId}</TableCell>
+                                    <TableCell>
+                                        <Stack direction="row" spacing={1}>
+                                            {row.assignments.map((assignment) => (
+                                                <Chip
+                                                    key={assignment.role_id}
+                                                    label={assignment.role_name}
+                                                    size="small"
+                                                    onDelete={isSaving ? undefined : () => handleRevoke(assignment)}
+                                                />
+                                            ))}
+                                        </Stack>
+                                    </TableCell>
+                                    <TableCell align="right">
+                                        <Button size="small" onClick={() => handleUnlock(row.userId)} disabled={isSaving}>
+                                            Unlock sign-in
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))
+                        )}
+                    </TableBody>
+                </Table>
+            </TableContainer>
+        </Box>
+    );
+}
@@ -1,9 +1,24 @@
-import Client, { Local } from '../lib/client';
+import Client, { Local, content, notifications, isAPIError } from '../lib/client';
 import { TokenService } from './tokenService';
+import type {
+  MfaStatusResponse,
+  MfaEnrollResponse,
+  MfaRecoveryCodesResponse,
+  ListSessionsResponse,
+  RevokeSessionsResponse
+} from '../lib/auth-types';
 
 // Create client instance (no need for auth headers in constructor)
 const getClient = () => new Client("http://localhost:4000");
 
+// Client for `auth: true` endpoints: the generated client attaches the bearer token itself
+const getAuthedClient = () => new Client("http://localhost:4000", {
+  auth: () => {
+    const authHeaders = TokenService.getAuthHeader();
+    return authHeaders.Authorization ? { authorization: authHeaders.Authorization } : undefined;
+  }
+});
+
 // Helper to get auth options for API calls
 const getAuthOptions = () => {
   const authHeaders = TokenService.getAuthHeader();
@@ -101,6 +116,90 @@ export const authApi = {
     return await client.auth.resetPassword({ token, newPassword });
   },
 
+  verifyEmail: async (token: string) => {
+    const client = getClient();
+    const authOptions = getAuthOptions();
+    const response = await client.auth.verifyEmail("POST", JSON.stringify({ token }), authOptions);
+
+    // A signed-in session gets a new access token carrying the verified claim
+    if (response.ok) {
+      const data = await response.clone().json().catch(() => ({}));
+      if (data.access_token) {
+        TokenService.setToken(data.access_token);
+      }
+    }
+
+    return response;
+  },
+
+  // Second sign-in step when two-factor authentication is on
+  verifyMfa: async (mfaToken: string, code: string) => {
+    const client = getClient();
+    const response = await client.auth.verifyMfa("POST", JSON.stringify({ mfa_token: mfaToken, code }));
+
+    if (response.ok) {
+      const data = await response.clone().json().catch(() => ({}));
+      if (data.access_token) {
+        TokenService.setToken(data.access_token);
+      }
+    }
+
+    return response;
+  },
+
+  getMfaStatus: async (): Promise<MfaStatusResponse> => {
+    const client = getClient();
+    const response = await client.auth.getMfaStatus("GET", undefined, getAuthOptions());
+    return await response.json();
+  },
+
+  enrollMfa: async (): Promise<MfaEnrollResponse> => {
+    const client = getClient();
+    const response = await client.auth.enrollMfa("POST", undefined, getAuthOptions());
+    return await response.json();
+  },
+
+  confirmMfa: async (code: string): Promise<MfaRecoveryCodesResponse> => {
+    const client = getClient();
+    const response = await client.auth.confirmMfa("POST", JSON.stringify({ code }), getAuthOptions());
+    return await response.json();
+  },
+
+  disableMfa: async (code: string) => {
+    const client = getClient();
+    return await client.auth.disableMfa("POST", JSON.stringify({ code }), getAuthOptions());
+  },
+
+  regenerateRecoveryCodes: async (code: string): Promise<MfaRecoveryCodesResponse> => {
+    const client = getClient();
+    const response = await client.auth.regenerateRecoveryCodes("POST", JSON.stringify({ code }), getAuthOptions());
+    return await response.json();
+  },
+
+  listSessions: async (): Promise<ListSessionsResponse> => {
+    const client = getClient();
+    const response = await client.auth.listSessions("GET", undefined, getAuthOptions());
+    return await response.json();
+  },
+
+  revokeSession: async (id: string): Promise<RevokeSessionsResponse> => {
+    const client = getClient();
+    const response = await client.auth.revokeSession("DELETE", id, undefined, getAuthOptions());
+    return await response.json();
+  },
+
+  revokeOtherSessions: async (): Promise<RevokeSessionsResponse> => {
+    const client = getClient();
+    const response = await client.auth.revokeOtherSessions("POST", undefined, getAuthOptions());
+    return await response.json();
+  },
+
+  resendVerification: async () => {
+    const client = getClient();
+    const authOptions = getAuthOptions();
+    return await client.auth.resendVerification("POST", undefined, authOptions);
+  },
+
   refresh: async () => {
     const client = getClient();
     const authOptions = getAuthOptions();
@@ -127,6 +226,80 @@ export const counterApi = {
   }
 };
 
+// Content API calls
+export const contentApi = {
+  get: async (id: string) => {
+    const client = getAuthedClient();
+    return await client.content.getContent(id);
+  },
+
+  update: async (id: string, updates: content.UpdateContentRequest) => {
+    const client = getAuthedClient();
+    return await client.content.updateContent(id, updates);
+  },
+
+  listRevisions: async (id: string) => {
+    const client = getAuthedClient();
+    return await client.content.listRevisions(id);
+  },
+
+  diffRevisions: async (id: string, from: number, to: number) => {
+    const client = getAuthedClient();
+    return await client.content.diffRevisions(id, { from, to });
+  },
+
+  restoreRevision: async (id: string, revision: number) => {
+    const client = getAuthedClient();
+    return await client.content.restoreRevision(id, revision);
+  }
+};
+
+// Users API calls
+export const usersApi = {
+  listRoles: async () => {
+    const client = getAuthedClient();
+    return await client.users.listRoles();
+  },
+
+  assignRole: async (userId: string, roleId: string) => {
+    const client = getAuthedClient();
+    return await client.users.assignRole(userId, { role_id: roleId });
+  },
+
+  revokeRole: async (userId: string, roleId: string) => {
+    const client = getAuthedClient();
+    return await client.users.revokeRole(userId, roleId);
+  },
+
+  unlockAccount: async (userId: string) => {
+    const client = getAuthedClient();
+    return await client.auth.unlockAccount(userId);
+  }
+};
+
+// Notifications API calls
+export const notificationsApi = {
+  unreadCount: async (userId: string) => {
+    const client = getAuthedClient();
+    return await client.notifications.getUnreadCount(userId);
+  },
+
+  stream: async (lastSeenId?: string) => {
+    const client = getAuthedClient();
+    return await client.notifications.streamNotifications({ last_seen_id: lastSeenId });
+  },
+
+  getPreferences: async (userId: string) => {
+    const client = getAuthedClient();
+    return await client.notifications.getPreferences(userId);
+  },
+
+  updatePreferences: async (userId: string, preferences: notifications.PreferenceSetting[]) => {
+    const client = getAuthedClient();
+    return await client.notifications.updatePreferences(userId, { preferences });
+  }
+};
+
 // Helper functions for response parsing
 export const authHelpers = {
   parseAuthResponse: async (response: Response) => {
@@ -142,10 +315,16 @@ export const authHelpers = {
   }
 };
 
+// Readable message for failures from the typed client methods
+export const getErrorMessage = (error: unknown, fallback: string) => {
+  if (isAPIError(error)) {
+    return error.message;
+  }
+  if (error instanceof TypeError) {
+    return 'Connection error: Please check if the backend is running';
+  }
+  return fallback;
+};
+
 // Export TokenService for direct use
 export { TokenService };
-
-// Future API modules can be added here
-// export const userApi = { ... };
-// export const contentApi = { ... };
-// export const notificationApi = { ... }; 
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { authApi, authHelpers, TokenService } from '../services/api';
-import { User } from '../lib/auth-types';
+import { User, MfaChallenge } from '../lib/auth-types';
 
 export interface AuthState {
   user: User | null;
@@ -8,6 +8,7 @@ export interface AuthState {
   isLoading: boolean;
   error: string | null;
   isInitialized: boolean; // Track if we've checked initial auth status
+  mfaToken: string | null; // Set between password and second factor when two-factor is on
 }
 
 // Async thunks using our API service
@@ -96,8 +97,13 @@ export const loginUser = createAsyncThunk(
       const data = await response.json();
       console.log('Login successful, received data:', data);
       
+      // Two-factor accounts get a challenge instead of a session
+      if (data.mfa_required) {
+        return data as MfaChallenge;
+      }
+
       // Return the user data
-      return data.user || data;
+      return (data.user || data) as User;
     } catch (error: any) {
       console.error('Login error:', error);
       return rejectWithValue(authHelpers.handleAuthError(error));
@@ -194,6 +200,56 @@ export const resetPassword = createAsyncThunk(
   }
 );
 
+export const verifyEmail = createAsyncThunk(
+  'auth/verifyEmail',
+  async ({ token }: { token: string }, { rejectWithValue }) => {
+    try {
+      const response = await authApi.verifyEmail(token);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || 'Email verification failed');
+      }
+      return data.user as User;
+    } catch (error) {
+      return rejectWithValue(authHelpers.handleAuthError(error));
+    }
+  }
+);
+
+export const resendVerification = createAsyncThunk(
+  'auth/resendVerification',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await authApi.resendVerification();
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || 'Could not resend the verification email');
+      }
+      return data.message as string;
+    } catch (error) {
+      return rejectWithValue(authHelpers.handleAuthError(error));
+    }
+  }
+);
+
+export const verifyMfa = createAsyncThunk(
+  'auth/verifyMfa',
+  async ({ code }: { code: string }, { getState, rejectWithValue }) => {
+    try {
+      const { mfaToken } = (getState() as { auth: AuthState }).auth;
+      if (!mfaToken) {
+        throw new Error('Please sign in again');
+      }
+
+      const response = await authApi.verifyMfa(mfaToken, code);
+      const data = await response.json().catch(() => ({}));
+      return data.user as User;
+    } catch (error) {
+      return rejectWithValue(authHelpers.handleAuthError(error));
+    }
+  }
+);
+
 // Initial state
 const initialState: AuthState = {
   user: null,
@@ -201,6 +257,7 @@ const initialState: AuthState = {
   isLoading: false,
   error: null,
   isInitialized: false,
+  mfaToken: null,
 };
 
 // Auth slice
@@ -216,6 +273,12 @@ const authSlice = createSlice({
       state.isAuthenticated = false;
       state.error = null;
       state.isInitialized = true;
+      state.mfaToken = null;
+    },
+    // Back out of the second sign-in step
+    cancelMfa: (state) => {
+      state.mfaToken = null;
+      state.error = null;
     },
   },
   extraReducers: (builder) => {
@@ -246,12 +309,16 @@ const authSlice = createSlice({
         state.isLoading = true;
         state.error = null;
       })
-      .addCase(loginUser.fulfilled, (state, action: PayloadAction<User>) => {
+      .addCase(loginUser.fulfilled, (state, action: PayloadAction<User | MfaChallenge>) => {
         console.log('Login fulfilled with user:', action.payload);
         state.isLoading = false;
+        state.error = null;
+        if ('mfa_required' in action.payload) {
+          state.mfaToken = action.payload.mfa_token;
+          return;
+        }
         state.user = action.payload;
         state.isAuthenticated = true;
-        state.error = null;
       })
       .addCase(loginUser.rejected, (state, action) => {
         console.log('Login rejected with error:', action.payload);
@@ -342,9 +409,58 @@ const authSlice = createSlice({
       .addCase(resetPassword.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
+      })
+      
+      // Verify email
+      .addCase(verifyEmail.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(verifyEmail.fulfilled, (state, action: PayloadAction<User>) => {
+        state.isLoading = false;
+        state.error = null;
+        // The link may be opened while signed in as someone else
+        if (state.user && state.user.id === action.payload.id) {
+          state.user.is_verified = true;
+        }
+      })
+      .addCase(verifyEmail.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      
+      // Resend verification
+      .addCase(resendVerification.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(resendVerification.fulfilled, (state) => {
+        state.isLoading = false;
+        state.error = null;
+      })
+      .addCase(resendVerification.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      
+      // Verify second factor
+      .addCase(verifyMfa.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(verifyMfa.fulfilled, (state, action: PayloadAction<User>) => {
+        state.isLoading = false;
+        state.user = action.payload;
+        state.isAuthenticated = true;
+        state.mfaToken = null;
+        state.error = null;
+      })
+      .addCase(verifyMfa.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
       });
   },
 });
 
-export const { clearError, clearAuth } = authSlice.actions;
+export const { clearError, clearAuth, cancelMfa } = authSlice.actions;
 export default authSlice.reducer; 
\ No newline at end of file